@@ -4,11 +4,29 @@
  * 使用新的 LLM Adapter + Agent Core 架构
  */
 
-import { createLLMAdapter, type LLMAdapter, type LLMConfig } from '../llm'
-import { ToolRegistry, getToolRegistry, PolicyEngine, getPolicyEngine, AgentGateway } from '../core'
+import { join } from 'node:path'
+import { createResilientAdapter, type LLMAdapter, type LLMConfig } from '../llm'
+import {
+  ToolRegistry,
+  getToolRegistry,
+  PolicyEngine,
+  getPolicyEngine,
+  AgentGateway,
+  type AgentEvent,
+  type ApprovalAnswer,
+  type ApprovalRequest,
+  type SessionContext,
+  type TurnUsage,
+  ContextManager,
+  FileSandbox,
+  getAuditLog,
+  estimateTextTokens
+} from '../core'
 import { coreTools } from '../tools'
-import { loadSkills, getDefaultSkillsDir } from '../skills'
-import type { AppConfig } from '../config'
+import { connectMcpServers, disconnectMcpServers, type McpServerConfig } from '../mcp'
+import { createShellBackend, getShellBackend, setShellBackend } from '../exec'
+import { loadSkills, getDefaultSkillsDir, formatSkillsForPrompt, type LoadedSkill } from '../skills'
+import { getConfigDir, getLogsDir, type AppConfig, type ModelProfile } from '../config'
 import { Logger } from '../utils/logger'
 import type { Message } from '../types'
 
@@ -32,12 +50,38 @@ function toLogString(value: unknown, maxLength = 400): string {
 export interface AgentClientConfig {
   llm: AppConfig['llm']
   systemPrompt?: string
+  /** 外部 MCP 工具服务器 */
+  mcpServers?: Record<string, McpServerConfig>
+  /** 工具调用策略（配置规则） */
+  policy?: AppConfig['policy']
+  /** 文件工具的沙箱（允许的根目录、禁止的路径） */
+  sandbox?: AppConfig['sandbox']
+  /** bash 工具的执行后端（宿主机、容器或 bubblewrap） */
+  shell?: AppConfig['shell']
+  /** 审计日志 */
+  audit?: AppConfig['audit']
+  /** 命名的模型配置（用户通过 `/model` 切换） */
+  models?: AppConfig['models']
 }
 
 export interface RequestContext {
   userId: string
   channelId: string
   sendReply: (text: string) => Promise<void>
+  /** 流式输出：收到新文本时回调（参数为目前为止的完整文本） */
+  onPartialReply?: (textSoFar: string) => void
+  /** 所有 Agent 事件的回调（工具调用、结果等） */
+  onEvent?: (event: AgentEvent) => void
+  /** 自定义审批（默认通过 PermissionBridge 询问用户所在渠道） */
+  requestPermission?: (prompt: string, request?: ApprovalRequest) => Promise<boolean | ApprovalAnswer>
+  /** 工具的工作目录（用户的工作区，默认为当前目录） */
+  workDir?: string
+  /** 消息来源的聊天（如群组名称），显示在发给审批人的请求中 */
+  origin?: string
+  /** 用户角色允许的工具和 Skills（由 router 根据 `roles` 填写） */
+  access?: Pick<SessionContext, 'allowedTools' | 'deniedTools' | 'allowedSkills'>
+  /** 用户选择的模型配置名称（`models` 中的键，默认使用 `llm`） */
+  model?: string
 }
 
 // ============================================================================
@@ -45,11 +89,19 @@ export interface RequestContext {
 // ============================================================================
 
 let llmAdapter: LLMAdapter | null = null
+/** 各模型配置的 Adapter（首次使用时创建） */
+const profileAdapters = new Map<string, Promise<LLMAdapter>>()
+const profileContextManagers = new Map<string, ContextManager>()
 let agentGateway: AgentGateway | null = null
 let toolRegistry: ToolRegistry | null = null
 let policyEngine: PolicyEngine | null = null
+let contextManager: ContextManager | null = null
+let clientConfig: AgentClientConfig | null = null
 let systemPrompt: string = ''
-let workDir: string = process.cwd()
+/** 不含 Skills 的 system prompt（按角色过滤 Skills 时使用） */
+let promptWithoutSkills: string = ''
+let loadedSkills: LoadedSkill[] = []
+let skillLoading: 'eager' | 'lazy' = 'eager'
 
 // ============================================================================
 // 初始化
@@ -58,17 +110,9 @@ let workDir: string = process.cwd()
 /**
  * 初始化 Agent 客户端
  */
-export async function initAgentClient(
-  config: AgentClientConfig,
-  sessionsDir?: string
-): Promise<void> {
+export async function initAgentClient(config: AgentClientConfig): Promise<void> {
   logger.info('Initializing Agent Client with new architecture...')
   
-  // 设置工作目录
-  if (sessionsDir) {
-    workDir = sessionsDir
-  }
-  
   // 保存基础 system prompt
   let basePrompt = config.systemPrompt || config.llm.systemPrompt || ''
   
@@ -78,76 +122,205 @@ export async function initAgentClient(
   if (errors.length > 0) {
     logger.warn(`Skills loading had ${errors.length} errors`)
   }
+  loadedSkills = skills
+  skillLoading = config.llm.skillLoading || 'eager'
+  promptWithoutSkills = basePrompt
   if (skills.length > 0) {
-    const loadingStrategy = config.llm.skillLoading || 'eager'
-    let skillsPrompt = ''
+    basePrompt = basePrompt + '\n' + buildSkillsPrompt(skills)
+    logger.info(`Loaded ${skills.length} user skills (${skillLoading === 'eager' ? 'Eager' : 'Lazy'} Loading): ${skills.map(s => s.id).join(', ')}`)
+  }
+  systemPrompt = basePrompt
+  clientConfig = config
+  
+  // 1. 创建 LLM Adapter
+  const adapter = await createAdapter(config.llm)
+  const fallbacks = config.llm.fallbacks || []
+  logger.info(
+    `LLM Adapter created: ${adapter.name} (${adapter.model})` +
+    (fallbacks.length > 0 ? `, fallbacks: ${fallbacks.map(f => f.model).join(', ')}` : '')
+  )
+  
+  // 2-3. 初始化 Tool Registry、Policy Engine 和 MCP 工具
+  await initTools(config)
+  
+  // 4. 创建 Agent Gateway 和 Context Manager
+  setupAgent(adapter, config)
+  
+  logger.info('Agent Client initialized successfully!')
+}
 
-    if (loadingStrategy === 'eager') {
-      const { formatSkillsForPrompt } = await import('../skills')
-      skillsPrompt = formatSkillsForPrompt(skills)
-      logger.info(`Loaded ${skills.length} user skills (Eager Loading): ${skills.map(s => s.id).join(', ')}`)
-    } else {
-      // Lazy Loading: 只注入 Skills 列表
-      const skillsList = skills.map(s => 
-        `- ${s.id}: ${s.metadata.name}${s.metadata.description ? ` - ${s.metadata.description}` : ''}`
-      ).join('\n')
-      
-      skillsPrompt = `
+/**
+ * 构建 Skills 部分的 system prompt
+ */
+function buildSkillsPrompt(skills: LoadedSkill[]): string {
+  if (skillLoading === 'eager') {
+    return formatSkillsForPrompt(skills)
+  }
+
+  // Lazy Loading: 只注入 Skills 列表
+  const skillsList = skills.map(s => 
+    `- ${s.id}: ${s.metadata.name}${s.metadata.description ? ` - ${s.metadata.description}` : ''}`
+  ).join('\n')
+  
+  return `
 ## Available Skills
 
 You have access to the following user-defined skills. Use \`list_skills\` to see them, and \`read_skill\` to read the full instructions when needed.
 
 ${skillsList}
 `
-      logger.info(`Loaded ${skills.length} user skills (Lazy Loading): ${skills.map(s => s.id).join(', ')}`)
-    }
+}
 
-    basePrompt = basePrompt + '\n' + skillsPrompt
-  }
-  systemPrompt = basePrompt
-  
-  // 1. 创建 LLM Adapter
-  const llmConfig: LLMConfig = {
-    format: config.llm.format,
-    apiKey: config.llm.apiKey,
-    baseUrl: config.llm.baseUrl,
-    model: config.llm.model,
-    timeout: config.llm.timeout,
-    maxTokens: config.llm.maxTokens,
-    temperature: config.llm.temperature
+/**
+ * 初始化工具和策略（不需要 LLM，`openvia mcp` 也使用）
+ */
+export async function initTools(config: AgentClientConfig): Promise<{ registry: ToolRegistry; policy: PolicyEngine }> {
+  if (toolRegistry && policyEngine) {
+    return { registry: toolRegistry, policy: policyEngine }
   }
   
-  llmAdapter = await createLLMAdapter(llmConfig)
-  logger.info(`LLM Adapter created: ${llmAdapter.name} (${llmAdapter.model})`)
+  // 审计日志（工具调用和消息）
+  await getAuditLog().init({ ...config.audit, dir: getLogsDir() })
   
-  // 2. 初始化 Tool Registry
-  toolRegistry = getToolRegistry()
-  toolRegistry.registerAll(coreTools)
+  // Tool Registry
+  const registry = getToolRegistry()
+  registry.registerAll(coreTools)
   logger.info(`Registered ${coreTools.length} core tools`)
   
-  // 3. 初始化 Policy Engine
-  policyEngine = getPolicyEngine()
+  // Policy Engine
+  const policy = getPolicyEngine()
   if (config.llm.shellConfirmList) {
-    policyEngine.setShellConfirmList(config.llm.shellConfirmList)
+    policy.setShellConfirmList(config.llm.shellConfirmList)
+  }
+  // 文件沙箱（默认开启；OpenVia 的配置文件始终禁止访问）
+  if (config.sandbox?.enabled !== false) {
+    const deny = [...(config.sandbox?.deny || []), join(getConfigDir(), 'config.json')]
+    policy.setSandbox(new FileSandbox({ ...config.sandbox, deny }))
+    logger.info('File sandbox enabled')
+  }
+  // 配置规则优先于 MCP 服务器的默认规则
+  if (config.policy?.rules?.length) {
+    policy.addRules(config.policy.rules)
+    logger.info(`Loaded ${config.policy.rules.length} policy rules`)
   }
   logger.info('Policy Engine initialized')
   
-  // 4. 创建 Agent Gateway
-  agentGateway = new AgentGateway(llmAdapter, toolRegistry, policyEngine, {
+  // bash 工具的执行后端
+  if (config.shell) {
+    await setShellBackend(await createShellBackend(config.shell), config.shell.timeout)
+    logger.info(`Shell backend: ${getShellBackend().name}`)
+  }
+  
+  // 连接 MCP 服务器并注册其工具
+  await connectMcpServers(config.mcpServers, registry, policy)
+  
+  toolRegistry = registry
+  policyEngine = policy
+  return { registry, policy }
+}
+
+/**
+ * 转换为 LLM Adapter 配置
+ */
+function toLLMConfig(llm: AppConfig['llm']): LLMConfig {
+  return {
+    format: llm.format,
+    apiKey: llm.apiKey,
+    baseUrl: llm.baseUrl,
+    model: llm.model,
+    timeout: llm.timeout,
+    maxTokens: llm.maxTokens,
+    temperature: llm.temperature
+  }
+}
+
+/**
+ * 创建 LLM Adapter：主模型在前，备用模型按顺序在后
+ *
+ * 输出开始前失败的请求会退避重试，仍失败则切换到下一个模型
+ */
+function createAdapter(llm: AppConfig['llm']): Promise<LLMAdapter> {
+  const fallbacks = (llm.fallbacks || []).map(fallback => ({ ...fallback, apiKey: fallback.apiKey || '' }))
+  return createResilientAdapter([toLLMConfig(llm), ...fallbacks], llm.retry)
+}
+
+/**
+ * 使用指定 LLM Adapter 创建 Agent Gateway 和 Context Manager
+ */
+function setupAgent(adapter: LLMAdapter, config: AgentClientConfig): void {
+  llmAdapter = adapter
+  
+  agentGateway = new AgentGateway(adapter, toolRegistry!, policyEngine!, {
     maxIterations: config.llm.maxIterations || 10
   })
   logger.info(`Agent Gateway created (maxIterations: ${config.llm.maxIterations || 10})`)
   
-  logger.info('Agent Client initialized successfully!')
+  // Context Manager（历史压缩）
+  contextManager = createContextManager(adapter, config.llm)
+  logger.info(`Context Manager created (budget: ${contextManager.getBudget()} tokens of ${adapter.maxContextTokens})`)
+}
+
+/**
+ * 创建 Context Manager：按 Adapter 的上下文窗口计算预算，并由该模型总结历史
+ */
+function createContextManager(adapter: LLMAdapter, llm: AppConfig['llm']): ContextManager {
+  return new ContextManager(adapter, {
+    threshold: llm.contextThreshold,
+    keepRecentTurns: llm.keepRecentTurns
+  })
+}
+
+/**
+ * 命名的模型配置（`models`）
+ */
+export function getModelProfiles(): Record<string, ModelProfile> {
+  return clientConfig?.models || {}
+}
+
+/**
+ * 模型配置对应的 Adapter（未设置的字段取自 `llm`，重试和备用模型与 `llm` 相同）
+ */
+function getProfileAdapter(name: string): Promise<LLMAdapter> {
+  let adapter = profileAdapters.get(name)
+  if (!adapter) {
+    adapter = createAdapter({ ...clientConfig!.llm, ...getModelProfiles()[name] })
+    adapter.then(
+      created => logger.info(`LLM Adapter created for profile ${name}: ${created.name} (${created.model})`),
+      () => profileAdapters.delete(name)
+    )
+    profileAdapters.set(name, adapter)
+  }
+  return adapter
+}
+
+/**
+ * 模型配置对应的 Context Manager
+ */
+async function getProfileContextManager(name: string): Promise<ContextManager> {
+  let manager = profileContextManagers.get(name)
+  if (!manager) {
+    const adapter = await getProfileAdapter(name)
+    manager = createContextManager(adapter, clientConfig!.llm)
+    logger.info(`Context Manager created for profile ${name} (budget: ${manager.getBudget()} tokens of ${adapter.maxContextTokens})`)
+    profileContextManagers.set(name, manager)
+  }
+  return manager
 }
 
 /**
  * 停止 Agent 客户端
  */
-export function stopAgentClient(): void {
+export async function stopAgentClient(): Promise<void> {
   logger.info('Stopping Agent Client...')
   llmAdapter = null
+  profileAdapters.clear()
+  profileContextManagers.clear()
   agentGateway = null
+  contextManager = null
+  await disconnectMcpServers()
+  // 删除会话容器
+  await getShellBackend().dispose()
+  await getAuditLog().flush()
   // Registry 和 Policy 是单例，保留
 }
 
@@ -169,14 +342,14 @@ import type { ContentBlock } from '../types/protocol'
  */
 export async function callAgent(
   message: string | ContentBlock[],
-  context: { history: Message[] },
+  context: { history: Message[]; systemPrompt?: string },
   requestContext: RequestContext
-): Promise<{ action: 'reply' | 'error'; message?: string }> {
+): Promise<{ action: 'reply' | 'error'; message?: string; messages?: Message[]; usage?: TurnUsage }> {
   if (!agentGateway) {
     return { action: 'error', message: 'Agent not initialized' }
   }
   
-  const { userId, channelId, sendReply } = requestContext
+  const { userId, channelId, sendReply, onPartialReply, onEvent, workDir, origin, access, model } = requestContext
   
   try {
     let fullResponse = ''
@@ -185,7 +358,7 @@ export async function callAgent(
     )
     
     // 权限请求处理器 - 使用 PermissionBridge 实现真正的用户等待
-    const onPermissionRequest = async (prompt: string): Promise<boolean> => {
+    const onPermissionRequest = requestContext.requestPermission || (async (prompt: string, request?: ApprovalRequest): Promise<ApprovalAnswer> => {
       const { PermissionBridge } = await import('../utils/permission-bridge')
       const bridge = PermissionBridge.getInstance()
       
@@ -193,25 +366,57 @@ export async function callAgent(
       const reqContext = {
         userId,
         channelId,
-        sendReply
+        sendReply,
+        origin
       }
       
-      const decision = await bridge.request(prompt, reqContext)
-      return decision === 'allow'
+      // 提供授权选项（本次会话 / 始终允许该模式）；需要审批人时由审批人批准
+      const answer = await bridge.request(prompt, reqContext, { grant: request?.grant, approvers: request?.approvers })
+      return {
+        approved: answer.decision === 'allow',
+        approver: answer.approver,
+        approvers: answer.approvers,
+        scope: answer.scope
+      }
+    })
+    
+    // 用户选择的模型配置（已删除的配置回退到 `llm`）
+    const profile = model ? getModelProfiles()[model] : undefined
+    if (model && !profile) {
+      logger.warn(`Unknown model profile "${model}" for user=${userId}, using the default model`)
+    }
+    const llm = profile ? await getProfileAdapter(model!) : undefined
+    
+    // 模型配置可替换 system prompt；角色限制了 Skills 时，只向模型展示允许的 Skills
+    let basePrompt = systemPrompt
+    if (profile?.systemPrompt !== undefined || access?.allowedSkills) {
+      const skills = access?.allowedSkills
+        ? loadedSkills.filter(s => access.allowedSkills!.includes(s.id))
+        : loadedSkills
+      const prompt = profile?.systemPrompt ?? promptWithoutSkills
+      basePrompt = skills.length > 0 ? `${prompt}\n${buildSkillsPrompt(skills)}` : prompt
     }
     
+    // 调用方附加的 system prompt（如 OpenAI 兼容接口中的 system 消息）
+    const turnSystemPrompt = context.systemPrompt
+      ? `${basePrompt}\n\n${context.systemPrompt}`.trim()
+      : basePrompt
+    
     // 处理 Agent 事件流
     for await (const event of agentGateway.handleMessage({
       message,
       history: context.history,
-      session: { userId, chatId: channelId },
-      systemPrompt,
-      onPermissionRequest
+      session: { userId, chatId: channelId, ...access },
+      systemPrompt: turnSystemPrompt,
+      onPermissionRequest,
+      workDir,
+      llm
     })) {
+      onEvent?.(event)
       switch (event.type) {
         case 'text_delta':
           fullResponse += event.content
-          // 可用于流式输出
+          onPartialReply?.(fullResponse)
           break
           
         case 'tool_start':
@@ -239,11 +444,11 @@ export async function callAgent(
           
         case 'done':
           logger.info(`Agent completed for user=${userId}, channel=${channelId}, responseLength=${(event.fullResponse || fullResponse).length}`)
-          return { action: 'reply', message: event.fullResponse || fullResponse }
+          return { action: 'reply', message: event.fullResponse || fullResponse, messages: event.messages, usage: event.usage }
           
         case 'error':
           logger.error(`Agent gateway error for user=${userId}, channel=${channelId}: ${event.message}`)
-          return { action: 'error', message: event.message }
+          return { action: 'error', message: event.message, usage: event.usage }
       }
     }
     
@@ -265,6 +470,32 @@ export async function callAgent(
   }
 }
 
+/**
+ * 压缩对话历史（超过上下文预算时总结较早的轮次）
+ *
+ * 使用用户所选模型配置的上下文窗口和模型；返回压缩后的历史，未压缩时返回 null
+ */
+export async function compactHistory(history: Message[], model?: string): Promise<Message[] | null> {
+  if (!contextManager) return null
+  
+  // 固定开销：system prompt + tool schemas
+  const profile = model ? getModelProfiles()[model] : undefined
+  const prompt = profile?.systemPrompt !== undefined
+    ? profile.systemPrompt + systemPrompt.slice(promptWithoutSkills.length)
+    : systemPrompt
+  const overhead = estimateTextTokens(prompt) +
+    estimateTextTokens(JSON.stringify(toolRegistry?.getSchemas() || []))
+  
+  try {
+    const manager = profile ? await getProfileContextManager(model!) : contextManager
+    const result = await manager.compact(history, overhead)
+    return result.compacted ? result.messages : null
+  } catch (error) {
+    logger.error('History compaction failed:', error instanceof Error ? error.message : String(error))
+    return null
+  }
+}
+
 // ============================================================================
 // 辅助函数
 // ============================================================================
@@ -276,19 +507,3 @@ export function getLLMInfo(): { name: string; model: string } | null {
   if (!llmAdapter) return null
   return { name: llmAdapter.name, model: llmAdapter.model }
 }
-
-/**
- * 获取工作目录
- */
-export function getWorkDir(): string {
-  return workDir
-}
-
-/**
- * 确保工作目录存在（兼容旧接口）
- */
-export async function ensureWorkDir(dir: string): Promise<void> {
-  const { mkdir } = await import('node:fs/promises')
-  await mkdir(dir, { recursive: true })
-  workDir = dir
-}
@@ -3,11 +3,13 @@
  */
 export {
   initAgentClient,
+  initTools,
   stopAgentClient,
   callAgent,
+  compactHistory,
   getLLMInfo,
-  getWorkDir,
-  ensureWorkDir
+  getModelProfiles,
+  type AgentClientConfig
 } from './agent-client'
 
 // Prompts
@@ -0,0 +1,464 @@
+/**
+ * Discord Bot Communication Layer
+ */
+import {
+  ActionRowBuilder,
+  ApplicationCommandDataResolvable,
+  ApplicationCommandOptionType,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  ChatInputCommandInteraction,
+  Client,
+  Events,
+  GatewayIntentBits,
+  Message,
+  MessageFlags,
+  Partials,
+} from 'discord.js'
+import { isUserAllowed, isWorkspaceAllowed } from '../orchestrator/policy'
+import { Logger } from '../utils/logger'
+import { Channel, MessageHandler } from './types'
+import {
+  PermissionBridge,
+  PendingRequest,
+  PermissionCloseReason,
+  describeApprovalRequest,
+  describeApprovals,
+  describeCancelled,
+  describeClosedRequest
+} from '../utils/permission-bridge'
+import type { ContentBlock } from '../types/protocol'
+import { ThrottledReplyStream } from './streaming'
+import { splitMessage } from './text'
+
+const logger = new Logger('DiscordChannel')
+
+/** Discord message limit */
+const MAX_MESSAGE_LENGTH = 2000
+/** Minimum interval between edits of a streaming reply (5 edits / 5s per channel) */
+const STREAM_EDIT_INTERVAL = 1200
+/** Max size of a downloaded image */
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024
+
+const HELP_TEXT = `**Help**
+
+Send me a message in natural language, and I'll understand and execute!
+In servers, mention me to start a request; in DMs, just write.
+For example:
+- "Read files in the current directory"
+- "Check git status"
+- "Analyze README.md"
+
+Commands:
+/clear - Clear conversation history
+/cancel - Deny your pending permission requests
+/grants - List or revoke remembered approvals
+/usage - Show your token usage and limits
+/status - Show session status
+/workspace - Show, list, create or switch workspaces
+/help - Show this help`
+
+/** Slash commands registered on startup */
+const SLASH_COMMANDS: ApplicationCommandDataResolvable[] = [
+  { name: 'clear', description: 'Clear conversation history' },
+  { name: 'cancel', description: 'Deny your pending permission requests' },
+  { name: 'help', description: 'Show how to use the bot' },
+  { name: 'status', description: 'Show session status' },
+  {
+    name: 'workspace',
+    description: 'Show, list, create or switch workspaces',
+    options: [{
+      type: ApplicationCommandOptionType.String,
+      name: 'args',
+      description: 'list, new <name>, use <name> or delete <name>',
+      required: false,
+    }],
+  },
+  {
+    name: 'grants',
+    description: 'List or revoke remembered approvals',
+    options: [{
+      type: ApplicationCommandOptionType.String,
+      name: 'args',
+      description: 'revoke <id> or clear',
+      required: false,
+    }],
+  },
+  {
+    name: 'usage',
+    description: 'Show your token usage and limits',
+    options: [{
+      type: ApplicationCommandOptionType.Integer,
+      name: 'days',
+      description: 'Days to sum up (default: 7)',
+      required: false,
+      min_value: 1,
+      max_value: 365,
+    }],
+  },
+]
+
+export class DiscordChannel implements Channel {
+  public id = 'discord'
+  private client: Client | null = null
+  private token: string
+  private error: string | null = null
+  /** Last message of each user, permission prompts are posted as replies to it */
+  private lastMessages = new Map<string, Message>()
+  /** Sent permission prompts by request ID, edited when the request closes */
+  private permissionMessages = new Map<string, Message>()
+
+  constructor(token: string) {
+    this.token = token
+  }
+
+  async start(messageHandler: MessageHandler): Promise<void> {
+    if (!this.token) {
+      throw new Error('Discord bot token not provided')
+    }
+
+    logger.info('Starting Discord bot...')
+    const client = new Client({
+      intents: [
+        GatewayIntentBits.Guilds,
+        GatewayIntentBits.GuildMessages,
+        GatewayIntentBits.DirectMessages,
+        GatewayIntentBits.MessageContent,
+      ],
+      // DM channels are not cached and arrive as partials
+      partials: [Partials.Channel],
+    })
+    this.client = client
+
+    // Connection health (discord.js reconnects automatically)
+    client.on(Events.ShardDisconnect, (event) => {
+      this.error = `Gateway disconnected (code ${event.code})`
+      logger.warn(this.error)
+    })
+    client.on(Events.ShardResume, () => {
+      this.error = null
+    })
+    client.on(Events.Error, (error) => {
+      logger.error('Client error:', error.message)
+    })
+
+    // Message handling
+    client.on(Events.MessageCreate, (message) => {
+      this.handleMessage(message, messageHandler).catch((error) => {
+        logger.error('Error handling message:', error)
+      })
+    })
+
+    // Slash commands and buttons
+    client.on(Events.InteractionCreate, (interaction) => {
+      const handled = interaction.isChatInputCommand()
+        ? this.handleCommand(interaction)
+        : interaction.isButton() ? this.handleButton(interaction) : null
+      handled?.catch((error) => {
+        logger.error('Error handling interaction:', error)
+      })
+    })
+
+    // Start (resolves once the gateway session is ready)
+    const ready = new Promise<void>((resolve) => {
+      client.once(Events.ClientReady, async (readyClient) => {
+        logger.info(`Bot started: ${readyClient.user.tag}`)
+        this.error = null
+        try {
+          await readyClient.application.commands.set(SLASH_COMMANDS)
+          logger.info('Registered slash commands')
+        } catch (e) {
+          logger.warn('Failed to register slash commands', e)
+        }
+        resolve()
+      })
+    })
+    await client.login(this.token)
+    await ready
+  }
+
+  async stop(): Promise<void> {
+    logger.info('Stopping bot...')
+    if (this.client) {
+      await this.client.destroy()
+      this.client = null
+    }
+  }
+
+  getError(): string | null {
+    return this.error
+  }
+
+  /**
+   * Handle Permission Request (Called by BotManager)
+   */
+  async handlePermissionRequest(req: PendingRequest): Promise<void> {
+    if (!this.client) {
+      logger.error('Cannot handle permission request: Bot not initialized')
+      return
+    }
+
+    // ONLY send to the user who initiated the request (or to the approval channel)
+    const userId = req.context.userId
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder().setCustomId(`perm:allow:${req.id}`).setLabel(req.approvers ? 'Approve' : 'Allow').setStyle(ButtonStyle.Success),
+      new ButtonBuilder().setCustomId(`perm:deny:${req.id}`).setLabel('Deny').setStyle(ButtonStyle.Danger),
+    )
+    const content = splitMessage(req.approvers ? describeApprovalRequest(req) : req.message, MAX_MESSAGE_LENGTH)[0]
+    const approvalChat = req.approvers ? PermissionBridge.getInstance().getApprovalChat(this.id) : undefined
+
+    try {
+      // Reply where the request came from, or DM the user
+      const lastMessage = this.lastMessages.get(userId)
+      let sent: Message
+      const approvalChannel = approvalChat ? await this.client.channels.fetch(approvalChat) : null
+      if (approvalChannel?.isSendable()) {
+        sent = await approvalChannel.send({ content, components: [row] })
+        await req.context.sendReply(
+          `Waiting for approval from ${req.approvers} approver${req.approvers! > 1 ? 's' : ''}. Use /cancel to withdraw the request.`
+        )
+      } else if (lastMessage) {
+        sent = await lastMessage.reply({ content, components: [row] })
+      } else {
+        const user = await this.client.users.fetch(userId)
+        sent = await user.send({ content, components: [row] })
+      }
+      this.permissionMessages.set(req.id, sent)
+      logger.info(`Sent permission request ${req.id} to user ${userId}`)
+    } catch (e) {
+      logger.error(`Failed to send permission request to ${userId}`, e)
+      throw e
+    }
+  }
+
+  /**
+   * Replace the buttons of an expired or cancelled request (Called by BotManager)
+   */
+  async closePermissionRequest(req: PendingRequest, reason: PermissionCloseReason): Promise<void> {
+    const sent = this.permissionMessages.get(req.id)
+    this.permissionMessages.delete(req.id)
+    if (!sent) return
+
+    const content = `${sent.content}\n\n**(${describeClosedRequest(reason)})**`
+    await sent.edit({
+      content: content.length <= MAX_MESSAGE_LENGTH ? content : sent.content,
+      components: [],
+    })
+  }
+
+  private async handleMessage(message: Message, messageHandler: MessageHandler): Promise<void> {
+    const client = this.client
+    if (!client?.user || message.author.bot) return
+
+    // DMs are always handled, guild messages only when the bot is mentioned
+    const isDirect = !message.inGuild()
+    if (!isDirect && !message.mentions.has(client.user, { ignoreEveryone: true, ignoreRoles: true })) return
+
+    const userId = message.author.id
+    if (message.inGuild() && !isWorkspaceAllowed(message.guildId, this.id)) {
+      logger.warn(`Ignoring message from guild ${message.guildId} (not in whitelist)`)
+      return
+    }
+    if (!isUserAllowed(userId, this.id)) {
+      await message.reply("Sorry, you don't have permission to use this Bot.")
+      logger.warn(`Unauthorized access attempt from ${userId}`)
+      return
+    }
+
+    const text = message.content.replace(/<@!?\d+>/g, '').trim()
+    const input = await this.buildInput(text, message)
+    if (!input) return
+
+    logger.info(`Received from ${message.author.username} (${userId}): ${text.slice(0, 50)}${text.length > 50 ? '...' : ''}`)
+    this.lastMessages.set(userId, message)
+
+    // Show typing status
+    if (message.channel.isSendable()) {
+      await message.channel.sendTyping().catch(() => undefined)
+    }
+
+    const sendReply = (replyText: string) => this.sendLongMessage(message, replyText)
+    const createStream = () => this.createStreamingReply(message)
+    // Guild channels are named in requests sent to approvers
+    const origin = message.inGuild() ? `#${'name' in message.channel ? message.channel.name : message.channelId} (${message.guild.name})` : undefined
+    messageHandler(input, userId, this.id, sendReply, createStream, origin).catch((error) => {
+      logger.error('Error handling message:', error)
+      message.reply('An error occurred while processing your request. Please try again later.')
+        .catch(e => logger.error('Failed to send error reply', e))
+    })
+  }
+
+  /**
+   * Build agent input from text and image attachments
+   */
+  private async buildInput(text: string, message: Message): Promise<string | ContentBlock[] | null> {
+    const images: ContentBlock[] = []
+
+    for (const attachment of message.attachments.values()) {
+      if (!attachment.contentType?.startsWith('image/') || attachment.size > MAX_IMAGE_BYTES) continue
+      try {
+        logger.info(`Downloading image ${attachment.name}`)
+        const response = await fetch(attachment.url)
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const buffer = Buffer.from(await response.arrayBuffer())
+        images.push({ type: 'image', data: buffer.toString('base64'), mimeType: attachment.contentType })
+      } catch (e) {
+        logger.error(`Failed to download image ${attachment.name}`, e)
+        await message.reply('Failed to process image.')
+        return null
+      }
+    }
+
+    if (images.length === 0) return text || null
+    return text ? [{ type: 'text', text }, ...images] : images
+  }
+
+  /**
+   * Slash commands (/clear, /cancel, /help, /status, /workspace, /grants, /usage)
+   */
+  private async handleCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    const userId = interaction.user.id
+    if (!isUserAllowed(userId, this.id) || (interaction.guildId && !isWorkspaceAllowed(interaction.guildId, this.id))) {
+      await interaction.reply({ content: "Sorry, you don't have permission to use this Bot.", flags: MessageFlags.Ephemeral })
+      return
+    }
+
+    switch (interaction.commandName) {
+      case 'help':
+        await interaction.reply({ content: HELP_TEXT, flags: MessageFlags.Ephemeral })
+        break
+
+      case 'clear': {
+        // Dynamic import to avoid circular dependency
+        const { clearSession } = await import('../orchestrator/session')
+        // Sessions are keyed by channel id (see router.handleMessage)
+        await clearSession(userId, this.id)
+        await interaction.reply({ content: 'Conversation history cleared', flags: MessageFlags.Ephemeral })
+        break
+      }
+
+      case 'cancel': {
+        const count = PermissionBridge.getInstance().cancelRequests(userId, this.id)
+        await interaction.reply({ content: describeCancelled(count), flags: MessageFlags.Ephemeral })
+        break
+      }
+
+      case 'status': {
+        const { getHistory } = await import('../orchestrator/session')
+        const { estimateMessagesTokens } = await import('../core/context-manager')
+        const history = await getHistory(userId, this.id)
+        const pending = PermissionBridge.getInstance().getUserRequests(userId, this.id)
+        await interaction.reply({
+          content: [
+            '**Status**',
+            `Messages in history: ${history.length} (~${estimateMessagesTokens(history)} tokens)`,
+            `Pending permission requests: ${pending.length}`,
+          ].join('\n'),
+          flags: MessageFlags.Ephemeral,
+        })
+        break
+      }
+
+      case 'workspace': {
+        const { handleWorkspaceCommand } = await import('../orchestrator/workspace')
+        const reply = await handleWorkspaceCommand(userId, this.id, interaction.options.getString('args') || '')
+        await interaction.reply({ content: reply, flags: MessageFlags.Ephemeral })
+        break
+      }
+
+      case 'grants': {
+        const { handleGrantsCommand } = await import('../orchestrator/grants')
+        const reply = await handleGrantsCommand(userId, this.id, interaction.options.getString('args') || '')
+        await interaction.reply({ content: reply, flags: MessageFlags.Ephemeral })
+        break
+      }
+
+      case 'usage': {
+        const { handleUsageCommand } = await import('../orchestrator/usage')
+        const days = interaction.options.getInteger('days')
+        const reply = await handleUsageCommand(userId, this.id, days ? String(days) : '')
+        await interaction.reply({ content: reply, flags: MessageFlags.Ephemeral })
+        break
+      }
+
+      default:
+        await interaction.reply({ content: 'Unknown command', flags: MessageFlags.Ephemeral })
+    }
+  }
+
+  /**
+   * Permission buttons (perm:allow:<id> / perm:deny:<id>)
+   */
+  private async handleButton(interaction: ButtonInteraction): Promise<void> {
+    const data = interaction.customId
+    if (!data.startsWith('perm:')) return
+
+    const [, action, id] = data.split(':')
+    logger.info(`[Discord] Processing permission: action=${action}, id=${id}`)
+
+    const decision = action === 'allow' ? 'allow' : 'deny'
+    const request = PermissionBridge.getInstance().getRequest(id)
+    const result = PermissionBridge.getInstance().resolveRequest(id, decision, interaction.user.id)
+    if (result === 'forbidden') {
+      const content = request?.approvers
+        ? 'Only a designated approver can approve this request.'
+        : 'Only the requesting user or an approver can answer this request.'
+      await interaction.reply({ content, flags: MessageFlags.Ephemeral })
+      return
+    }
+    if (result === 'pending' && request) {
+      // More approvers needed: the buttons stay
+      await interaction.reply({ content: `Approval recorded (${describeApprovals(request)}).`, flags: MessageFlags.Ephemeral })
+      return
+    }
+    this.permissionMessages.delete(id)
+
+    // Stale buttons (expired, cancelled or from before a restart) are removed too
+    const label = result === 'not_found' ? 'No longer pending' : `${decision === 'allow' ? 'Allowed' : 'Denied'} by ${interaction.user.username}`
+    const content = `${interaction.message.content}\n\n**(${label})**`
+    await interaction.update({
+      content: content.length <= MAX_MESSAGE_LENGTH ? content : interaction.message.content,
+      components: [],
+    })
+  }
+
+  /**
+   * Create a streaming reply: a placeholder message edited as text arrives
+   */
+  private async createStreamingReply(message: Message): Promise<ThrottledReplyStream<Message>> {
+    const stream = new ThrottledReplyStream<Message>({
+      send: (text) => this.sendChunk(message, text),
+      edit: async (sent, text) => {
+        await sent.edit(text)
+      },
+      fallback: (text) => this.sendLongMessage(message, text)
+    }, { maxLength: MAX_MESSAGE_LENGTH, intervalMs: STREAM_EDIT_INTERVAL })
+
+    await stream.start()
+    return stream
+  }
+
+  /**
+   * Send one chunk as a reply to the user's message (keeps guild conversations attributable)
+   */
+  private async sendChunk(message: Message, text: string): Promise<Message> {
+    return message.reply({ content: text, allowedMentions: { repliedUser: false } })
+  }
+
+  /**
+   * Send a reply, split at Discord's 2000 character limit.
+   * Code blocks cut by a split are closed and reopened, so each part renders on its own.
+   */
+  private async sendLongMessage(message: Message, text: string): Promise<void> {
+    logger.info(`Sending reply to ${message.channelId}: ${text.slice(0, 50)}...${text.length > 50 ? ` (total: ${text.length})` : ''}`)
+
+    for (const chunk of splitMessage(text, MAX_MESSAGE_LENGTH)) {
+      try {
+        await this.sendChunk(message, chunk)
+      } catch (e) {
+        logger.error('Failed to send message chunk', e)
+      }
+    }
+  }
+}
@@ -1,12 +1,27 @@
 import * as lark from '@larksuiteoapi/node-sdk'
-import { Channel } from './types'
+import { Channel, MessageHandler } from './types'
 import { Logger } from '../utils/logger'
-import { logAudit } from '../orchestrator/policy'
-import { PermissionBridge, PendingRequest } from '../utils/permission-bridge'
+import {
+    PermissionBridge,
+    PendingRequest,
+    PermissionCloseReason,
+    PermissionDecision,
+    describeApprovalRequest,
+    describeApprovals,
+    describeClosedRequest,
+    describeDecision
+} from '../utils/permission-bridge'
+import type { GrantScope } from '../core/grants'
 import type { ContentBlock } from '../types/protocol'
+import { ThrottledReplyStream } from './streaming'
 
 const logger = new Logger('FeishuChannel')
 
+/** Max characters per reply card (cards are limited to 30KB) */
+const MAX_CARD_TEXT_LENGTH = 8000
+/** Minimum interval between card updates (message.patch allows 5 QPS per message) */
+const STREAM_EDIT_INTERVAL = 1000
+
 /**
  * Convert standard Markdown to Lark Markdown (lark_md)
  * Lark MD supports: **bold**, *italic*, ~~strikethrough~~, [link](url), and code blocks.
@@ -28,6 +43,72 @@ function formatLarkMarkdown(markdown: string): string {
     return text;
 }
 
+/**
+ * Build a reply card. `update_multi` is required to update the card later (streaming).
+ */
+function buildReplyCard(text: string, updatable = false): string {
+    return JSON.stringify({
+        config: updatable ? { wide_screen_mode: true, update_multi: true } : { wide_screen_mode: true },
+        elements: [
+            {
+                tag: 'div',
+                text: {
+                    tag: 'lark_md',
+                    content: formatLarkMarkdown(text)
+                }
+            }
+        ]
+    })
+}
+
+/**
+ * Build a permission request card (updatable, so it can be marked when the request closes)
+ * https://open.feishu.cn/document/uAjLw4CM/ukTMukTMukTM/reference/im-v1/message/create
+ */
+function buildPermissionCard(text: string, template = 'orange', req?: PendingRequest): string {
+    const button = (label: string, type: string, decision: PermissionDecision, scope?: GrantScope) => ({
+        tag: 'button',
+        text: { tag: 'plain_text', content: label },
+        type,
+        value: { reqId: req!.id, decision, scope }
+    })
+    // Grants: "Allow for this session" and "Always allow this pattern"
+    const actions = !req ? [] : req.approvers
+        ? [button('Approve', 'primary', 'allow'), button('Deny', 'danger', 'deny')]
+        : req.grant
+        ? [
+            button('Allow once', 'primary', 'allow', 'once'),
+            button('Allow for this session', 'default', 'allow', 'session'),
+            button('Always allow this pattern', 'default', 'allow', 'always'),
+            button('Deny', 'danger', 'deny')
+        ]
+        : [button('Allow', 'primary', 'allow'), button('Deny', 'danger', 'deny')]
+
+    return JSON.stringify({
+        config: {
+            wide_screen_mode: true,
+            update_multi: true
+        },
+        header: {
+            title: {
+                tag: 'plain_text',
+                content: 'Permission Request'
+            },
+            template
+        },
+        elements: [
+            {
+                tag: 'div',
+                text: {
+                    tag: 'lark_md',
+                    content: text
+                }
+            },
+            ...(actions.length > 0 ? [{ tag: 'action', actions }] : [])
+        ]
+    })
+}
+
 export class FeishuChannel implements Channel {
   public id = 'feishu'
   private client: lark.Client
@@ -35,6 +116,9 @@ export class FeishuChannel implements Channel {
   private appSecret: string
   private wsEndpoint?: string
   private processedMessages = new Set<string>()
+  private wsClient: lark.WSClient | null = null
+  /** Sent permission cards by request ID (several when sent to each approver), updated when answered or closed */
+  private permissionCards = new Map<string, Array<{ messageId: string; text: string }>>()
 
   constructor(appId: string, appSecret: string, wsEndpoint?: string) {
     this.appId = appId
@@ -50,12 +134,10 @@ export class FeishuChannel implements Channel {
     }
   }
 
-  async start(
-    messageHandler: (input: string | ContentBlock[], userId: string, channelId: string, sendReply: (text: string) => Promise<void>) => Promise<void>
-  ): Promise<void> {
+  async start(messageHandler: MessageHandler): Promise<void> {
     logger.info('Starting Feishu bot...')
 
-    const wsClient = new lark.WSClient({
+    this.wsClient = new lark.WSClient({
         appId: this.appId,
         appSecret: this.appSecret,
     })
@@ -144,30 +226,13 @@ export class FeishuChannel implements Channel {
             
             logger.info(`Received from ${userId}: ${text}`)
 
-            logAudit({ userId, action: 'message', result: 'allowed' })
-
             // Helper to reply
             const sendReply = async (replyText: string) => {
-                const mkContent = formatLarkMarkdown(replyText)
-                
-                const card = {
-                    config: { wide_screen_mode: true },
-                    elements: [
-                        {
-                            tag: 'div',
-                            text: {
-                                tag: 'lark_md',
-                                content: mkContent
-                            }
-                        }
-                    ]
-                }
-
                 try {
                     await this.client.im.message.reply({
                         path: { message_id: messageId },
                         data: {
-                            content: JSON.stringify(card),
+                            content: buildReplyCard(replyText),
                             msg_type: 'interactive'
                         }
                     })
@@ -189,26 +254,43 @@ export class FeishuChannel implements Channel {
             }
 
             // 1. Intercept Permission Approvals
-            // This allows users to reply "ok" instead of clicking buttons
-            const pendingRequest = PermissionBridge.getInstance().findRequestByUser(userId)
-            if (pendingRequest) {
-                const lowerInput = text.trim().toLowerCase()
+            // This allows users to reply "ok" instead of clicking buttons.
+            // With several pending requests, the oldest is answered first.
+            const bridge = PermissionBridge.getInstance()
+            const pendingRequests = bridge.getUserRequests(userId, this.id)
+            const lowerInput = text.trim().toLowerCase()
+            if (pendingRequests.length > 0 && !/^\/cancel(\s|$)/.test(lowerInput)) {
+                const pendingRequest = pendingRequests[0]
+                const remaining = pendingRequests.length - 1
+                const more = remaining > 0 ? ` ${remaining} more pending, reply "ok" or "no" again.` : ''
                 
                 // Keywords
                 const allowKeywords = ['ok', 'confirm', 'yes', 'y', '允许', '同意', '确认', 'allow']
+                const sessionKeywords = ['session', '本次会话']
+                const alwaysKeywords = ['always', '始终允许']
                 const denyKeywords = ['no', 'n', 'deny', 'cancel', '拒绝', '取消', '不']
 
-                if (allowKeywords.includes(lowerInput)) {
-                    logger.info(`[Feishu] User ${userId} allowed permission via chat`)
-                    PermissionBridge.getInstance().resolveRequest(pendingRequest.id, 'allow')
-                    await sendReply('Permission granted via chat.')
+                const scope: GrantScope | null = allowKeywords.includes(lowerInput) ? 'once'
+                    : pendingRequest.grant && sessionKeywords.includes(lowerInput) ? 'session'
+                    : pendingRequest.grant && alwaysKeywords.includes(lowerInput) ? 'always'
+                    : null
+                if (scope) {
+                    if (bridge.resolveRequest(pendingRequest.id, 'allow', userId, scope) === 'forbidden') {
+                        await sendReply('This request needs a designated approver. Reply "no" or /cancel to withdraw it.')
+                        return
+                    }
+                    logger.info(`[Feishu] User ${userId} allowed permission via chat (${scope})`)
+                    const label = describeDecision('allow', scope, pendingRequest.grant)
+                    void this.markPermissionCard(pendingRequest.id, `${label} via chat`)
+                    await sendReply(`${label} via chat.${more}`)
                     return
                 }
 
                 if (denyKeywords.includes(lowerInput)) {
                      logger.info(`[Feishu] User ${userId} denied permission via chat`)
-                     PermissionBridge.getInstance().resolveRequest(pendingRequest.id, 'deny')
-                     await sendReply('Permission denied via chat.')
+                     bridge.resolveRequest(pendingRequest.id, 'deny', userId)
+                     void this.markPermissionCard(pendingRequest.id, 'Denied via chat', 'red')
+                     await sendReply(`Permission denied via chat.${more}`)
                      return
                 }
                 
@@ -216,14 +298,18 @@ export class FeishuChannel implements Channel {
                 // If we proceed to messageHandler while Claude is waiting for this permission,
                 // it will hit the Mutex lock and wait forever (or timeout).
                 // So we MUST return here.
-                await sendReply('You have a pending permission request. Please reply "ok" to allow or "no" to deny.')
+                const count = pendingRequests.length > 1 ? `${pendingRequests.length} pending permission requests` : 'a pending permission request'
+                await sendReply(`You have ${count}. Please reply "ok" to allow or "no" to deny, or /cancel to deny all.`)
                 return
             }
 
             // Notice: We don't await messageHandler here to return to Feishu quickly
             // Pass this.id ('feishu') as channelId
             const finalInput = imageContent ? [imageContent] : text
-            messageHandler(finalInput, userId, this.id, sendReply).catch(error => {
+            const createStream = () => this.createStreamingReply(messageId, sendReply)
+            // Group chats are named in requests sent to approvers
+            const origin = data.message.chat_type === 'group' ? `group ${data.message.chat_id}` : undefined
+            messageHandler(finalInput, userId, this.id, sendReply, createStream, origin).catch(error => {
                 logger.error('Error handling message:', error)
                 sendReply('An error occurred while processing your request.')
             })
@@ -239,71 +325,173 @@ export class FeishuChannel implements Channel {
              }
 
              const reqId = action.value.reqId
-             const decision = action.value.decision // 'allow' or 'deny'
+             const decision: PermissionDecision = action.value.decision === 'allow' ? 'allow' : 'deny'
+             const scope: GrantScope = action.value.scope === 'session' || action.value.scope === 'always' ? action.value.scope : 'once'
              
              const bridge = PermissionBridge.getInstance()
-             if (decision === 'allow') {
-                 bridge.resolveRequest(reqId, 'allow')
-                 return { toast: { type: 'success', content: 'Allowed' } }
-             } else {
-                 bridge.resolveRequest(reqId, 'deny')
-                  return { toast: { type: 'success', content: 'Denied' } }
+             const request = bridge.getRequest(reqId)
+             const result = bridge.resolveRequest(reqId, decision, operatorId, scope)
+             if (result === 'forbidden') {
+                 const content = request?.approvers
+                     ? 'Only a designated approver can approve this request'
+                     : 'Only the requesting user or an approver can answer this request'
+                 return { toast: { type: 'error', content } }
              }
+             if (result === 'pending' && request) {
+                 // More approvers needed: show the progress and keep the buttons
+                 void this.markPermissionCard(reqId, describeApprovals(request), 'orange', request)
+                 return { toast: { type: 'success', content: 'Approval recorded' } }
+             }
+             if (result === 'not_found') {
+                 void this.markPermissionCard(reqId, 'No longer pending', 'grey')
+                 return { toast: { type: 'info', content: 'This request is no longer pending' } }
+             }
+             const label = describeDecision(decision, scope, request?.grant)
+             void this.markPermissionCard(reqId, label, decision === 'allow' ? 'green' : 'red')
+             return { toast: { type: 'success', content: label } }
         }
     })
 
-    wsClient.start({ eventDispatcher })
+    await this.wsClient.start({ eventDispatcher })
   }
 
   async stop(): Promise<void> {
     logger.info('Stopping Feishu bot...')
+    if (this.wsClient) {
+      this.wsClient.close({ force: true })
+      this.wsClient = null
+    }
+  }
+
+  /**
+   * Create a streaming reply: a reply card patched as text arrives
+   */
+  private async createStreamingReply(
+    messageId: string,
+    sendReply: (text: string) => Promise<void>
+  ): Promise<ThrottledReplyStream<string>> {
+    const stream = new ThrottledReplyStream<string>({
+      send: async (text) => {
+        const response = await this.client.im.message.reply({
+          path: { message_id: messageId },
+          data: {
+            content: buildReplyCard(text, true),
+            msg_type: 'interactive'
+          }
+        })
+        const replyId = response.data?.message_id
+        if (!replyId) {
+          throw new Error(`Feishu reply failed: ${response.msg || 'no message id returned'}`)
+        }
+        return replyId
+      },
+      edit: async (replyId, text) => {
+        const response = await this.client.im.message.patch({
+          path: { message_id: replyId },
+          data: { content: buildReplyCard(text, true) }
+        })
+        if (response.code) {
+          throw new Error(`Feishu card update failed: ${response.msg}`)
+        }
+      },
+      fallback: sendReply
+    }, { maxLength: MAX_CARD_TEXT_LENGTH, intervalMs: STREAM_EDIT_INTERVAL })
+
+    await stream.start()
+    return stream
   }
 
   /**
    * Handle Permission Request via Feishu Card
    */
   async handlePermissionRequest(req: PendingRequest): Promise<void> {
-     const userId = req.context.userId
-     
-     // Construct Interactive Card
-     // https://open.feishu.cn/document/uAjLw4CM/ukTMukTMukTM/reference/im-v1/message/create
-     const cardContent = {
-        config: {
-          wide_screen_mode: true
-        },
-        header: {
-          title: {
-            tag: 'plain_text',
-            content: 'Permission Request'
-          },
-          template: 'orange'
-        },
-        elements: [
-          {
-            tag: 'div',
-            text: {
-              tag: 'lark_md',
-              content: `${req.message}\n\n**Tip**: You can also reply "ok" to allow or "no" to deny.`
-            }
-          }
-        ]
-      }
+     if (req.approvers) {
+         // Needs approvers: post to the approval chat, or to each approver
+         const bridge = PermissionBridge.getInstance()
+         const approvalChat = bridge.getApprovalChat(this.id)
+         const text = describeApprovalRequest(req)
+         if (approvalChat) {
+             await this.sendPermissionCard(req, 'chat_id', approvalChat, text)
+         } else {
+             for (const approver of bridge.getApprovers(this.id)) {
+                 await this.sendPermissionCard(req, 'open_id', approver, text)
+             }
+         }
+         await req.context.sendReply(
+             `Waiting for approval from ${req.approvers} approver${req.approvers > 1 ? 's' : ''}. Reply "no" or /cancel to withdraw the request.`
+         )
+         return
+     }
+
+     const text = req.grant
+         ? `${req.message}\n\nPattern: \`${req.grant.pattern}\`\n\n**Tip**: You can also reply "ok" to allow once, "session" to allow for this session, "always" to always allow this pattern or "no" to deny.`
+         : `${req.message}\n\n**Tip**: You can also reply "ok" to allow or "no" to deny.`
 
+     // Only send to the requester
+     await this.sendPermissionCard(req, 'open_id', req.context.userId, text, req.message)
+  }
+
+  /**
+   * Send a permission card and remember it for later updates
+   *
+   * @param note - Text kept on the card once it is answered (default: `text`)
+   */
+  private async sendPermissionCard(
+      req: PendingRequest,
+      receiveIdType: 'open_id' | 'chat_id',
+      receiveId: string,
+      text: string,
+      note = text
+  ): Promise<void> {
       try {
-          // Verify user type, defaulting to open_id. Only send to the requester.
-          await this.client.im.message.create({
+          const response = await this.client.im.message.create({
               params: {
-                  receive_id_type: 'open_id' 
+                  receive_id_type: receiveIdType
               },
               data: {
-                  receive_id: userId,
+                  receive_id: receiveId,
                   msg_type: 'interactive',
-                  content: JSON.stringify(cardContent)
+                  content: buildPermissionCard(text, 'orange', req)
               }
           })
-          logger.info(`Sent permission card ${req.id} to user ${userId}`)
+          if (response.data?.message_id) {
+              const cards = this.permissionCards.get(req.id) || []
+              this.permissionCards.set(req.id, [...cards, { messageId: response.data.message_id, text: note }])
+          }
+          logger.info(`Sent permission card ${req.id} to ${receiveIdType} ${receiveId}`)
       } catch (e) {
-          logger.error(`Failed to send permission card to ${userId}`, e)
+          logger.error(`Failed to send permission card to ${receiveId}`, e)
+      }
+  }
+
+  /**
+   * Mark the card of an expired or cancelled request (Called by BotManager)
+   */
+  async closePermissionRequest(req: PendingRequest, reason: PermissionCloseReason): Promise<void> {
+      await this.markPermissionCard(req.id, describeClosedRequest(reason), 'grey')
+  }
+
+  /**
+   * Replace the buttons of the permission cards of a request with the outcome
+   *
+   * @param pending - Request still waiting for answers: its buttons are kept
+   */
+  private async markPermissionCard(reqId: string, note: string, template = 'green', pending?: PendingRequest): Promise<void> {
+      const cards = this.permissionCards.get(reqId) || []
+      if (!pending) this.permissionCards.delete(reqId)
+
+      for (const card of cards) {
+          try {
+              const response = await this.client.im.message.patch({
+                  path: { message_id: card.messageId },
+                  data: { content: buildPermissionCard(`${card.text}\n\n**${note}**`, template, pending) }
+              })
+              if (response.code) {
+                  throw new Error(response.msg)
+              }
+          } catch (e) {
+              logger.warn(`Failed to update permission card ${reqId}`, e)
+          }
       }
   }
 }
@@ -0,0 +1,413 @@
+/**
+ * HTTP / WebSocket API Channel
+ *
+ * Programmatic access for scripts and CI, without a chat app:
+ *
+ * - `POST /v1/messages`          Send a message. Returns `{ reply }`, or an SSE stream of
+ *                                agent events with `"stream": true` / `Accept: text/event-stream`
+ * - `GET  /v1/permissions`       List pending permission requests the caller can answer
+ * - `POST /v1/permissions/:id`   Resolve a permission request (`{ "decision": "allow" | "deny" }`)
+ * - `GET  /v1/ws`                WebSocket for interactive sessions
+ * - `GET  /v1/health`            Health check (no authentication)
+ *
+ * Requests are authenticated with bearer tokens, each token maps to a user ID.
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http'
+import { WebSocketServer, WebSocket } from 'ws'
+import { Logger } from '../utils/logger'
+import { getBearerToken, HttpApiToken, HttpError, readJsonBody, sendJson, TokenStore } from '../utils/http'
+import { Channel, MessageHandler, StreamingReply } from './types'
+import { PermissionBridge, PendingRequest, PermissionCloseReason, PermissionDecision, ResolveResult } from '../utils/permission-bridge'
+import type { ContentBlock } from '../types/protocol'
+import type { AgentEvent } from '../core/gateway'
+import type { GrantProposal, GrantScope } from '../core/grants'
+
+const logger = new Logger('HttpChannel')
+
+/** Max request body size (images are sent inline as base64) */
+const MAX_BODY_BYTES = 20 * 1024 * 1024
+
+export type { HttpApiToken }
+
+/** HTTP channel options */
+export interface HttpChannelOptions {
+  host?: string
+  port?: number
+  tokens: HttpApiToken[]
+}
+
+/** Events sent to API clients: agent events plus channel events */
+export type HttpEvent =
+  | AgentEvent
+  | { type: 'permission_request'; id: string; message: string; expiresAt?: number; grant?: GrantProposal }
+  | { type: 'permission_closed'; id: string; reason: PermissionCloseReason }
+  | { type: 'reply'; text: string }
+  | { type: 'end' }
+
+/** Connected client that receives events (SSE response or WebSocket) */
+interface EventListener {
+  send(event: HttpEvent): void
+  /** Permission requests sent to this listener and not yet answered */
+  permissionIds: Set<string>
+}
+
+export class HttpChannel implements Channel {
+  public id = 'http'
+  private host: string
+  private port: number
+  private tokens: TokenStore
+
+  private server: Server | null = null
+  private wss: WebSocketServer | null = null
+  private messageHandler: MessageHandler | null = null
+  /** Connected listeners by user ID */
+  private listeners = new Map<string, Set<EventListener>>()
+
+  constructor(options: HttpChannelOptions) {
+    this.host = options.host || '127.0.0.1'
+    this.port = options.port ?? 8787
+    this.tokens = new TokenStore(options.tokens)
+  }
+
+  async start(messageHandler: MessageHandler): Promise<void> {
+    if (this.tokens.size === 0) {
+      throw new Error('No API tokens configured (adapters.http.tokens)')
+    }
+
+    logger.info('Starting HTTP API...')
+    this.messageHandler = messageHandler
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500
+        if (status === 500) logger.error('Error handling request:', error)
+        if (!res.headersSent) {
+          sendJson(res, status, { error: error instanceof Error ? error.message : String(error) })
+        } else {
+          res.end()
+        }
+      })
+    })
+
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: MAX_BODY_BYTES })
+    server.on('upgrade', (req, socket, head) => {
+      const userId = this.authenticate(req)
+      if (new URL(req.url || '/', 'http://localhost').pathname !== '/v1/ws' || !userId) {
+        socket.end(`HTTP/1.1 ${userId ? '404 Not Found' : '401 Unauthorized'}\r\n\r\n`)
+        return
+      }
+      this.wss!.handleUpgrade(req, socket, head, (ws) => this.handleWebSocket(ws, userId))
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+    this.server = server
+    logger.info(`HTTP API listening on http://${this.host}:${this.port}`)
+  }
+
+  async stop(): Promise<void> {
+    logger.info('Stopping HTTP API...')
+    if (this.wss) {
+      for (const client of this.wss.clients) client.terminate()
+      this.wss.close()
+      this.wss = null
+    }
+    if (this.server) {
+      const server = this.server
+      this.server = null
+      server.closeAllConnections()
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+  }
+
+  /**
+   * Handle Permission Request (Called by BotManager)
+   *
+   * Sent to the user's connected clients; also listed by `GET /v1/permissions`.
+   */
+  async handlePermissionRequest(req: PendingRequest): Promise<void> {
+    const listeners = this.listeners.get(req.context.userId)
+    if (!listeners || listeners.size === 0) {
+      logger.info(`Permission request ${req.id} pending, no client connected for ${req.context.userId}`)
+      return
+    }
+
+    for (const listener of listeners) {
+      listener.permissionIds.add(req.id)
+      listener.send({ type: 'permission_request', id: req.id, message: req.message, expiresAt: req.expiresAt, grant: req.grant })
+    }
+    logger.info(`Sent permission request ${req.id} to user ${req.context.userId}`)
+  }
+
+  /**
+   * Tell clients that a request expired or was cancelled (Called by BotManager)
+   */
+  async closePermissionRequest(req: PendingRequest, reason: PermissionCloseReason): Promise<void> {
+    for (const listener of this.listeners.get(req.context.userId) || []) {
+      if (!listener.permissionIds.delete(req.id)) continue
+      listener.send({ type: 'permission_closed', id: req.id, reason })
+    }
+  }
+
+  // ============================================================================
+  // HTTP
+  // ============================================================================
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const path = url.pathname.replace(/\/+$/, '')
+
+    if (req.method === 'GET' && path === '/v1/health') {
+      sendJson(res, 200, { status: 'ok' })
+      return
+    }
+
+    const userId = this.authenticate(req)
+    if (!userId) {
+      throw new HttpError(401, 'Invalid or missing bearer token')
+    }
+
+    if (req.method === 'POST' && path === '/v1/messages') {
+      await this.handleMessageRequest(req, res, userId)
+      return
+    }
+
+    if (req.method === 'GET' && path === '/v1/permissions') {
+      const bridge = PermissionBridge.getInstance()
+      const requests = bridge.getPendingRequests(this.id)
+        .filter(r => bridge.canAnswer(r, userId))
+        .map(r => ({
+          id: r.id,
+          userId: r.context.userId,
+          message: r.message,
+          expiresAt: r.expiresAt,
+          grant: r.grant,
+          approvers: r.approvers,
+          approvals: r.approvers ? r.approvals : undefined,
+        }))
+      sendJson(res, 200, { requests })
+      return
+    }
+
+    const permissionMatch = path.match(/^\/v1\/permissions\/([^/]+)$/)
+    if (req.method === 'POST' && permissionMatch) {
+      const body = await readJsonBody(req, MAX_BODY_BYTES)
+      const result = this.resolvePermission(userId, decodeURIComponent(permissionMatch[1]), body.decision, body.scope)
+      // 202: approval recorded, more approvers needed
+      sendJson(res, result === 'pending' ? 202 : 200, { id: permissionMatch[1], decision: body.decision, scope: body.scope, pending: result === 'pending' })
+      return
+    }
+
+    throw new HttpError(404, 'Not found')
+  }
+
+  /**
+   * POST /v1/messages
+   */
+  private async handleMessageRequest(req: IncomingMessage, res: ServerResponse, userId: string): Promise<void> {
+    const body = await readJsonBody(req, MAX_BODY_BYTES)
+    const input = this.parseInput(body.content)
+    const wantsStream = body.stream === true || String(req.headers.accept || '').includes('text/event-stream')
+
+    if (!wantsStream) {
+      const replies: string[] = []
+      await this.runTurn(userId, input, null, (text) => replies.push(text))
+      sendJson(res, 200, { reply: replies.join('\n\n') })
+      return
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    })
+    const listener: EventListener = {
+      send: (event) => {
+        if (!res.writableEnded) res.write(`data: ${JSON.stringify(event)}\n\n`)
+      },
+      permissionIds: new Set(),
+    }
+    // Client went away: nobody can answer its permission requests
+    res.on('close', () => this.removeListener(userId, listener))
+
+    await this.runTurn(userId, input, listener, (text) => listener.send({ type: 'reply', text }))
+    listener.send({ type: 'end' })
+    res.end()
+  }
+
+  // ============================================================================
+  // WebSocket
+  // ============================================================================
+
+  private handleWebSocket(ws: WebSocket, userId: string): void {
+    logger.info(`WebSocket connected: ${userId}`)
+    const listener: EventListener = {
+      send: (event) => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(event))
+      },
+      permissionIds: new Set(),
+    }
+    this.addListener(userId, listener)
+
+    ws.on('message', (data) => {
+      this.handleWebSocketMessage(userId, listener, data.toString()).catch((error) => {
+        ws.send(JSON.stringify({ type: 'error', message: error instanceof Error ? error.message : String(error) }))
+      })
+    })
+    ws.on('close', () => {
+      logger.info(`WebSocket disconnected: ${userId}`)
+      this.removeListener(userId, listener)
+    })
+  }
+
+  /**
+   * Client messages:
+   * - `{ "type": "message", "content": "..." }`
+   * - `{ "type": "permission", "id": "...", "decision": "allow" | "deny", "scope"?: "once" | "session" | "always" }`
+   */
+  private async handleWebSocketMessage(userId: string, listener: EventListener, raw: string): Promise<void> {
+    let message: any
+    try {
+      message = JSON.parse(raw)
+    } catch {
+      throw new HttpError(400, 'Invalid JSON')
+    }
+
+    switch (message?.type) {
+      case 'message': {
+        const input = this.parseInput(message.content)
+        await this.runTurn(userId, input, listener, (text) => listener.send({ type: 'reply', text }), true)
+        listener.send({ type: 'end' })
+        break
+      }
+      case 'permission':
+        if (this.resolvePermission(userId, String(message.id), message.decision, message.scope) === 'resolved') {
+          listener.permissionIds.delete(String(message.id))
+        }
+        break
+      default:
+        throw new HttpError(400, `Unknown message type: ${message?.type}`)
+    }
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  /**
+   * Run one agent turn for the user
+   *
+   * @param listener Receives agent events and permission requests (null = final reply only)
+   */
+  private async runTurn(
+    userId: string,
+    input: string | ContentBlock[],
+    listener: EventListener | null,
+    onReply: (text: string) => void,
+    registered = false
+  ): Promise<void> {
+    if (!this.messageHandler) {
+      throw new HttpError(503, 'Channel not started')
+    }
+
+    if (listener && !registered) this.addListener(userId, listener)
+
+    const sendReply = async (text: string) => onReply(text)
+    const createStream = listener
+      ? async (): Promise<StreamingReply> => ({
+          // Text arrives as `text_delta` events
+          update: () => undefined,
+          finish: async (text) => onReply(text),
+          onEvent: (event) => listener.send(event),
+        })
+      : undefined
+
+    try {
+      await this.messageHandler(input, userId, this.id, sendReply, createStream)
+    } finally {
+      if (listener && !registered) this.removeListener(userId, listener)
+    }
+  }
+
+  private resolvePermission(userId: string, id: string, decision: unknown, scope?: unknown): ResolveResult {
+    if (decision !== 'allow' && decision !== 'deny') {
+      throw new HttpError(400, 'decision must be "allow" or "deny"')
+    }
+    if (scope !== undefined && scope !== 'once' && scope !== 'session' && scope !== 'always') {
+      throw new HttpError(400, 'scope must be "once", "session" or "always"')
+    }
+
+    const bridge = PermissionBridge.getInstance()
+    const request = bridge.getRequest(id)
+    if (!request || request.context.channelId !== this.id) {
+      throw new HttpError(404, `Permission request ${id} not found`)
+    }
+    const result = bridge.resolveRequest(id, decision as PermissionDecision, userId, scope as GrantScope | undefined)
+    if (result === 'forbidden') {
+      throw new HttpError(403, request.approvers
+        ? 'Only a designated approver can approve this request'
+        : 'Only the requesting user or an approver can answer this request')
+    }
+    return result
+  }
+
+  private addListener(userId: string, listener: EventListener): void {
+    let listeners = this.listeners.get(userId)
+    if (!listeners) {
+      listeners = new Set()
+      this.listeners.set(userId, listeners)
+    }
+    listeners.add(listener)
+  }
+
+  /**
+   * Remove a listener, denying permission requests only it could have answered
+   */
+  private removeListener(userId: string, listener: EventListener): void {
+    const listeners = this.listeners.get(userId)
+    if (!listeners?.delete(listener)) return
+    if (listeners.size === 0) this.listeners.delete(userId)
+
+    const bridge = PermissionBridge.getInstance()
+    for (const id of listener.permissionIds) {
+      const answerable = [...(listeners || [])].some(l => l.permissionIds.has(id))
+      if (!answerable && bridge.getRequest(id)) {
+        logger.info(`Denying permission request ${id}: client disconnected`)
+        bridge.resolveRequest(id, 'deny')
+      }
+    }
+  }
+
+  /**
+   * Resolve the user ID of a bearer token (Authorization header or `?token=` for WebSocket clients)
+   */
+  private authenticate(req: IncomingMessage): string | null {
+    const token = getBearerToken(req) || new URL(req.url || '/', 'http://localhost').searchParams.get('token')
+    return this.tokens.resolve(token)
+  }
+
+  private parseInput(content: unknown): string | ContentBlock[] {
+    if (typeof content === 'string' && content.trim()) return content
+    if (Array.isArray(content) && content.length > 0) return content.map(parseContentBlock)
+    throw new HttpError(400, 'content must be a non-empty string or an array of content blocks')
+  }
+}
+
+/**
+ * Validate a content block sent by a client (only text and image blocks)
+ */
+function parseContentBlock(block: unknown, index: number): ContentBlock {
+  const { type, text, data, mimeType } = (block && typeof block === 'object' ? block : {}) as Record<string, unknown>
+  if (type === 'text' && typeof text === 'string') {
+    return { type: 'text', text }
+  }
+  if (type === 'image' && typeof data === 'string' && typeof mimeType === 'string' && mimeType.startsWith('image/')) {
+    return { type: 'image', data, mimeType }
+  }
+  throw new HttpError(400, `content[${index}] must be { type: "text", text } or { type: "image", data, mimeType }`)
+}
@@ -4,5 +4,11 @@
 
 export * from './telegram'
 export * from './feishu'
+export * from './slack'
+export * from './discord'
+export * from './http'
+export * from './terminal'
 export * from './types'
 export * from './manager'
+export * from './streaming'
+export * from './text'
@@ -1,82 +1,179 @@
-import { Channel } from './types'
+import { Channel, ChannelHealth, ChannelStatus, MessageHandler } from './types'
 import { Logger } from '../utils/logger'
-import { AppConfig } from '../config'
+import { AppConfig, getEnabledAdapters } from '../config'
 import { TelegramChannel } from './telegram'
 import { FeishuChannel } from './feishu'
+import { SlackChannel } from './slack'
+import { DiscordChannel } from './discord'
+import { HttpChannel } from './http'
 import { PermissionBridge } from '../utils/permission-bridge'
 
 const logger = new Logger('BotManager')
 
 export class BotManager {
   private channels: Channel[] = []
-  private messageHandler: (input: string, userId: string, channelId: string, sendReply: (text: string) => Promise<void>) => Promise<void>
+  private messageHandler: MessageHandler
+  private health: Map<string, ChannelHealth> = new Map()
 
   constructor(
-      messageHandler: (input: string, userId: string, channelId: string, sendReply: (text: string) => Promise<void>) => Promise<void>
+      messageHandler: MessageHandler
   ) {
     this.messageHandler = messageHandler
   }
 
   public registerChannel(channel: Channel) {
+    if (this.channels.some(c => c.id === channel.id)) {
+        logger.warn(`Channel ${channel.id} is already registered, ignoring duplicate`)
+        return
+    }
     this.channels.push(channel)
+    this.setStatus(channel.id, 'stopped')
   }
 
-  public async startAll(config: AppConfig) {
+  /**
+   * Start all enabled channels concurrently
+   *
+   * A channel that fails to start is marked as failed; the others keep running.
+   *
+   * @param adapters Adapters to start instead of the enabled ones
+   */
+  public async startAll(config: AppConfig, adapters?: string[]) {
+      const enabledAdapters = adapters || getEnabledAdapters(config)
+      logger.info(`Enabled adapters: ${enabledAdapters.join(', ')}`)
+
+      for (const adapter of enabledAdapters) {
+          const channel = this.createChannel(adapter, config)
+          if (channel) {
+              this.registerChannel(channel)
+          }
+      }
+
+      await this.start()
+  }
+
+  /**
+   * Start all registered channels concurrently
+   */
+  public async start() {
       // Register Permission Handler
       PermissionBridge.getInstance().registerHandler(async (req) => {
           const targetChannelId = req.context.channelId
           const channel = this.channels.find(c => c.id === targetChannelId)
-          
+
           if (channel && channel.handlePermissionRequest) {
               logger.info(`Dispatching permission request ${req.id} to channel ${targetChannelId}`)
               await channel.handlePermissionRequest(req)
           } else {
               logger.warn(`Target channel ${targetChannelId} not found or does not support permissions`)
           }
+      }, async (req, reason) => {
+          const channel = this.channels.find(c => c.id === req.context.channelId)
+          await channel?.closePermissionRequest?.(req, reason)
       })
 
-      const activeAdapter = config.adapters.default || 'telegram'
-      logger.info(`Starting active adapter: ${activeAdapter}`)
-
-      // 1. Telegram
-      if (activeAdapter === 'telegram' && config.adapters.telegram?.botToken) {
-          const telegram = new TelegramChannel(config.adapters.telegram.botToken)
-          this.registerChannel(telegram)
-      }
-
-      // 2. Feishu
-      else if (activeAdapter === 'feishu' && config.adapters.feishu?.appId && config.adapters.feishu?.appSecret) {
-          const feishu = new FeishuChannel(
-              config.adapters.feishu.appId,
-              config.adapters.feishu.appSecret,
-              config.adapters.feishu.wsEndpoint
-          )
-          this.registerChannel(feishu)
-      }
-
       if (this.channels.length === 0) {
           logger.warn('No channels configured.')
           return
       }
 
-      for (const channel of this.channels) {
-          try {
-              logger.info(`Starting channel: ${channel.id}`)
-              await channel.start(this.messageHandler)
-          } catch (error) {
-              logger.error(`Failed to start channel ${channel.id}:`, error)
-          }
+      await Promise.all(this.channels.map(channel => this.startChannel(channel)))
+
+      for (const health of this.getHealth()) {
+          logger.info(`Channel ${health.id}: ${health.status}${health.error ? ` (${health.error})` : ''}`)
       }
   }
 
   public async stopAll() {
-      for (const channel of this.channels) {
+      await Promise.all(this.channels.map(async (channel) => {
           try {
               await channel.stop()
+              this.setStatus(channel.id, 'stopped')
           } catch (error) {
               logger.error(`Failed to stop channel ${channel.id}:`, error)
+              this.setStatus(channel.id, 'failed', error)
           }
-      }
+      }))
       this.channels = []
   }
+
+  /**
+   * Get health of all configured channels
+   */
+  public getHealth(): ChannelHealth[] {
+      return [...this.health.values()].map((health) => {
+          // Channels report failures that happen after a successful start
+          const channel = this.channels.find(c => c.id === health.id)
+          const error = health.status === 'running' ? channel?.getError?.() : null
+          return error ? { ...health, status: 'failed', error } : { ...health }
+      })
+  }
+
+  /**
+   * Number of channels currently running
+   */
+  public getRunningCount(): number {
+      return this.getHealth().filter(h => h.status === 'running').length
+  }
+
+  /**
+   * Create the channel for an adapter name (null if not configured)
+   */
+  private createChannel(adapter: string, config: AppConfig): Channel | null {
+      switch (adapter) {
+          case 'telegram': {
+              const botToken = config.adapters.telegram?.botToken || config.telegram.botToken
+              if (!botToken) break
+              return new TelegramChannel(botToken)
+          }
+          case 'feishu': {
+              const feishu = config.adapters.feishu
+              if (!feishu?.appId || !feishu?.appSecret) break
+              return new FeishuChannel(feishu.appId, feishu.appSecret, feishu.wsEndpoint)
+          }
+          case 'slack': {
+              const slack = config.adapters.slack
+              if (!slack?.appToken || !slack?.botToken) break
+              return new SlackChannel(slack.appToken, slack.botToken, slack.apiUrl)
+          }
+          case 'discord': {
+              const botToken = config.adapters.discord?.botToken
+              if (!botToken) break
+              return new DiscordChannel(botToken)
+          }
+          case 'http': {
+              const http = config.adapters.http
+              if (!http?.tokens?.length) break
+              return new HttpChannel(http)
+          }
+          default:
+              logger.error(`Unknown adapter: ${adapter}`)
+              this.setStatus(adapter, 'failed', new Error('Unknown adapter'))
+              return null
+      }
+
+      logger.error(`Adapter ${adapter} is enabled but not configured (missing credentials)`)
+      this.setStatus(adapter, 'failed', new Error('Missing credentials'))
+      return null
+  }
+
+  private async startChannel(channel: Channel): Promise<void> {
+      this.setStatus(channel.id, 'starting')
+      try {
+          logger.info(`Starting channel: ${channel.id}`)
+          await channel.start(this.messageHandler)
+          this.setStatus(channel.id, 'running')
+      } catch (error) {
+          logger.error(`Failed to start channel ${channel.id}:`, error)
+          this.setStatus(channel.id, 'failed', error)
+      }
+  }
+
+  private setStatus(id: string, status: ChannelStatus, error?: unknown) {
+      this.health.set(id, {
+          id,
+          status,
+          error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+          since: Date.now()
+      })
+  }
 }
@@ -0,0 +1,656 @@
+/**
+ * Slack Bot Communication Layer (Socket Mode)
+ *
+ * - Events arrive over a Socket Mode WebSocket, no public HTTP endpoint is needed
+ * - Replies and permission prompts use the Web API (chat.postMessage / chat.update)
+ * - `apiUrl` can point to a local fake server for testing
+ */
+import { isUserAllowed, scopedUserId } from '../orchestrator/policy'
+import { Logger } from '../utils/logger'
+import { Channel, MessageHandler } from './types'
+import {
+  PermissionBridge,
+  PendingRequest,
+  PermissionCloseReason,
+  PermissionDecision,
+  describeApprovalRequest,
+  describeApprovals,
+  describeClosedRequest
+} from '../utils/permission-bridge'
+import type { ContentBlock } from '../types/protocol'
+import { ThrottledReplyStream } from './streaming'
+import { splitMessage } from './text'
+import WebSocket from 'ws'
+
+const logger = new Logger('SlackChannel')
+
+/** Default Web API base URL */
+const DEFAULT_API_URL = 'https://slack.com/api'
+/** Max characters per message (Slack truncates text beyond 40000, recommends < 4000) */
+const MAX_MESSAGE_LENGTH = 3900
+/** Minimum interval between edits of a streaming reply (chat.update is rate limited) */
+const STREAM_EDIT_INTERVAL = 1500
+/** Max size of a downloaded image */
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024
+/** Reconnect backoff (ms) */
+const RECONNECT_BASE_DELAY = 1000
+const RECONNECT_MAX_DELAY = 30000
+
+/** Action IDs of the permission buttons */
+const ACTION_ALLOW = 'perm_allow'
+const ACTION_DENY = 'perm_deny'
+
+/** Where to reply: a DM or channel, optionally inside a thread */
+interface SlackConversation {
+  channel: string
+  threadTs?: string
+}
+
+/** Socket Mode envelope (`payload` depends on `type`) */
+interface SocketEnvelope {
+  type: string
+  envelope_id?: string
+  payload?: unknown
+  reason?: string
+}
+
+/** File attached to a message */
+interface SlackFile {
+  id: string
+  name?: string
+  mimetype?: string
+  size?: number
+  url_private?: string
+  url_private_download?: string
+}
+
+/** `message` or `app_mention` event */
+interface SlackMessageEvent {
+  type: string
+  subtype?: string
+  channel: string
+  channel_type?: string
+  user: string
+  bot_id?: string
+  team?: string
+  text?: string
+  ts: string
+  thread_ts?: string
+  files?: SlackFile[]
+}
+
+/** Payload of an `events_api` envelope */
+interface SlackEventPayload {
+  team_id?: string
+  event?: SlackMessageEvent
+}
+
+/** Payload of a `slash_commands` envelope */
+interface SlackSlashCommandPayload {
+  command: string
+  text?: string
+  user_id: string
+  team_id?: string
+  channel_id: string
+}
+
+/** Block Kit block, only its type is read */
+interface SlackBlock {
+  type: string
+  [key: string]: unknown
+}
+
+/** Payload of an `interactive` envelope */
+interface SlackInteractionPayload {
+  type: string
+  user?: { id: string; team_id?: string }
+  team?: { id: string } | null
+  channel?: { id: string }
+  container?: { channel_id?: string; message_ts?: string }
+  message?: { ts?: string; text?: string; blocks?: SlackBlock[] }
+  actions?: Array<{ action_id: string; value: string }>
+}
+
+/**
+ * Convert standard Markdown to Slack mrkdwn
+ * Supports: code blocks, inline code, bold, links, headers, lists
+ */
+function formatSlackMarkdown(markdown: string): string {
+  const placeholders: string[] = []
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+  // 1. Protect code blocks (Slack does not support a language after the fence)
+  let text = markdown.replace(/```[\w+-]*\n?([\s\S]*?)```/g, (_, code) => {
+    placeholders.push('```\n' + escape(code) + '```')
+    return `\u0000${placeholders.length - 1}\u0000`
+  })
+
+  // 2. Protect inline code
+  text = text.replace(/`([^`\n]+)`/g, (_, code) => {
+    placeholders.push('`' + escape(code) + '`')
+    return `\u0000${placeholders.length - 1}\u0000`
+  })
+
+  // 3. Escape control characters of the remaining text
+  text = escape(text)
+
+  // 4. Headers and bold -> *bold*
+  text = text.replace(/^#{1,6}\s+(.*)$/gm, '*$1*')
+  text = text.replace(/(\*\*|__)(.+?)\1/g, '*$2*')
+
+  // 5. Links: [text](url) -> <url|text>
+  text = text.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<$2|$1>')
+
+  // 6. Lists: - item -> • item
+  text = text.replace(/^(\s*)[-*]\s+(.*)$/gm, '$1• $2')
+
+  // 7. Restore placeholders
+  return text.replace(/\u0000(\d+)\u0000/g, (_, i) => placeholders[Number(i)])
+}
+
+/**
+ * Remove bot mentions (<@U123>) from message text
+ */
+function stripMentions(text: string): string {
+  return text.replace(/<@[A-Z0-9]+>/g, '').trim()
+}
+
+export class SlackChannel implements Channel {
+  public id = 'slack'
+  private appToken: string
+  private botToken: string
+  private apiUrl: string
+
+  private messageHandler: MessageHandler | null = null
+  private socket: WebSocket | null = null
+  private stopped = false
+  private reconnectAttempts = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private error: string | null = null
+  private processedMessages = new Set<string>()
+  /** Last conversation of each user, permission prompts are posted there */
+  private conversations = new Map<string, SlackConversation>()
+  /** Sent permission prompts by request ID (several when sent to each approver), updated when the request closes */
+  private permissionMessages = new Map<string, Array<{ channel: string; ts: string }>>()
+
+  constructor(appToken: string, botToken: string, apiUrl?: string) {
+    this.appToken = appToken
+    this.botToken = botToken
+    this.apiUrl = (apiUrl || DEFAULT_API_URL).replace(/\/+$/, '')
+  }
+
+  async start(messageHandler: MessageHandler): Promise<void> {
+    if (!this.appToken || !this.botToken) {
+      throw new Error('Slack app token and bot token are required')
+    }
+
+    logger.info('Starting Slack bot (Socket Mode)...')
+    this.messageHandler = messageHandler
+    this.stopped = false
+    await this.connect()
+  }
+
+  async stop(): Promise<void> {
+    logger.info('Stopping Slack bot...')
+    this.stopped = true
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    if (this.socket) {
+      this.socket.close()
+      this.socket = null
+    }
+  }
+
+  getError(): string | null {
+    return this.error
+  }
+
+  /**
+   * Handle Permission Request via Block Kit buttons
+   */
+  async handlePermissionRequest(req: PendingRequest): Promise<void> {
+    const userId = req.context.userId
+
+    if (req.approvers) {
+      // Needs approvers: post to the approval channel, or DM each approver
+      const bridge = PermissionBridge.getInstance()
+      const approvalChat = bridge.getApprovalChat(this.id)
+      const targets = approvalChat
+        ? [approvalChat]
+        : bridge.getApprovers(this.id).map(approver => approver.slice(approver.indexOf(':') + 1))
+      const message = describeApprovalRequest(req)
+      for (const channel of targets) {
+        await this.sendPermissionMessage(req, { channel }, message)
+      }
+      await req.context.sendReply(
+        `Waiting for approval from ${req.approvers} approver${req.approvers > 1 ? 's' : ''}. Send /cancel to withdraw the request.`
+      )
+      return
+    }
+
+    // Post in the conversation the request came from, or DM the user
+    const conversation = this.conversations.get(userId) || { channel: userId.slice(userId.indexOf(':') + 1) }
+    await this.sendPermissionMessage(req, conversation, req.message)
+  }
+
+  /**
+   * Replace the buttons of an expired or cancelled request (Called by BotManager)
+   */
+  async closePermissionRequest(req: PendingRequest, reason: PermissionCloseReason): Promise<void> {
+    await this.updatePermissionMessages(req, describeClosedRequest(reason))
+  }
+
+  /**
+   * Post a permission prompt and remember it for later updates
+   */
+  private async sendPermissionMessage(req: PendingRequest, conversation: SlackConversation, message: string): Promise<void> {
+    try {
+      const sent = await this.callApi<{ channel?: string; ts?: string }>('chat.postMessage', {
+        channel: conversation.channel,
+        thread_ts: conversation.threadTs,
+        text: `Permission Request:\n${message}`,
+        blocks: [
+          {
+            type: 'section',
+            text: { type: 'mrkdwn', text: formatSlackMarkdown(message) }
+          },
+          {
+            type: 'actions',
+            block_id: `perm:${req.id}`,
+            elements: [
+              { type: 'button', text: { type: 'plain_text', text: req.approvers ? 'Approve' : 'Allow' }, style: 'primary', action_id: ACTION_ALLOW, value: req.id },
+              { type: 'button', text: { type: 'plain_text', text: 'Deny' }, style: 'danger', action_id: ACTION_DENY, value: req.id }
+            ]
+          }
+        ]
+      })
+      if (sent.channel && sent.ts) {
+        this.permissionMessages.set(req.id, [...(this.permissionMessages.get(req.id) || []), { channel: sent.channel, ts: sent.ts }])
+      }
+      logger.info(`Sent permission request ${req.id} to ${conversation.channel}`)
+    } catch (e) {
+      logger.error(`Failed to send permission request to ${conversation.channel}`, e)
+      throw e
+    }
+  }
+
+  /**
+   * Replace the buttons of every sent prompt of a request with a note
+   */
+  private async updatePermissionMessages(req: PendingRequest, note: string): Promise<void> {
+    const sent = this.permissionMessages.get(req.id) || []
+    this.permissionMessages.delete(req.id)
+
+    for (const { channel, ts } of sent) {
+      await this.callApi('chat.update', {
+        channel,
+        ts,
+        text: `Permission Request:\n${req.message}`,
+        blocks: [
+          { type: 'section', text: { type: 'mrkdwn', text: formatSlackMarkdown(req.message) } },
+          { type: 'context', elements: [{ type: 'mrkdwn', text: `*${note}*` }] }
+        ]
+      }).catch((e) => logger.warn('Failed to update permission message', e))
+    }
+  }
+
+  // ============================================================================
+  // Socket Mode
+  // ============================================================================
+
+  /**
+   * Open a Socket Mode connection (resolves once Slack sends "hello")
+   */
+  private async connect(): Promise<void> {
+    const { url } = await this.callApi<{ url: string }>('apps.connections.open', {}, this.appToken)
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(url)
+      let ready = false
+      this.socket = socket
+
+      socket.on('message', (data) => {
+        let envelope: SocketEnvelope
+        try {
+          envelope = JSON.parse(data.toString())
+        } catch (e) {
+          logger.warn('Ignoring malformed Socket Mode message')
+          return
+        }
+
+        if (envelope.type === 'hello') {
+          ready = true
+          this.error = null
+          this.reconnectAttempts = 0
+          logger.info('Socket Mode connected')
+          resolve()
+          return
+        }
+        this.handleEnvelope(socket, envelope)
+      })
+
+      socket.on('error', (error) => {
+        logger.warn('Socket Mode connection error:', error.message)
+      })
+
+      socket.on('close', () => {
+        if (!ready) {
+          reject(new Error('Socket Mode connection closed before hello'))
+          return
+        }
+        if (this.socket === socket) {
+          this.socket = null
+          this.scheduleReconnect()
+        }
+      })
+    })
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return
+
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY)
+    this.reconnectAttempts++
+    logger.info(`Reconnecting in ${delay}ms...`)
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      if (this.stopped) return
+      this.connect().catch((error) => {
+        this.error = error instanceof Error ? error.message : String(error)
+        logger.error('Reconnect failed:', this.error)
+        this.scheduleReconnect()
+      })
+    }, delay)
+  }
+
+  private handleEnvelope(socket: WebSocket, envelope: SocketEnvelope): void {
+    // Acknowledge first, Slack retries envelopes that are not acknowledged within 3 seconds
+    if (envelope.envelope_id) {
+      socket.send(JSON.stringify({ envelope_id: envelope.envelope_id }))
+    }
+
+    switch (envelope.type) {
+      case 'disconnect':
+        // Slack asks us to reconnect (e.g. connection refresh)
+        logger.info(`Socket Mode disconnect requested: ${envelope.reason || 'unknown'}`)
+        socket.close()
+        break
+      case 'events_api':
+        this.handleEvent(envelope.payload as SlackEventPayload).catch((error) => {
+          logger.error('Error handling Slack event:', error)
+        })
+        break
+      case 'slash_commands':
+        this.handleSlashCommand(envelope.payload as SlackSlashCommandPayload).catch((error) => {
+          logger.error('Error handling Slack slash command:', error)
+        })
+        break
+      case 'interactive':
+        this.handleInteraction(envelope.payload as SlackInteractionPayload).catch((error) => {
+          logger.error('Error handling Slack interaction:', error)
+        })
+        break
+      default:
+        logger.debug(`Ignoring Socket Mode envelope: ${envelope.type}`)
+    }
+  }
+
+  // ============================================================================
+  // Events
+  // ============================================================================
+
+  private async handleEvent(payload: SlackEventPayload | undefined): Promise<void> {
+    if (!payload?.event || !this.messageHandler) return
+    const event = payload.event
+
+    // DMs arrive as "message" events, channel messages only when the bot is mentioned
+    const isDirect = event.type === 'message' && event.channel_type === 'im'
+    if (!isDirect && event.type !== 'app_mention') return
+    // Skip bot messages and edits/deletions
+    if (event.bot_id || (event.subtype && event.subtype !== 'file_share')) return
+
+    // Deduplication
+    const messageKey = `${event.channel}:${event.ts}`
+    if (this.processedMessages.has(messageKey)) {
+      logger.debug(`Duplicate message detected: ${messageKey}, skipping.`)
+      return
+    }
+    this.processedMessages.add(messageKey)
+    if (this.processedMessages.size > 1000) {
+      const firstKey = this.processedMessages.values().next().value
+      if (firstKey) this.processedMessages.delete(firstKey)
+    }
+
+    const workspaceId = payload.team_id || event.team || 'unknown'
+    const userId = scopedUserId(workspaceId, event.user)
+    // Channel mentions are answered in a thread, DMs in place (or in their thread)
+    const conversation: SlackConversation = {
+      channel: event.channel,
+      threadTs: isDirect ? event.thread_ts : (event.thread_ts || event.ts)
+    }
+    this.conversations.set(userId, conversation)
+
+    const sendReply = (text: string) => this.sendLongMessage(conversation, text)
+
+    if (!isUserAllowed(userId, this.id)) {
+      await sendReply("Sorry, you don't have permission to use this Bot.")
+      logger.warn(`Unauthorized access attempt from ${userId}`)
+      return
+    }
+
+    const text = stripMentions(event.text || '')
+    const input = await this.buildInput(text, event.files || [])
+    if (!input) return
+
+    logger.info(`Received from ${userId}: ${text.slice(0, 50)}${text.length > 50 ? '...' : ''}`)
+
+    const createStream = () => this.createStreamingReply(conversation)
+    // Channels are named in requests sent to approvers
+    const origin = isDirect ? undefined : `<#${event.channel}>`
+    this.messageHandler(input, userId, this.id, sendReply, createStream, origin).catch((error) => {
+      logger.error('Error handling message:', error)
+      sendReply('An error occurred while processing your request. Please try again later.')
+        .catch(e => logger.error('Failed to send error reply', e))
+    })
+  }
+
+  /**
+   * Handle slash commands (`/cancel`, `/grants`, ...): Slack does not deliver
+   * messages starting with "/" as events, so commands registered for the app
+   * arrive here and are passed on as the command text
+   */
+  private async handleSlashCommand(payload: SlackSlashCommandPayload | undefined): Promise<void> {
+    if (!payload?.command || !this.messageHandler) return
+
+    const userId = scopedUserId(payload.team_id || 'unknown', payload.user_id)
+    // Slash commands carry no thread: keep replying in the user's thread of that channel
+    const known = this.conversations.get(userId)
+    const conversation: SlackConversation = known?.channel === payload.channel_id ? known : { channel: payload.channel_id }
+    const sendReply = (text: string) => this.sendLongMessage(conversation, text)
+
+    if (!isUserAllowed(userId, this.id)) {
+      await sendReply("Sorry, you don't have permission to use this Bot.")
+      logger.warn(`Unauthorized access attempt from ${userId}`)
+      return
+    }
+
+    const input = [payload.command, (payload.text || '').trim()].filter(Boolean).join(' ')
+    logger.info(`Received command from ${userId}: ${payload.command}`)
+
+    const createStream = () => this.createStreamingReply(conversation)
+    this.messageHandler(input, userId, this.id, sendReply, createStream).catch((error) => {
+      logger.error('Error handling command:', error)
+      sendReply('An error occurred while processing your request. Please try again later.')
+        .catch(e => logger.error('Failed to send error reply', e))
+    })
+  }
+
+  /**
+   * Build agent input from text and attached files (images are downloaded)
+   */
+  private async buildInput(text: string, files: SlackFile[]): Promise<string | ContentBlock[] | null> {
+    const blocks: ContentBlock[] = []
+    const notes: string[] = []
+
+    for (const file of files) {
+      const url = file.url_private_download || file.url_private
+      if (!String(file.mimetype || '').startsWith('image/') || !url) {
+        notes.push(`[File: ${file.name || file.id}]`)
+        continue
+      }
+      if ((file.size || 0) > MAX_IMAGE_BYTES) {
+        notes.push(`[Image too large: ${file.name || file.id}]`)
+        continue
+      }
+
+      try {
+        logger.info(`Downloading image ${file.id}`)
+        const response = await fetch(url, { headers: { Authorization: `Bearer ${this.botToken}` } })
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const buffer = Buffer.from(await response.arrayBuffer())
+        blocks.push({ type: 'image', data: buffer.toString('base64'), mimeType: file.mimetype! })
+      } catch (e) {
+        logger.error(`Failed to download image ${file.id}`, e)
+        notes.push(`[Image could not be downloaded: ${file.name || file.id}]`)
+      }
+    }
+
+    const fullText = [text, ...notes].filter(Boolean).join('\n')
+    if (blocks.length === 0) return fullText || null
+
+    return fullText ? [{ type: 'text', text: fullText }, ...blocks] : blocks
+  }
+
+  /**
+   * Handle Block Kit button clicks (permission decisions)
+   */
+  private async handleInteraction(payload: SlackInteractionPayload | undefined): Promise<void> {
+    if (payload?.type !== 'block_actions') return
+
+    for (const action of payload.actions || []) {
+      if (action.action_id !== ACTION_ALLOW && action.action_id !== ACTION_DENY) continue
+
+      const decision: PermissionDecision = action.action_id === ACTION_ALLOW ? 'allow' : 'deny'
+      logger.info(`[Slack] Processing permission: action=${decision}, id=${action.value}`)
+      const approver = payload.user?.id
+        ? scopedUserId(payload.team?.id || payload.user.team_id || 'unknown', payload.user.id)
+        : undefined
+      const request = PermissionBridge.getInstance().getRequest(action.value)
+      const result = approver
+        ? PermissionBridge.getInstance().resolveRequest(action.value, decision, approver)
+        : 'forbidden'
+      const channel = payload.channel?.id || payload.container?.channel_id
+      const ts = payload.message?.ts || payload.container?.message_ts
+
+      if (result === 'forbidden' || result === 'pending') {
+        const text = result === 'pending' && request
+          ? `Approval recorded (${describeApprovals(request)}).`
+          : request?.approvers
+            ? 'Only a designated approver can approve this request.'
+            : 'Only the requesting user or an approver can answer this request.'
+        if (channel && payload.user?.id) {
+          await this.callApi('chat.postEphemeral', { channel, user: payload.user.id, text })
+            .catch((e) => logger.warn('Failed to send ephemeral message', e))
+        }
+        continue
+      }
+      const note = result === 'not_found'
+        ? 'No longer pending'
+        : `${decision === 'allow' ? 'Allowed' : 'Denied'} by <@${payload.user?.id}>`
+
+      if (result === 'resolved' && request?.approvers) {
+        // Sent to each approver: update the other copies
+        const others = (this.permissionMessages.get(action.value) || []).filter(sent => sent.channel !== channel || sent.ts !== ts)
+        this.permissionMessages.set(action.value, others)
+        await this.updatePermissionMessages(request, note)
+      }
+      this.permissionMessages.delete(action.value)
+
+      // Replace the buttons with the decision (or a note on stale buttons)
+      if (!channel || !ts) continue
+
+      const blocks = (payload.message?.blocks || []).filter(block => block.type !== 'actions')
+      blocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `*${note}*` }]
+      })
+      try {
+        await this.callApi('chat.update', { channel, ts, text: payload.message?.text || 'Permission Request', blocks })
+      } catch (e) {
+        logger.warn('Failed to update permission message', e)
+      }
+    }
+  }
+
+  // ============================================================================
+  // Replies
+  // ============================================================================
+
+  /**
+   * Create a streaming reply: a placeholder message edited as text arrives
+   */
+  private async createStreamingReply(conversation: SlackConversation): Promise<ThrottledReplyStream<string>> {
+    const stream = new ThrottledReplyStream<string>({
+      send: (text) => this.postMessage(conversation, text),
+      edit: async (ts, text) => {
+        await this.callApi('chat.update', { channel: conversation.channel, ts, text: formatSlackMarkdown(text) })
+      },
+      fallback: (text) => this.sendLongMessage(conversation, text)
+    }, { maxLength: MAX_MESSAGE_LENGTH, intervalMs: STREAM_EDIT_INTERVAL })
+
+    await stream.start()
+    return stream
+  }
+
+  /**
+   * Post a message, returns its timestamp (message ID)
+   */
+  private async postMessage(conversation: SlackConversation, text: string): Promise<string> {
+    const response = await this.callApi<{ ts: string }>('chat.postMessage', {
+      channel: conversation.channel,
+      thread_ts: conversation.threadTs,
+      text: formatSlackMarkdown(text),
+      unfurl_links: false
+    })
+    return response.ts
+  }
+
+  private async sendLongMessage(conversation: SlackConversation, text: string): Promise<void> {
+    logger.info(`Sending reply to ${conversation.channel}: ${text.slice(0, 50)}...${text.length > 50 ? ` (total: ${text.length})` : ''}`)
+
+    for (const chunk of splitMessage(text, MAX_MESSAGE_LENGTH)) {
+      try {
+        await this.postMessage(conversation, chunk)
+      } catch (e) {
+        logger.error('Failed to send message chunk', e)
+      }
+    }
+  }
+
+  /**
+   * Call a Slack Web API method
+   */
+  private async callApi<T = Record<string, unknown>>(
+    method: string,
+    body: Record<string, unknown>,
+    token = this.botToken
+  ): Promise<T> {
+    const response = await fetch(`${this.apiUrl}/${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        Authorization: `Bearer ${token}`
+      },
+      body: JSON.stringify(body)
+    })
+
+    const data = await response.json().catch(() => null) as ({ ok?: boolean; error?: string } & T) | null
+    if (!response.ok || !data?.ok) {
+      throw new Error(`Slack API ${method} failed: ${data?.error || `HTTP ${response.status}`}`)
+    }
+    return data
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Streaming Replies
+ *
+ * Shows partial agent replies while the model is still typing:
+ * a placeholder message is sent first, then edited (throttled) with the text so far.
+ * Text longer than the channel's message limit continues in follow-up messages.
+ */
+
+import { Logger } from '../utils/logger'
+import { splitMessage } from './text'
+import type { StreamingReply } from './types'
+
+const logger = new Logger('StreamingReply')
+
+/** Channel operations used by a streaming reply */
+export interface EditableMessageOps<THandle> {
+  /** Send a new message, returns a handle used for later edits */
+  send(text: string, final: boolean): Promise<THandle>
+  /** Replace the content of a sent message */
+  edit(handle: THandle, text: string, final: boolean): Promise<void>
+  /** Send a plain reply (used when editing fails) */
+  fallback(text: string): Promise<void>
+}
+
+/** Streaming options */
+export interface StreamingReplyOptions {
+  /** Max characters per message */
+  maxLength: number
+  /** Minimum interval between edits (ms) */
+  intervalMs?: number
+  /** Placeholder text shown before the first delta */
+  placeholder?: string
+}
+
+/** Sent message segment */
+interface Segment<THandle> {
+  handle: THandle
+  text: string
+  final: boolean
+}
+
+/**
+ * Streaming reply that throttles edits of one or more channel messages
+ */
+export class ThrottledReplyStream<THandle> implements StreamingReply {
+  private ops: EditableMessageOps<THandle>
+  private maxLength: number
+  private intervalMs: number
+  private placeholder: string
+
+  private segments: Segment<THandle>[] = []
+  private latestText = ''
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private flushing: Promise<void> = Promise.resolve()
+  private lastFlush = 0
+  private broken = false
+  private finished = false
+
+  constructor(ops: EditableMessageOps<THandle>, options: StreamingReplyOptions) {
+    this.ops = ops
+    this.maxLength = options.maxLength
+    this.intervalMs = options.intervalMs ?? 1000
+    this.placeholder = options.placeholder ?? '...'
+  }
+
+  /**
+   * Send the placeholder message
+   */
+  async start(): Promise<void> {
+    const handle = await this.ops.send(this.placeholder, false)
+    this.segments.push({ handle, text: this.placeholder, final: false })
+    this.lastFlush = Date.now()
+  }
+
+  update(text: string): void {
+    if (this.finished || this.broken) return
+    this.latestText = text
+    if (this.timer) return
+
+    const wait = Math.max(0, this.lastFlush + this.intervalMs - Date.now())
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.flushing = this.flushing.then(() => this.flush(this.latestText, false))
+    }, wait)
+  }
+
+  async finish(text: string): Promise<void> {
+    this.finished = true
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    await this.flushing
+
+    if (!this.broken) {
+      await this.flush(text, true)
+      if (!this.broken) return
+    }
+
+    // Editing failed: send the complete text as a normal reply
+    await this.ops.fallback(text)
+  }
+
+  /**
+   * Bring the sent messages in line with `text`
+   */
+  private async flush(text: string, final: boolean): Promise<void> {
+    if (this.broken || !text) return
+    this.lastFlush = Date.now()
+
+    const chunks = splitMessage(text, this.maxLength)
+    try {
+      for (let i = 0; i < chunks.length; i++) {
+        const segment = this.segments[i]
+        if (!segment) {
+          const handle = await this.ops.send(chunks[i], final)
+          this.segments.push({ handle, text: chunks[i], final })
+          continue
+        }
+        if (segment.text === chunks[i] && (segment.final || !final)) continue
+
+        await this.ops.edit(segment.handle, chunks[i], final)
+        segment.text = chunks[i]
+        segment.final = final
+      }
+    } catch (error) {
+      logger.warn('Failed to update streaming reply, falling back to a normal reply:', error instanceof Error ? error.message : String(error))
+      this.broken = true
+    }
+  }
+}
@@ -2,15 +2,30 @@
  * Telegram Bot Communication Layer
  */
 import { Bot, Context, GrammyError, HttpError } from 'grammy'
-import { isUserAllowed, logAudit } from '../orchestrator/policy'
+import { isUserAllowed } from '../orchestrator/policy'
 import { Logger } from '../utils/logger'
-import { Channel } from './types'
-import { PermissionBridge, PendingRequest } from '../utils/permission-bridge'
+import { Channel, MessageHandler } from './types'
+import {
+  PermissionBridge,
+  PendingRequest,
+  PermissionCloseReason,
+  describeApprovalRequest,
+  describeApprovals,
+  describeClosedRequest,
+  describeDecision
+} from '../utils/permission-bridge'
+import type { GrantScope } from '../core/grants'
 import { InlineKeyboard } from 'grammy'
 import type { ContentBlock } from '../types/protocol'
+import { ThrottledReplyStream } from './streaming'
+import { splitMessage } from './text'
 
 const logger = new Logger('TelegramChannel')
 const MAX_MESSAGE_LENGTH = 4000
+/** Hard limit of the Telegram API (after entity parsing) */
+const TELEGRAM_MESSAGE_LIMIT = 4096
+/** Minimum interval between edits of a streaming reply (ms) */
+const STREAM_EDIT_INTERVAL = 1000
 
 /**
  * Escape HTML special characters
@@ -94,14 +109,15 @@ export class TelegramChannel implements Channel {
   public id = 'telegram'
   private bot: Bot | null = null
   private token: string
+  private error: string | null = null
+  /** Sent permission prompts by request ID (several when sent to each approver), edited when answered or closed */
+  private permissionMessages = new Map<string, Array<{ chatId: string; messageId: number; text: string }>>()
 
   constructor(token: string) {
     this.token = token
   }
 
-  async start(
-    messageHandler: (input: string | ContentBlock[], userId: string, channelId: string, sendReply: (text: string) => Promise<void>) => Promise<void>
-  ): Promise<void> {
+  async start(messageHandler: MessageHandler): Promise<void> {
     if (!this.token) {
       throw new Error('Telegram bot token not provided')
     }
@@ -124,30 +140,52 @@ export class TelegramChannel implements Channel {
       
       logger.info(`[Telegram] Processing permission: action=${action}, id=${id}`)
       const bridge = PermissionBridge.getInstance()
-      
-      if (action === 'allow') {
-          bridge.resolveRequest(id, 'allow')
-          await ctx.answerCallbackQuery({ text: 'Allowed' })
-          
-          const originalText = ctx.callbackQuery.message?.text || ''
-          const htmlText = formatMarkdownToHtml(originalText)
-          try {
-              await ctx.editMessageText(`${htmlText}\n\n<b>(Allowed by ${escapeHtml(ctx.from.first_name)})</b>`, { parse_mode: 'HTML' })
-          } catch (e) {
-               // Fallback if edit fails
-               await ctx.editMessageText(`${originalText}\n\n(Allowed by ${ctx.from.first_name})`)
-          }
-      } else {
-          bridge.resolveRequest(id, 'deny')
-          await ctx.answerCallbackQuery({ text: 'Denied' })
-          
-          const originalText = ctx.callbackQuery.message?.text || ''
-          const htmlText = formatMarkdownToHtml(originalText)
+      const request = bridge.getRequest(id)
+      const decision = action === 'deny' ? 'deny' : 'allow'
+      const scope: GrantScope = action === 'session' || action === 'always' ? action : 'once'
+      const result = bridge.resolveRequest(id, decision, String(ctx.from.id), scope)
+
+      if (result === 'forbidden') {
+          const text = request?.approvers
+              ? 'Only a designated approver can approve this request'
+              : 'Only the requesting user or an approver can answer this request'
+          await ctx.answerCallbackQuery({ text, show_alert: true })
+          return
+      }
+      if (result === 'pending' && request) {
+          // More approvers needed: show the progress and keep the buttons
+          await ctx.answerCallbackQuery({ text: 'Approval recorded' })
+          await this.editPermissionMessages(id, describeApprovals(request), this.buildPermissionKeyboard(request))
+          return
+      }
+
+      const originalText = ctx.callbackQuery.message?.text || ''
+      const htmlText = formatMarkdownToHtml(originalText)
+      if (result === 'not_found') {
+          // Stale buttons (expired, cancelled or from before a restart)
+          await ctx.answerCallbackQuery({ text: 'This request is no longer pending' })
           try {
-             await ctx.editMessageText(`${htmlText}\n\n<b>(Denied by ${escapeHtml(ctx.from.first_name)})</b>`, { parse_mode: 'HTML' })
+              await ctx.editMessageText(`${htmlText}\n\n<b>(No longer pending)</b>`, { parse_mode: 'HTML' })
           } catch (e) {
-             await ctx.editMessageText(`${originalText}\n\n(Denied by ${ctx.from.first_name})`)
+              await ctx.editMessageText(`${originalText}\n\n(No longer pending)`).catch(() => {})
           }
+          return
+      }
+
+      const label = describeDecision(decision, scope, request?.grant)
+      await ctx.answerCallbackQuery({ text: label.slice(0, 200) })
+      if (request?.approvers) {
+          // Sent to each approver: update all copies
+          await this.editPermissionMessages(id, `${label} by ${ctx.from.first_name}`)
+          this.permissionMessages.delete(id)
+          return
+      }
+      this.permissionMessages.delete(id)
+      try {
+          await ctx.editMessageText(`${htmlText}\n\n<b>(${formatMarkdownToHtml(label)} by ${escapeHtml(ctx.from.first_name)})</b>`, { parse_mode: 'HTML' })
+      } catch (e) {
+          // Fallback if edit fails
+          await ctx.editMessageText(`${originalText}\n\n(${label} by ${ctx.from.first_name})`)
       }
     })
 
@@ -185,6 +223,11 @@ export class TelegramChannel implements Channel {
   
   Commands:
   /clear - Clear conversation history
+  /cancel - Deny your pending permission requests
+  /grants - List or revoke remembered approvals
+  /usage - Show your token usage and limits
+  /model - List or switch model profiles
+  /workspace - Show, list, create or switch workspaces
   `,
         { parse_mode: 'Markdown' }
       )
@@ -192,11 +235,10 @@ export class TelegramChannel implements Channel {
 
     this.bot.command('clear', async (ctx) => {
       // Dynamic import to avoid circular dependency
-      const { getSession } = await import('../orchestrator/session')
+      const { clearSession } = await import('../orchestrator/session')
       const userId = String(ctx.from?.id || '')
-      const chatId = String(ctx.chat?.id || userId)
-      const session = getSession(userId, chatId)
-      session.history = []
+      // Sessions are keyed by channel id (see router.handleMessage)
+      await clearSession(userId, this.id)
       
       await ctx.reply('Conversation history cleared')
     })
@@ -252,32 +294,49 @@ export class TelegramChannel implements Channel {
         return
       }
 
-      // Audit log
-      logAudit({ userId, action: 'message', result: 'allowed' })
-
       // Show typing status
       await ctx.replyWithChatAction('typing')
 
       // Handle message asynchronously
       // Pass this.id ('telegram') as channelId
+      // Group chats are named in requests sent to approvers
+      const origin = ctx.chat.type === 'private' ? undefined : `${ctx.chat.title || 'group'} (${ctx.chat.id})`
       const input = contentBlocks ? contentBlocks : text
       messageHandler(input, userId, this.id, async (replyText) => {
         await this.sendLongMessage(ctx, replyText)
-      }).catch((error) => {
+      }, () => this.createStreamingReply(ctx), origin).catch((error) => {
         logger.error('Error handling message:', error)
         ctx.reply('An error occurred while processing your request. Please try again later.').catch(e => logger.error('Failed to send error reply', e))
       })
     })
 
-    // Start
-    await this.bot.start({
-        allowed_updates: ['message', 'callback_query'],
-        onStart: (botInfo) => {
-            logger.info(`Bot started: @${botInfo.username}`)
-        },
+    // Start polling (resolves once connected, polling continues in the background)
+    const bot = this.bot
+    await new Promise<void>((resolve, reject) => {
+      let started = false
+      bot.start({
+          allowed_updates: ['message', 'callback_query'],
+          onStart: (botInfo) => {
+              started = true
+              this.error = null
+              logger.info(`Bot started: @${botInfo.username}`)
+              resolve()
+          },
+      }).catch((error) => {
+          if (!started) {
+              reject(error)
+              return
+          }
+          this.error = error instanceof Error ? error.message : String(error)
+          logger.error('Polling stopped unexpectedly:', error)
+      })
     })
   }
 
+  getError(): string | null {
+    return this.error
+  }
+
   async stop(): Promise<void> {
     logger.info('Stopping bot...')
     if (this.bot) {
@@ -295,90 +354,183 @@ export class TelegramChannel implements Channel {
           return
       }
 
+      const keyboard = this.buildPermissionKeyboard(req)
+
+      if (req.approvers) {
+          // Needs approvers: post to the approval chat, or to each approver
+          const bridge = PermissionBridge.getInstance()
+          const approvalChat = bridge.getApprovalChat(this.id)
+          const targets = approvalChat ? [approvalChat] : bridge.getApprovers(this.id)
+          const message = describeApprovalRequest(req)
+          for (const chatId of targets) {
+              await this.sendPermissionMessage(req.id, chatId, message, keyboard)
+          }
+          await req.context.sendReply(
+              `Waiting for approval from ${req.approvers} approver${req.approvers > 1 ? 's' : ''}. Send /cancel to withdraw the request.`
+          )
+          return
+      }
+
       // ONLY send to the user who initiated the request
-      const userId = req.context.userId
-      
+      const message = req.grant ? `${req.message}\n\nPattern: \`${req.grant.pattern}\`` : req.message
+      await this.sendPermissionMessage(req.id, req.context.userId, message, keyboard)
+  }
+
+  /**
+   * Buttons of a permission prompt
+   *
+   * Grants: "Allow for this session" and "Always allow this pattern"
+   */
+  private buildPermissionKeyboard(req: PendingRequest): InlineKeyboard {
       const keyboard = new InlineKeyboard()
-          .text('Allow', `perm:allow:${req.id}`)
+          .text(req.approvers ? 'Approve' : req.grant ? 'Allow once' : 'Allow', `perm:allow:${req.id}`)
           .text('Deny', `perm:deny:${req.id}`)
+      if (req.grant) {
+          keyboard.row()
+              .text('Allow for this session', `perm:session:${req.id}`)
+              .row()
+              .text('Always allow this pattern', `perm:always:${req.id}`)
+      }
+      return keyboard
+  }
+
+  /**
+   * Send a permission prompt to a chat and remember it for later edits
+   */
+  private async sendPermissionMessage(id: string, chatId: string, message: string, keyboard: InlineKeyboard): Promise<void> {
+      const remember = (messageId: number) => {
+          this.permissionMessages.set(id, [...(this.permissionMessages.get(id) || []), { chatId, messageId, text: message }])
+      }
 
       try {
-          const htmlMessage = formatMarkdownToHtml(req.message)
-          await this.bot.api.sendMessage(userId, htmlMessage, {
+          const htmlMessage = formatMarkdownToHtml(message)
+          const sent = await this.bot!.api.sendMessage(chatId, htmlMessage, {
               parse_mode: 'HTML',
               reply_markup: keyboard
           })
-          logger.info(`Sent permission request ${req.id} to user ${userId}`)
+          remember(sent.message_id)
+          logger.info(`Sent permission request ${id} to chat ${chatId}`)
       } catch (e) {
-          logger.error(`Failed to send permission request to ${userId}`, e)
+          logger.error(`Failed to send permission request to ${chatId}`, e)
           // Fallback to plain text if HTML fails
           try {
-             await this.bot.api.sendMessage(userId, `Permission Request:\n${req.message}`, {
+             const sent = await this.bot!.api.sendMessage(chatId, `Permission Request:\n${message}`, {
                  reply_markup: keyboard
              })
+             remember(sent.message_id)
           } catch (e2) {
-             logger.error(`Failed to send fallback permission request to ${userId}`, e2)
+             logger.error(`Failed to send fallback permission request to ${chatId}`, e2)
           }
       }
   }
 
-  private async sendLongMessage(ctx: Context, text: string): Promise<void> {
-    logger.info(`Sending reply to ${ctx.chat?.id}: ${text.slice(0, 50)}...${text.length > 50 ? ` (total: ${text.length})` : ''}`)
-    
-    // We try to send with HTML parsing enabled
-    const sendOptions = { parse_mode: 'HTML' } as const
+  /**
+   * Add a note to every sent copy of a permission prompt (without `keyboard`, the buttons are removed)
+   */
+  private async editPermissionMessages(id: string, note: string, keyboard?: InlineKeyboard): Promise<void> {
+      if (!this.bot) return
+      for (const sent of this.permissionMessages.get(id) || []) {
+          try {
+              await this.bot.api.editMessageText(sent.chatId, sent.messageId, `${formatMarkdownToHtml(sent.text)}\n\n<b>(${escapeHtml(note)})</b>`, {
+                  parse_mode: 'HTML',
+                  reply_markup: keyboard
+              })
+          } catch (e) {
+              await this.bot.api.editMessageText(sent.chatId, sent.messageId, `${sent.text}\n\n(${note})`, { reply_markup: keyboard }).catch(() => {})
+          }
+      }
+  }
 
-    const sendMessageSafely = async (content: string) => {
+  /**
+   * Replace the buttons of an expired or cancelled request (Called by BotManager)
+   */
+  async closePermissionRequest(req: PendingRequest, reason: PermissionCloseReason): Promise<void> {
+      await this.editPermissionMessages(req.id, describeClosedRequest(reason))
+      this.permissionMessages.delete(req.id)
+  }
+
+  /**
+   * Create a streaming reply: a placeholder message edited as text arrives
+   */
+  private async createStreamingReply(ctx: Context): Promise<ThrottledReplyStream<number>> {
+    const chatId = ctx.chat!.id
+    const stream = new ThrottledReplyStream<number>({
+      send: (text, final) => this.sendChunk(ctx, text, final),
+      edit: (messageId, text, final) => this.editChunk(ctx, messageId, text, final),
+      fallback: (text) => this.sendLongMessage(ctx, text)
+    }, { maxLength: MAX_MESSAGE_LENGTH, intervalMs: STREAM_EDIT_INTERVAL })
+
+    await stream.start()
+    logger.debug(`Started streaming reply in chat ${chatId}`)
+    return stream
+  }
+
+  /**
+   * Send one message chunk (HTML when formatted, plain text while streaming).
+   * Returns the message id.
+   */
+  private async sendChunk(ctx: Context, text: string, formatted: boolean): Promise<number> {
+    if (formatted) {
+      const html = formatMarkdownToHtml(text)
+      if (html.length <= TELEGRAM_MESSAGE_LIMIT) {
         try {
-            const html = formatMarkdownToHtml(content)
-            
-            if (html.length <= MAX_MESSAGE_LENGTH) {
-                await ctx.reply(html, sendOptions)
-            } else {
-                 // Split splitting is complex with HTML tags. 
-                 // Simple approach: Split raw text and format each part.
-                 // This might break code blocks across messages, but it's safer than splitting HTML.
-                 // Actually, splitting formatted HTML is hard.
-                 // Let's split the RAW markdown validation.
-                 
-                const lines = content.split('\n')
-                let current = ''
-                
-                for (const line of lines) {
-                    if (current.length + line.length + 1 > MAX_MESSAGE_LENGTH) {
-                        await ctx.reply(formatMarkdownToHtml(current), sendOptions)
-                        current = line
-                    } else {
-                        current = current ? current + '\n' + line : line
-                    }
-                }
-                if (current) await ctx.reply(formatMarkdownToHtml(current), sendOptions)
-            }
+          const message = await ctx.api.sendMessage(ctx.chat!.id, html, { parse_mode: 'HTML' })
+          return message.message_id
         } catch (e) {
-            logger.warn('Failed to send HTML message, falling back to plain text:', e)
-            try {
-                // FALLBACK: Send raw text
-                if (content.length <= MAX_MESSAGE_LENGTH) {
-                    await ctx.reply(content)
-                } else {
-                    const lines = content.split('\n')
-                    let current = ''
-                    for (const line of lines) {
-                        if (current.length + line.length + 1 > MAX_MESSAGE_LENGTH) {
-                            await ctx.reply(current)
-                            current = line
-                        } else {
-                            current = current ? current + '\n' + line : line
-                        }
-                    }
-                    if (current) await ctx.reply(current)
-                }
-            } catch (e2) {
-                 logger.error('Failed to send fallback message', e2)
-            }
+          logger.warn('Failed to send HTML message, falling back to plain text:', e)
+        }
+      }
+    }
+
+    const message = await ctx.api.sendMessage(ctx.chat!.id, text)
+    return message.message_id
+  }
+
+  /**
+   * Replace the text of a sent message (HTML when formatted, plain text while streaming)
+   */
+  private async editChunk(ctx: Context, messageId: number, text: string, formatted: boolean): Promise<void> {
+    const chatId = ctx.chat!.id
+    try {
+      if (formatted) {
+        const html = formatMarkdownToHtml(text)
+        if (html.length <= TELEGRAM_MESSAGE_LIMIT) {
+          try {
+            await ctx.api.editMessageText(chatId, messageId, html, { parse_mode: 'HTML' })
+            return
+          } catch (e) {
+            if (isNotModifiedError(e)) return
+            logger.warn('Failed to edit HTML message, falling back to plain text:', e)
+          }
         }
+      }
+      await ctx.api.editMessageText(chatId, messageId, text)
+    } catch (e) {
+      // Telegram rejects edits that do not change the message
+      if (!isNotModifiedError(e)) throw e
     }
+  }
 
-    await sendMessageSafely(text)
+  /**
+   * Send a reply, split into messages within Telegram's length limit.
+   * Code blocks cut by a split are closed and reopened, so each part renders on its own.
+   */
+  private async sendLongMessage(ctx: Context, text: string): Promise<void> {
+    logger.info(`Sending reply to ${ctx.chat?.id}: ${text.slice(0, 50)}...${text.length > 50 ? ` (total: ${text.length})` : ''}`)
+
+    for (const chunk of splitMessage(text, MAX_MESSAGE_LENGTH)) {
+      try {
+        await this.sendChunk(ctx, chunk, true)
+      } catch (e) {
+        logger.error('Failed to send message chunk', e)
+      }
+    }
   }
 }
+
+/**
+ * Check for Telegram's "message is not modified" error
+ */
+function isNotModifiedError(error: unknown): boolean {
+  return error instanceof GrammyError && error.description.includes('message is not modified')
+}
@@ -0,0 +1,526 @@
+/**
+ * Terminal Communication Layer (Interactive REPL)
+ *
+ * Talk to the agent locally without a bot token: streaming output rendered
+ * from Markdown to ANSI, y/n permission prompts, slash commands and local
+ * image attachments.
+ */
+import { createInterface, Interface } from 'node:readline'
+import { readFile, stat } from 'node:fs/promises'
+import { basename, extname, resolve } from 'node:path'
+import { userInfo } from 'node:os'
+import { Logger } from '../utils/logger'
+import { Channel, MessageHandler, StreamingReply } from './types'
+import { PermissionBridge, PendingRequest, PermissionCloseReason, describeCancelled, describeClosedRequest } from '../utils/permission-bridge'
+import type { ContentBlock, Message } from '../types/protocol'
+import type { AgentEvent } from '../core/gateway'
+
+const logger = new Logger('TerminalChannel')
+
+/** Image types that can be attached */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+}
+
+/** Max size of an attached image */
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024
+
+const HELP_TEXT = `Commands:
+  /image <path>   Attach a local image to the next message
+  /clear          Clear conversation history
+  /history        Show conversation history
+  /model [name]   List or switch model profiles
+  /workspace      Show, list, create or switch workspaces
+  /grants         List or revoke remembered approvals
+  /usage [days]   Show token usage and limits
+  /help           Show this help
+  /exit           Quit (or Ctrl+D)`
+
+// ============================================================================
+// ANSI Rendering
+// ============================================================================
+
+/** ANSI styles (empty when colors are disabled) */
+interface AnsiStyles {
+  bold: (text: string) => string
+  dim: (text: string) => string
+  italic: (text: string) => string
+  underline: (text: string) => string
+  cyan: (text: string) => string
+  yellow: (text: string) => string
+  red: (text: string) => string
+  green: (text: string) => string
+}
+
+function createStyles(enabled: boolean): AnsiStyles {
+  const style = (open: number, close: number) => (text: string) =>
+    enabled ? `\x1b[${open}m${text}\x1b[${close}m` : text
+  return {
+    bold: style(1, 22),
+    dim: style(2, 22),
+    italic: style(3, 23),
+    underline: style(4, 24),
+    cyan: style(36, 39),
+    yellow: style(33, 39),
+    red: style(31, 39),
+    green: style(32, 39),
+  }
+}
+
+/**
+ * Line-based Markdown to ANSI renderer
+ * Supports: code blocks, inline code, bold, italic, links, headers, lists, quotes
+ *
+ * Lines are rendered one at a time so streamed text can be printed as it arrives.
+ */
+class MarkdownRenderer {
+  private inCode = false
+
+  constructor(private styles: AnsiStyles) {}
+
+  renderLine(line: string): string {
+    const s = this.styles
+
+    // Code blocks
+    if (/^\s*```/.test(line)) {
+      this.inCode = !this.inCode
+      return s.dim(line)
+    }
+    if (this.inCode) return s.cyan(line)
+
+    // Headers
+    const header = line.match(/^#{1,6}\s+(.*)$/)
+    if (header) return s.bold(s.underline(this.renderInline(header[1])))
+
+    // Quotes
+    const quote = line.match(/^>\s?(.*)$/)
+    if (quote) return s.dim('│ ') + s.italic(this.renderInline(quote[1]))
+
+    // Lists: - item -> • item
+    return this.renderInline(line.replace(/^(\s*)[-*]\s+/, '$1• '))
+  }
+
+  private renderInline(text: string): string {
+    const s = this.styles
+    const placeholders: string[] = []
+    const protect = (value: string) => {
+      placeholders.push(value)
+      return `\u0000${placeholders.length - 1}\u0000`
+    }
+
+    let result = text.replace(/`([^`]+)`/g, (_, code) => protect(s.cyan(code)))
+    result = result.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label, url) => protect(`${s.underline(label)} ${s.dim(`(${url})`)}`))
+    result = result.replace(/(\*\*|__)(.+?)\1/g, (_, __, bold) => s.bold(bold))
+    result = result.replace(/(^|[^\w*])([*_])([^*_\s][^*_]*?)\2(?![\w*])/g, (_, before, __, italic) => before + s.italic(italic))
+
+    return result.replace(/\u0000(\d+)\u0000/g, (_, i) => placeholders[Number(i)])
+  }
+}
+
+/**
+ * Streaming reply printed to the terminal, one rendered line at a time
+ */
+class TerminalReplyStream implements StreamingReply {
+  private printed = ''
+  private pendingLine = ''
+  private renderer: MarkdownRenderer
+
+  constructor(private write: (text: string) => void, private styles: AnsiStyles) {
+    this.renderer = new MarkdownRenderer(styles)
+  }
+
+  update(text: string): void {
+    if (!text.startsWith(this.printed)) return
+    this.pendingLine += text.slice(this.printed.length)
+    this.printed = text
+
+    // Print complete lines, keep the partial line until its newline arrives
+    const lines = this.pendingLine.split('\n')
+    this.pendingLine = lines.pop() || ''
+    for (const line of lines) {
+      this.write(this.renderer.renderLine(line) + '\n')
+    }
+  }
+
+  async finish(text: string): Promise<void> {
+    if (text.startsWith(this.printed)) {
+      this.update(text + '\n')
+      return
+    }
+
+    // Final text differs from what was streamed (e.g. an error): print it in full
+    this.flushLine()
+    this.renderer = new MarkdownRenderer(this.styles)
+    for (const line of text.split('\n')) {
+      this.write(this.renderer.renderLine(line) + '\n')
+    }
+  }
+
+  onEvent(event: AgentEvent): void {
+    const s = this.styles
+    if (event.type === 'tool_start') {
+      this.flushLine()
+      this.write(s.dim(`⚙ ${event.name} ${truncate(JSON.stringify(event.args ?? {}), 120)}`) + '\n')
+    } else if (event.type === 'tool_result') {
+      this.flushLine()
+      this.write(event.result.success
+        ? s.dim(s.green(`✓ ${event.name}`)) + '\n'
+        : s.dim(s.red(`✗ ${event.name}: ${truncate(event.result.error || 'failed', 200)}`)) + '\n')
+    }
+  }
+
+  /** Print the partial line (before interleaved output such as tool activity) */
+  private flushLine(): void {
+    if (!this.pendingLine) return
+    this.write(this.renderer.renderLine(this.pendingLine) + '\n')
+    this.pendingLine = ''
+  }
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text
+}
+
+// ============================================================================
+// Terminal Channel
+// ============================================================================
+
+/** Terminal channel options */
+export interface TerminalChannelOptions {
+  input?: NodeJS.ReadableStream
+  output?: NodeJS.WritableStream & { isTTY?: boolean }
+  /** Called when the user quits (/exit, Ctrl+D, Ctrl+C) */
+  onExit?: () => void | Promise<void>
+}
+
+export class TerminalChannel implements Channel {
+  public id = 'terminal'
+  private input: NodeJS.ReadableStream
+  private output: NodeJS.WritableStream & { isTTY?: boolean }
+  private onExit?: () => void | Promise<void>
+  private styles: AnsiStyles
+  private userId: string
+
+  private rl: Interface | null = null
+  private messageHandler: MessageHandler | null = null
+  private busy = false
+  private attachments: ContentBlock[] = []
+  /** Permission requests waiting for y/n (answered in order) */
+  private permissionQueue: PendingRequest[] = []
+
+  constructor(options: TerminalChannelOptions = {}) {
+    this.input = options.input || process.stdin
+    this.output = options.output || process.stdout
+    this.onExit = options.onExit
+    this.styles = createStyles(Boolean(this.output.isTTY) && !process.env.NO_COLOR)
+    this.userId = safeUsername()
+  }
+
+  async start(messageHandler: MessageHandler): Promise<void> {
+    this.messageHandler = messageHandler
+    this.rl = createInterface({ input: this.input, output: this.output, terminal: Boolean(this.output.isTTY) })
+
+    this.rl.on('line', (line) => {
+      this.handleLine(line).catch((error) => {
+        this.print(this.styles.red(`Error: ${error instanceof Error ? error.message : String(error)}`))
+        this.prompt()
+      })
+    })
+    this.rl.on('SIGINT', () => {
+      // Ctrl+C answers a pending permission request with "deny", otherwise quits
+      if (this.permissionQueue.length > 0) {
+        this.answerPermission(false)
+        return
+      }
+      this.rl?.close()
+    })
+    this.rl.on('close', () => {
+      this.rl = null
+      this.denyPendingPermissions()
+      void this.onExit?.()
+    })
+
+    const { getLLMInfo } = await import('../ai')
+    const llm = getLLMInfo()
+    this.print(this.styles.bold('OpenVia interactive chat') + (llm ? this.styles.dim(` (${llm.name}: ${llm.model})`) : ''))
+    this.print(this.styles.dim('Type a message, /help for commands, /exit to quit.\n'))
+    this.prompt()
+  }
+
+  async stop(): Promise<void> {
+    logger.info('Stopping terminal...')
+    if (this.rl) {
+      const rl = this.rl
+      this.rl = null
+      rl.removeAllListeners('close')
+      rl.close()
+    }
+    this.denyPendingPermissions()
+  }
+
+  /**
+   * Handle Permission Request: ask y/n on the terminal
+   */
+  async handlePermissionRequest(req: PendingRequest): Promise<void> {
+    this.permissionQueue.push(req)
+    if (this.permissionQueue.length === 1) {
+      this.askPermission()
+    }
+  }
+
+  /**
+   * Drop an expired or cancelled request from the queue (Called by BotManager)
+   */
+  async closePermissionRequest(req: PendingRequest, reason: PermissionCloseReason): Promise<void> {
+    const index = this.permissionQueue.findIndex(r => r.id === req.id)
+    if (index < 0) return
+
+    this.permissionQueue.splice(index, 1)
+    if (index === 0) {
+      this.print(this.styles.dim(`\n(${describeClosedRequest(reason)})`))
+      this.askPermission()
+    }
+  }
+
+  // ============================================================================
+  // Input
+  // ============================================================================
+
+  private async handleLine(line: string): Promise<void> {
+    const text = line.trim()
+
+    if (this.permissionQueue.length > 0) {
+      if (/^(y|yes)$/i.test(text)) return this.answerPermission(true)
+      if (/^(n|no|)$/i.test(text)) return this.answerPermission(false)
+      if (/^\/cancel$/i.test(text)) {
+        this.permissionQueue = []
+        this.print(this.styles.dim(describeCancelled(PermissionBridge.getInstance().cancelRequests(this.userId, this.id))))
+        return
+      }
+      this.print(this.styles.yellow('Please answer y or n (/cancel denies all).'))
+      this.askPermission()
+      return
+    }
+
+    if (this.busy) {
+      this.print(this.styles.dim('(Still working, please wait...)'))
+      return
+    }
+
+    if (!text) {
+      this.prompt()
+      return
+    }
+
+    if (text.startsWith('/')) {
+      await this.handleCommand(text)
+      this.prompt()
+      return
+    }
+
+    await this.sendMessage(text)
+    this.prompt()
+  }
+
+  private async handleCommand(text: string): Promise<void> {
+    const [command, ...rest] = text.split(/\s+/)
+    const arg = text.slice(command.length).trim()
+    const s = this.styles
+
+    switch (command) {
+      case '/help':
+        this.print(HELP_TEXT)
+        break
+
+      case '/exit':
+      case '/quit':
+        this.rl?.close()
+        break
+
+      case '/clear': {
+        // Dynamic import to avoid circular dependency
+        const { clearSession } = await import('../orchestrator/session')
+        await clearSession(this.userId, this.id)
+        this.attachments = []
+        this.print('Conversation history cleared')
+        break
+      }
+
+      case '/history': {
+        const { getHistory } = await import('../orchestrator/session')
+        const history = await getHistory(this.userId, this.id)
+        if (history.length === 0) {
+          this.print(s.dim('(No history)'))
+          break
+        }
+        for (const message of history) {
+          this.print(this.formatHistoryMessage(message))
+        }
+        break
+      }
+
+      case '/model': {
+        const { handleModelCommand } = await import('../orchestrator/models')
+        this.print(await handleModelCommand(this.userId, this.id, arg))
+        break
+      }
+
+      case '/workspace': {
+        const { handleWorkspaceCommand } = await import('../orchestrator/workspace')
+        this.print(await handleWorkspaceCommand(this.userId, this.id, arg))
+        break
+      }
+
+      case '/grants': {
+        const { handleGrantsCommand } = await import('../orchestrator/grants')
+        this.print(await handleGrantsCommand(this.userId, this.id, arg))
+        break
+      }
+
+      case '/usage': {
+        const { handleUsageCommand } = await import('../orchestrator/usage')
+        this.print(await handleUsageCommand(this.userId, this.id, arg))
+        break
+      }
+
+      case '/image': {
+        if (rest.length === 0) {
+          this.print('Usage: /image <path>')
+          break
+        }
+        const image = await loadImage(arg)
+        this.attachments.push(image)
+        this.print(s.dim(`Attached ${basename(arg)} (${this.attachments.length} image${this.attachments.length > 1 ? 's' : ''} for the next message)`))
+        break
+      }
+
+      default:
+        this.print(`Unknown command: ${command}. Type /help for commands.`)
+    }
+  }
+
+  private async sendMessage(text: string): Promise<void> {
+    if (!this.messageHandler) return
+
+    const input: string | ContentBlock[] = this.attachments.length > 0
+      ? [{ type: 'text', text }, ...this.attachments]
+      : text
+    this.attachments = []
+
+    const write = (chunk: string) => this.output.write(chunk)
+    const sendReply = async (reply: string) => {
+      const once = new TerminalReplyStream(write, this.styles)
+      await once.finish(reply)
+    }
+    const createStream = async () => new TerminalReplyStream(write, this.styles)
+
+    this.busy = true
+    try {
+      this.print('')
+      await this.messageHandler(input, this.userId, this.id, sendReply, createStream)
+    } finally {
+      this.busy = false
+    }
+  }
+
+  // ============================================================================
+  // Permissions
+  // ============================================================================
+
+  private askPermission(): void {
+    const req = this.permissionQueue[0]
+    if (!req) return
+
+    const renderer = new MarkdownRenderer(this.styles)
+    this.print('')
+    this.print(this.styles.yellow(this.styles.bold('Permission Request')))
+    for (const line of req.message.split('\n')) {
+      this.print(renderer.renderLine(line))
+    }
+    this.output.write(this.styles.yellow('Allow? [y/N] '))
+  }
+
+  private answerPermission(allow: boolean): void {
+    const req = this.permissionQueue.shift()
+    if (!req) return
+
+    const result = PermissionBridge.getInstance().resolveRequest(req.id, allow ? 'allow' : 'deny', this.userId)
+    const label = result === 'forbidden' ? '(Only a designated approver can approve this request)'
+      : result === 'pending' ? '(Approval recorded, waiting for more approvers)'
+      : allow ? '(Allowed)' : '(Denied)'
+    this.print(this.styles.dim(label))
+    this.askPermission()
+  }
+
+  private denyPendingPermissions(): void {
+    while (this.permissionQueue.length > 0) {
+      const req = this.permissionQueue.shift()!
+      PermissionBridge.getInstance().resolveRequest(req.id, 'deny')
+    }
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  private formatHistoryMessage(message: Message): string {
+    const s = this.styles
+    const role = message.role === 'user' ? s.green('you')
+      : message.role === 'assistant' ? s.cyan('agent')
+      : s.dim(message.role)
+
+    const parts = typeof message.content === 'string'
+      ? [message.content]
+      : message.content.map((block) => {
+          switch (block.type) {
+            case 'text': return block.text
+            case 'image': return '[Image]'
+            case 'tool_call': return `[Tool call: ${block.name} ${truncate(JSON.stringify(block.args ?? {}), 80)}]`
+            case 'tool_result': return `[Tool result: ${block.toolName}${block.isError ? ' (error)' : ''}]`
+          }
+        })
+
+    return `${role}: ${truncate(parts.join(' ').replace(/\s+/g, ' '), 200)}`
+  }
+
+  private print(text: string): void {
+    this.output.write(text + '\n')
+  }
+
+  private prompt(): void {
+    if (!this.rl || this.permissionQueue.length > 0) return
+    this.rl.setPrompt(this.styles.green('> '))
+    this.rl.prompt()
+  }
+}
+
+/**
+ * Read a local image file as an image content block
+ */
+async function loadImage(path: string): Promise<ContentBlock> {
+  const fullPath = resolve(path.replace(/^~(?=$|[\\/])/, process.env.HOME || process.env.USERPROFILE || '~'))
+  const mimeType = IMAGE_MIME_TYPES[extname(fullPath).toLowerCase()]
+  if (!mimeType) {
+    throw new Error(`Unsupported image type: ${extname(fullPath) || '(none)'} (supported: ${Object.keys(IMAGE_MIME_TYPES).join(', ')})`)
+  }
+
+  const info = await stat(fullPath)
+  if (info.size > MAX_IMAGE_BYTES) {
+    throw new Error(`Image too large: ${Math.round(info.size / 1024 / 1024)} MB (max 20 MB)`)
+  }
+
+  const data = await readFile(fullPath)
+  return { type: 'image', data: data.toString('base64'), mimeType }
+}
+
+function safeUsername(): string {
+  try {
+    return userInfo().username || 'local'
+  } catch {
+    return process.env.USER || process.env.USERNAME || 'local'
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Message Text Helpers
+ */
+
+/** Code fence line (``` or ```lang) */
+const FENCE_REGEX = /^\s*```(\S*)/
+
+/**
+ * Split a Markdown message into chunks of at most `maxLength` characters.
+ *
+ * - Prefers to split at line breaks, hard-splits lines that are too long
+ * - Code blocks that span a split are closed at the end of the chunk and
+ *   reopened (with the same language) at the start of the next one
+ */
+export function splitMessage(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) return [text]
+
+  const chunks: string[] = []
+  let remaining = text
+
+  while (remaining.length > maxLength) {
+    // Leave room for a closing fence
+    const limit = maxLength - 4
+    let cut = remaining.lastIndexOf('\n', limit)
+    if (cut <= 0) cut = limit
+
+    // A cut right after the opening fence would reopen the same block: hard-split
+    let openFence = getOpenFence(remaining.slice(0, cut))
+    if (openFence && cut <= openFence.end) {
+      cut = limit
+      openFence = getOpenFence(remaining.slice(0, cut))
+    }
+
+    let chunk = remaining.slice(0, cut)
+    let rest = remaining.slice(cut)
+    if (rest.startsWith('\n')) rest = rest.slice(1)
+
+    if (openFence) {
+      chunk += '\n```'
+      rest = `\`\`\`${openFence.lang}\n${rest}`
+    }
+
+    chunks.push(chunk)
+    remaining = rest
+  }
+
+  if (remaining) chunks.push(remaining)
+  return chunks
+}
+
+/**
+ * Return the language of the code block left open at the end of `text` and
+ * where its opening fence line ends, or null if all code blocks are closed.
+ */
+function getOpenFence(text: string): { lang: string; end: number } | null {
+  let open: { lang: string; end: number } | null = null
+  let start = 0
+  for (const line of text.split('\n')) {
+    const match = FENCE_REGEX.exec(line)
+    if (match) {
+      open = open === null ? { lang: match[1], end: start + line.length } : null
+    }
+    start += line.length + 1
+  }
+  return open
+}
@@ -1,11 +1,56 @@
-import { PendingRequest } from '../utils/permission-bridge'
+import { PendingRequest, PermissionCloseReason } from '../utils/permission-bridge'
 import type { ContentBlock } from '../types/protocol'
+import type { AgentEvent } from '../core/gateway'
+
+/** Reply that is updated while the agent is still generating */
+export interface StreamingReply {
+  /** Show the text generated so far (throttled by the channel) */
+  update(text: string): void;
+  /** Show the complete reply */
+  finish(text: string): Promise<void>;
+  /** Receive every agent event (tool calls, results), for channels that expose them */
+  onEvent?(event: AgentEvent): void;
+}
+
+/** Creates a streaming reply for the current message (sends the placeholder) */
+export type StreamingReplyFactory = () => Promise<StreamingReply>;
+
+/**
+ * Incoming message handler
+ *
+ * Channels that can edit sent messages pass `createStream`; others only `sendReply`.
+ * Group chats pass `origin` (e.g. the group title), shown to approvers.
+ */
+export type MessageHandler = (
+  input: string | ContentBlock[],
+  userId: string,
+  channelId: string,
+  sendReply: (text: string) => Promise<void>,
+  createStream?: StreamingReplyFactory,
+  origin?: string
+) => Promise<void>;
 
 export interface Channel {
   id: string;
-  start(messageHandler: (input: string | ContentBlock[], userId: string, channelId: string, sendReply: (text: string) => Promise<void>) => Promise<void>): Promise<void>;
+  /** Connect and start receiving messages (resolves once the channel is running) */
+  start(messageHandler: MessageHandler): Promise<void>;
   stop(): Promise<void>;
   handlePermissionRequest?(req: PendingRequest): Promise<void>;
+  /** Update the prompt of a request that expired or was cancelled (remove its buttons) */
+  closePermissionRequest?(req: PendingRequest, reason: PermissionCloseReason): Promise<void>;
+  /** Error that stopped the channel after a successful start, if any */
+  getError?(): string | null;
+}
+
+export type ChannelStatus = 'starting' | 'running' | 'failed' | 'stopped';
+
+/** Per-channel health, as tracked by BotManager */
+export interface ChannelHealth {
+  id: string;
+  status: ChannelStatus;
+  error?: string;
+  /** Time of the last status change */
+  since: number;
 }
 
 export interface ChannelConfig {
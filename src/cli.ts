@@ -10,7 +10,7 @@ import { Logger } from './utils/logger'
 const logger = new Logger('CLI')
 
 /** CLI Command Types */
-export type CLICommand = 'start' | 'init' | 'config' | 'help' | 'version'
+export type CLICommand = 'start' | 'chat' | 'serve' | 'mcp' | 'policy' | 'audit' | 'usage' | 'init' | 'config' | 'help' | 'version'
 
 /** Parsed CLI Result Interface */
 export interface ParsedCLI {
@@ -21,6 +21,18 @@ export interface ParsedCLI {
     model?: string
     verbose?: boolean
     configPath?: string
+    host?: string
+    port?: number
+    user?: string
+    channel?: string
+    tool?: string
+    decision?: string
+    since?: string
+    until?: string
+    limit?: number
+    by?: string
+    json?: boolean
+    verify?: boolean
     help?: boolean
     version?: boolean
   }
@@ -35,6 +47,12 @@ Usage:
 
 Commands:
   start          Start the Bot (Default command)
+  chat           Chat with the agent in the terminal (no bot token needed)
+  serve          Serve the agent as an OpenAI-compatible API (/v1/chat/completions)
+  mcp            Run an MCP server on stdio exposing OpenVia's tools
+  policy test    Show the policy decision for a tool call, format: openvia policy test <tool> [json-args]
+  audit          Search the audit log (filters: --user, --tool, --decision, --since, --until)
+  usage          Show token usage and cost (filters: --user, --channel, --since, --until)
   init           Initialize configuration directory and files
   config         View current configuration
   config set     Set configuration item, format: openvia config set <key> <value>
@@ -47,11 +65,29 @@ Options:
   -m, --model <name>     Set Claude model
   -v, --verbose          Enable verbose logging mode
   -c, --config <path>    Specify configuration file path
+  --host <address>       Listen address for serve (default: 127.0.0.1)
+  -p, --port <port>      Listen port for serve (default: 8788)
+  --user <id>            User ID for policy test / audit filter
+  --channel <id>         Channel ID for policy test / usage filter (e.g. telegram)
+  --tool <name>          Audit filter: tool name or glob (e.g. mcp__*)
+  --decision <type>      Audit filter: allow, deny or require_approval
+  --since <time>         Audit / usage filter: date, ISO time or age (e.g. 2026-01-31, 24h, 7d)
+  --until <time>         Audit / usage filter: date, ISO time or age
+  --limit <n>            Audit: show the newest n entries
+  --by <field>           Usage: group totals by day, user or model
+  --json                 Audit / usage: print entries as JSON lines
+  --verify               Audit: check the hash chain
   -h, --help             Display help information
   --version              Display version number
 
 Examples:
   openvia                        Start the Bot
+  openvia chat                   Chat in the terminal
+  openvia serve --port 8788      Serve the OpenAI-compatible API
+  openvia mcp                    Use OpenVia's tools from an MCP client
+  openvia policy test bash '{"command":"rm -rf build"}' --user 123 --channel telegram
+  openvia audit --tool bash --decision deny --since 7d
+  openvia usage --since 30d --by user
   openvia init                   Initialize configuration
   openvia config                 View configuration
   openvia config set claude.timeout 60000
@@ -133,6 +169,91 @@ export function parseCLI(argv: string[] = process.argv): ParsedCLI {
             i++
           }
           break
+
+        case '--host':
+          if (args[i + 1]) {
+            result.options.host = args[i + 1]
+            i++
+          }
+          break
+
+        case '--user':
+          if (args[i + 1]) {
+            result.options.user = args[i + 1]
+            i++
+          }
+          break
+
+        case '--channel':
+          if (args[i + 1]) {
+            result.options.channel = args[i + 1]
+            i++
+          }
+          break
+
+        case '--tool':
+          if (args[i + 1]) {
+            result.options.tool = args[i + 1]
+            i++
+          }
+          break
+
+        case '--decision':
+          if (args[i + 1]) {
+            result.options.decision = args[i + 1]
+            i++
+          }
+          break
+
+        case '--since':
+          if (args[i + 1]) {
+            result.options.since = args[i + 1]
+            i++
+          }
+          break
+
+        case '--until':
+          if (args[i + 1]) {
+            result.options.until = args[i + 1]
+            i++
+          }
+          break
+
+        case '--limit':
+          if (args[i + 1]) {
+            const limit = parseInt(args[i + 1], 10)
+            if (!isNaN(limit)) {
+              result.options.limit = limit
+              i++
+            }
+          }
+          break
+
+        case '--by':
+          if (args[i + 1]) {
+            result.options.by = args[i + 1]
+            i++
+          }
+          break
+
+        case '--json':
+          result.options.json = true
+          break
+
+        case '--verify':
+          result.options.verify = true
+          break
+
+        case '-p':
+        case '--port':
+          if (args[i + 1]) {
+            const port = parseInt(args[i + 1], 10)
+            if (!isNaN(port)) {
+              result.options.port = port
+              i++
+            }
+          }
+          break
       }
     } else {
       switch (arg) {
@@ -140,6 +261,34 @@ export function parseCLI(argv: string[] = process.argv): ParsedCLI {
           result.command = 'start'
           break
 
+        case 'chat':
+          result.command = 'chat'
+          break
+
+        case 'serve':
+          result.command = 'serve'
+          break
+
+        case 'mcp':
+          result.command = 'mcp'
+          break
+
+        case 'policy':
+          result.command = 'policy'
+          while (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+            result.args.push(args[i + 1])
+            i++
+          }
+          break
+
+        case 'audit':
+          result.command = 'audit'
+          break
+
+        case 'usage':
+          result.command = 'usage'
+          break
+
         case 'init':
           result.command = 'init'
           break
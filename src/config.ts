@@ -9,6 +9,13 @@ import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
 import { join } from 'path'
 import { homedir } from 'os'
 import { Logger } from './utils/logger'
+import type { McpServerConfig } from './mcp'
+import type { AuditConfig, PolicyRuleConfig, SandboxConfig, UsageConfig } from './core'
+import type { ShellBackendConfig } from './exec'
+import type { WorkspaceConfig } from './orchestrator/workspace'
+import type { RolesConfig } from './orchestrator/roles'
+import type { ApprovalConfig } from './utils/permission-bridge'
+import type { LLMConfig, RetryConfig } from './llm'
 
 const logger = new Logger('Config')
 
@@ -21,12 +28,17 @@ const CONFIG_FILE = 'config.json'
 /** Application Configuration Type */
 export interface AppConfig {
   adapters: {
+    /** Adapter used when none is enabled explicitly */
     default: string
+    /** Adapters to run simultaneously (overrides per-adapter `enabled` flags) */
+    enabled?: string[]
     telegram?: {
+      enabled?: boolean
       botToken: string
       allowedUserIds?: number[]
     }
     feishu?: {
+      enabled?: boolean
       appId: string
       appSecret: string
       allowedUserIds?: string[]
@@ -34,6 +46,73 @@ export interface AppConfig {
       encryptKey?: string
       wsEndpoint?: string
     }
+    slack?: {
+      enabled?: boolean
+      /** App-level token (xapp-...) with connections:write, for Socket Mode */
+      appToken: string
+      /** Bot token (xoxb-...) */
+      botToken: string
+      /** Allowed users per workspace (team ID -> user IDs, empty list = whole workspace) */
+      allowedUserIds?: Record<string, string[]>
+      /** Web API base URL (default: https://slack.com/api) */
+      apiUrl?: string
+    }
+    discord?: {
+      enabled?: boolean
+      botToken: string
+      allowedUserIds?: string[]
+      /** Guilds (servers) the bot answers in, empty = all */
+      allowedGuildIds?: string[]
+    }
+    http?: {
+      enabled?: boolean
+      /** Listen address (default: 127.0.0.1) */
+      host?: string
+      /** Listen port (default: 8787) */
+      port?: number
+      /** Bearer tokens, each acting as a user */
+      tokens: Array<{ token: string; userId: string }>
+    }
+  }
+  /** External MCP tool servers (name -> stdio command or streamable-HTTP URL) */
+  mcpServers?: Record<string, McpServerConfig>
+  /** Tool call policy */
+  policy?: {
+    /** Ordered rules, checked before the built-in defaults (first match wins) */
+    rules?: PolicyRuleConfig[]
+  }
+  /** File sandbox for read_file / write_file / edit_file */
+  sandbox?: SandboxConfig
+  /** Execution backend for the bash tool (host, podman, docker, bubblewrap) */
+  shell?: ShellBackendConfig
+  /** Per-user workspaces (tool working directories) and disk quota */
+  workspace?: WorkspaceConfig
+  /** Audit log (JSON lines in the logs directory) */
+  audit?: AuditConfig
+  /** Permission request timeout and designated approvers */
+  approvals?: ApprovalConfig
+  /** Roles of users per channel (tools, skills, models, approval rights) */
+  roles?: RolesConfig
+  /** Named model profiles users can switch to with `/model` */
+  models?: Record<string, ModelProfile>
+  /** Token prices, rate limits and daily budgets per user and channel */
+  usage?: UsageConfig
+  /** OpenAI-compatible server (`openvia serve`) */
+  serve?: {
+    /** Listen address (default: 127.0.0.1) */
+    host?: string
+    /** Listen port (default: 8788) */
+    port?: number
+    /** Model ID reported to clients (default: openvia) */
+    model?: string
+    /** Bearer tokens, each acting as a user (none = no authentication, loopback only) */
+    tokens?: Array<{ token: string; userId: string }>
+    /** How tool calls that need approval are answered (default: deny) */
+    approvals?: 'deny' | 'allow' | 'channel'
+    /** Channel asking for approval when approvals is "channel" (e.g. telegram) */
+    approvalChannel?: string
+    /** User asked for approval in that channel */
+    approvalUserId?: string
   }
   telegram: { // Keeping for backward compatibility but mapped to adapters.telegram
     botToken: string
@@ -52,6 +131,14 @@ export interface AppConfig {
     shellConfirmList?: string[]
     maxIterations?: number
     skillLoading?: 'lazy' | 'eager'
+    /** Fraction of the model context window history may use before compaction (default: 0.75) */
+    contextThreshold?: number
+    /** Most recent turns kept verbatim when compacting (default: 4) */
+    keepRecentTurns?: number
+    /** Retries of requests failing before any output (429, 5xx, timeouts) */
+    retry?: RetryConfig
+    /** Models tried in order when the model fails (apiKey may be omitted for local servers) */
+    fallbacks?: Array<Omit<LLMConfig, 'apiKey'> & { apiKey?: string }>
   }
   /** @deprecated Use llm instead */
   claude: {
@@ -64,12 +151,26 @@ export interface AppConfig {
     executablePath?: string
     systemPrompt?: string
   }
+  /** Conversation session persistence */
+  session: {
+    store: 'file' | 'memory'
+    retentionDays: number
+  }
   logging: {
     level: 'debug' | 'info' | 'warn' | 'error'
     verbose: boolean
   }
 }
 
+/** Named model profile (`models`); fields not set are taken from `llm` */
+export interface ModelProfile extends Partial<LLMConfig> {
+  model: string
+  /** Replaces the system prompt of `llm` */
+  systemPrompt?: string
+  /** Shown in the `/model` list */
+  description?: string
+}
+
 /** CLI Options Type */
 export interface CLIOptions {
   timeout?: number
@@ -117,6 +218,10 @@ export function getDefaultConfig(): AppConfig {
       shellConfirmList: ['rm', 'mv', 'sudo', 'su', 'dd', 'reboot', 'shutdown', 'mkfs', 'chmod', 'chown', 'wget', 'curl', '>', '>>', '&'],
       executablePath: '',
     },
+    session: {
+      store: 'file',
+      retentionDays: 30,
+    },
     logging: {
       level: 'info',
       verbose: false,
@@ -161,6 +266,34 @@ export function getSessionsDir(): string {
   return join(getConfigDir(), 'sessions')
 }
 
+/**
+ * Get Workspaces Directory Path
+ */
+export function getWorkspacesDir(): string {
+  return join(getConfigDir(), 'workspaces')
+}
+
+/**
+ * Get Grants File Path (remembered "Always allow" approvals)
+ */
+export function getGrantsFile(): string {
+  return join(getConfigDir(), 'grants.json')
+}
+
+/**
+ * Get Usage File Path (token totals per user, model and day)
+ */
+export function getUsageFile(): string {
+  return join(getConfigDir(), 'usage.json')
+}
+
+/**
+ * Get Model Selections File Path (model profile chosen by each user)
+ */
+export function getModelSelectionsFile(): string {
+  return join(getConfigDir(), 'model-selections.json')
+}
+
 /**
  * Get Logs Directory Path
  */
@@ -253,6 +386,15 @@ function loadConfigFromEnv(): Partial<AppConfig> {
     logger.debug('Using ALLOWED_USER_IDS from environment')
   }
 
+  // Enabled adapters
+  if (process.env.OPENVIA_ADAPTERS) {
+    const enabled = process.env.OPENVIA_ADAPTERS.split(',')
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0)
+    config.adapters = { ...config.adapters, enabled } as AppConfig['adapters']
+    logger.debug('Using OPENVIA_ADAPTERS from environment')
+  }
+
   // Feishu
   if (process.env.FEISHU_APP_ID && process.env.FEISHU_APP_SECRET) {
       if (!config.adapters) config.adapters = { default: 'feishu' } // Set default if providing feishu envs
@@ -284,6 +426,28 @@ function loadConfigFromEnv(): Partial<AppConfig> {
     logger.debug('Using FEISHU_ALLOWED_USER_IDS from environment')
   }
 
+  // Slack
+  if (process.env.SLACK_APP_TOKEN && process.env.SLACK_BOT_TOKEN) {
+    config.adapters = {
+      ...config.adapters,
+      slack: {
+        appToken: process.env.SLACK_APP_TOKEN,
+        botToken: process.env.SLACK_BOT_TOKEN,
+        apiUrl: process.env.SLACK_API_URL,
+      },
+    } as AppConfig['adapters']
+    logger.debug('Using Slack tokens from environment')
+  }
+
+  // Discord
+  if (process.env.DISCORD_BOT_TOKEN) {
+    config.adapters = {
+      ...config.adapters,
+      discord: { botToken: process.env.DISCORD_BOT_TOKEN },
+    } as AppConfig['adapters']
+    logger.debug('Using DISCORD_BOT_TOKEN from environment')
+  }
+
   // Claude
   if (process.env.ANTHROPIC_API_KEY) {
     config.claude = { ...config.claude, apiKey: process.env.ANTHROPIC_API_KEY } as any
@@ -340,6 +504,40 @@ function loadConfigFromEnv(): Partial<AppConfig> {
   return config
 }
 
+/**
+ * Get the adapters to start
+ *
+ * 1. `adapters.enabled` list (per-adapter `enabled` flags are ignored)
+ * 2. Adapters with `enabled: true`
+ * 3. `adapters.default` (single adapter), unless it has `enabled: false`
+ */
+export function getEnabledAdapters(config: AppConfig): string[] {
+  const { adapters } = config
+  const flags: Record<string, boolean | undefined> = {
+    telegram: adapters.telegram?.enabled,
+    feishu: adapters.feishu?.enabled,
+    slack: adapters.slack?.enabled,
+    discord: adapters.discord?.enabled,
+    http: adapters.http?.enabled,
+  }
+
+  // `config set adapters.enabled telegram` stores a plain string
+  const list: unknown = adapters.enabled
+  let names = Array.isArray(list)
+    ? list.map((name) => String(name).trim())
+    : typeof list === 'string' ? list.split(',').map((name) => name.trim()) : []
+
+  if (names.length > 0) {
+    return [...new Set(names)].filter((name) => name.length > 0)
+  }
+
+  names = Object.keys(flags).filter((name) => flags[name] === true)
+  if (names.length === 0) {
+    names = [adapters.default || 'telegram']
+  }
+  return names.filter((name) => flags[name] !== false)
+}
+
 /**
  * Deep merge configuration objects
  */
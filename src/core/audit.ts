@@ -0,0 +1,330 @@
+/**
+ * Audit Log - append-only record of messages and tool calls
+ *
+ * Entries are written as JSON lines to `audit-YYYY-MM-DD.jsonl` (one file per
+ * UTC day) in the logs directory. Tool arguments are redacted before they are
+ * written: secret-looking fields and `key=value` pairs are masked and long
+ * strings (file contents) are truncated.
+ *
+ * With `hashChain`, every entry carries `hash = sha256(previous hash + entry)`,
+ * continuing across files, so editing or deleting an entry breaks the chain
+ * (`openvia audit --verify`). Files deleted past retention leave the hash of
+ * their last entry in `chain-anchor`, where the chain of the kept files starts.
+ */
+import { createHash } from 'node:crypto'
+import { appendFile, mkdir, readdir, readFile, unlink, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { matchGlob } from '../utils/glob'
+import { Logger } from '../utils/logger'
+
+const logger = new Logger('Audit')
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Audit configuration (`audit`) */
+export interface AuditConfig {
+  /** Default: true */
+  enabled?: boolean
+  /** Chain entries with SHA-256 hashes (default: false) */
+  hashChain?: boolean
+  /** Extra argument names to redact (case-insensitive) */
+  redact?: string[]
+  /** Delete audit files older than this many days (default: keep) */
+  retentionDays?: number
+}
+
+/** Audited event */
+export interface AuditEntry {
+  /** ISO timestamp */
+  time: string
+  /** `message`: a chat message for the agent (commands are not recorded), `tool`: a tool call */
+  kind: 'message' | 'tool'
+  userId: string
+  chatId?: string
+  tool?: string
+  /** Redacted tool arguments */
+  args?: unknown
+  /** Policy decision (messages: whitelist and usage limits) */
+  decision: 'allow' | 'deny' | 'require_approval'
+  /** Rule that decided (policy rule name, `sandbox`, `quota`, ...) */
+  rule?: string
+  reason?: string
+  /** Answer to the approval request */
+  approved?: boolean
+  /** Who answered the approval request */
+  approver?: string
+  /** Everyone who approved, when several approvals were needed */
+  approvers?: string[]
+  /** Tool outcome (`denied`: not run) */
+  status?: 'success' | 'error' | 'denied'
+  error?: string
+  durationMs?: number
+  /** Hash chain (with `hashChain`) */
+  hash?: string
+}
+
+/** Filters for `query` */
+export interface AuditQuery {
+  userId?: string
+  /** Tool name or glob (`mcp__*`) */
+  tool?: string
+  decision?: AuditEntry['decision']
+  /** Inclusive bounds */
+  since?: Date
+  until?: Date
+  /** Newest entries kept (default: all) */
+  limit?: number
+}
+
+const FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})\.jsonl$/
+
+/** Hash of the last entry of the deleted files */
+const ANCHOR_FILE = 'chain-anchor'
+
+/** Argument names whose values are always redacted */
+const SECRET_KEY = /passw(or)?d|passphrase|secret|token|api[_-]?key|authorization|cookie|credential|private[_-]?key/i
+
+/** `key=value` / `key: value` secrets inside strings (commands, URLs) */
+const SECRET_ASSIGNMENT = /\b([\w-]*(?:pass(?:word|wd)?|secret|token|api[_-]?key)[\w-]*)(\s*[=:]\s*)("[^"]*"|'[^']*'|[^\s&;'"]+)/gi
+
+const BEARER = /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/g
+
+const REDACTED = '[REDACTED]'
+
+/** Longer strings are truncated */
+const MAX_STRING = 500
+
+// ============================================================================
+// Audit Log
+// ============================================================================
+
+export class AuditLog {
+  private dir: string | null = null
+  private hashChain = false
+  private redactKeys: string[] = []
+  private lastHash = ''
+  /** Pending writes, in order */
+  private writing: Promise<void> = Promise.resolve()
+
+  /**
+   * Start writing to `dir` (entries recorded before are only logged)
+   */
+  async init(config: AuditConfig & { dir: string }): Promise<void> {
+    if (config.enabled === false) {
+      this.dir = null
+      return
+    }
+
+    this.dir = config.dir
+    this.hashChain = !!config.hashChain
+    this.redactKeys = (config.redact || []).map(key => key.toLowerCase())
+    await mkdir(this.dir, { recursive: true })
+
+    if (config.retentionDays) {
+      await this.deleteOlderThan(config.retentionDays)
+    }
+    if (this.hashChain) {
+      this.lastHash = await this.readLastHash()
+    }
+    logger.info(`Audit log: ${this.dir}${this.hashChain ? ' (hash chain)' : ''}`)
+  }
+
+  /**
+   * Record an entry (written in the background, in order)
+   */
+  record(entry: Omit<AuditEntry, 'time' | 'hash'>): void {
+    const full: AuditEntry = {
+      time: new Date().toISOString(),
+      ...entry,
+      ...(entry.args !== undefined ? { args: this.redact(entry.args) } : {}),
+    }
+
+    const status = entry.approved !== undefined ? (entry.approved ? 'APPROVED' : 'REJECTED')
+      : entry.decision === 'allow' ? 'ALLOW' : entry.decision === 'deny' ? 'DENY' : 'PENDING'
+    const subject = entry.kind === 'tool' ? `Tool:${entry.tool}` : 'Message'
+    logger.info(`${status} User:${entry.userId} ${subject}${entry.status ? ` -> ${entry.status}` : ''}${entry.reason ? ` (${entry.reason})` : ''}`)
+
+    if (!this.dir) return
+    if (this.hashChain) {
+      full.hash = chainHash(this.lastHash, full)
+      this.lastHash = full.hash
+    }
+
+    const file = join(this.dir, fileName(full.time))
+    const line = `${JSON.stringify(full)}\n`
+    this.writing = this.writing
+      .then(() => appendFile(file, line, 'utf-8'))
+      .catch((error) => logger.error('Failed to write audit entry:', error instanceof Error ? error.message : String(error)))
+  }
+
+  /**
+   * Wait until recorded entries are written
+   */
+  flush(): Promise<void> {
+    return this.writing
+  }
+
+  /**
+   * Redact tool arguments
+   */
+  redact(value: unknown, key = ''): unknown {
+    const secret = key && (SECRET_KEY.test(key) || this.redactKeys.includes(key.toLowerCase()))
+    if (secret && typeof value !== 'number' && typeof value !== 'boolean') {
+      return REDACTED
+    }
+    if (typeof value === 'string') {
+      const masked = value
+        .replace(SECRET_ASSIGNMENT, (_, name: string, sep: string) => `${name}${sep}${REDACTED}`)
+        .replace(BEARER, (_, scheme: string) => `${scheme} ${REDACTED}`)
+      return masked.length > MAX_STRING
+        ? `${masked.slice(0, MAX_STRING)}... (${masked.length} chars)`
+        : masked
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item))
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.redact(v, k)]))
+    }
+    return value
+  }
+
+  // ==========================================================================
+  // Reading
+  // ==========================================================================
+
+  /**
+   * Find entries matching the filters, oldest first
+   */
+  async query(filter: AuditQuery = {}): Promise<AuditEntry[]> {
+    const since = filter.since?.toISOString()
+    const until = filter.until?.toISOString()
+    const matches: AuditEntry[] = []
+
+    for (const file of await this.listFiles()) {
+      const day = file.match(FILE_PATTERN)![1]
+      if (since && day < since.slice(0, 10)) continue
+      if (until && day > until.slice(0, 10)) continue
+
+      for (const entry of await this.readFile(file)) {
+        if (since && entry.time < since) continue
+        if (until && entry.time > until) continue
+        if (filter.userId && entry.userId !== filter.userId) continue
+        if (filter.decision && entry.decision !== filter.decision) continue
+        if (filter.tool && !(entry.tool && matchGlob(entry.tool, filter.tool))) continue
+        matches.push(entry)
+      }
+    }
+
+    return filter.limit ? matches.slice(-filter.limit) : matches
+  }
+
+  /**
+   * Check the hash chain over all files, starting at the anchor of deleted
+   * files; entries from before the first hashed entry are skipped
+   *
+   * @returns The first broken entry, or null when the chain is intact
+   */
+  async verify(): Promise<{ file: string; line: number; reason: string } | null> {
+    let previous = await this.readAnchor()
+    let started = previous !== ''
+    for (const file of await this.listFiles()) {
+      const lines = (await readFile(join(this.dir!, file), 'utf-8')).split('\n')
+      for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].trim()) continue
+        let entry: AuditEntry
+        try {
+          entry = JSON.parse(lines[i]) as AuditEntry
+        } catch {
+          return { file, line: i + 1, reason: 'invalid JSON' }
+        }
+        if (!entry.hash) {
+          if (!started) continue
+          return { file, line: i + 1, reason: 'missing hash' }
+        }
+        const { hash, ...rest } = entry
+        if (chainHash(previous, rest) !== hash) {
+          return { file, line: i + 1, reason: 'hash mismatch' }
+        }
+        previous = hash
+        started = true
+      }
+    }
+    return null
+  }
+
+  private async listFiles(): Promise<string[]> {
+    if (!this.dir) return []
+    try {
+      return (await readdir(this.dir)).filter(name => FILE_PATTERN.test(name)).sort()
+    } catch {
+      return []
+    }
+  }
+
+  private async readFile(file: string): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = []
+    const content = await readFile(join(this.dir!, file), 'utf-8')
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        entries.push(JSON.parse(line) as AuditEntry)
+      } catch {
+        logger.warn(`Skipping invalid line in ${file}`)
+      }
+    }
+    return entries
+  }
+
+  private async readLastHash(): Promise<string> {
+    const files = await this.listFiles()
+    for (let i = files.length - 1; i >= 0; i--) {
+      const entries = await this.readFile(files[i])
+      const last = entries[entries.length - 1]
+      if (last) return last.hash || ''
+    }
+    return this.readAnchor()
+  }
+
+  private async readAnchor(): Promise<string> {
+    try {
+      return (await readFile(join(this.dir!, ANCHOR_FILE), 'utf-8')).trim()
+    } catch {
+      return ''
+    }
+  }
+
+  private async deleteOlderThan(days: number): Promise<void> {
+    const cutoff = fileName(new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString())
+    for (const file of await this.listFiles()) {
+      if (file >= cutoff) continue
+      // The kept files chain on from the last hashed entry of the deleted ones
+      const last = (await this.readFile(file)).filter(entry => entry.hash).pop()
+      if (last) {
+        await writeFile(join(this.dir!, ANCHOR_FILE), `${last.hash}\n`, 'utf-8')
+      }
+      await unlink(join(this.dir!, file)).catch(() => {})
+      logger.info(`Deleted audit file past retention: ${file}`)
+    }
+  }
+}
+
+function fileName(time: string): string {
+  return `audit-${time.slice(0, 10)}.jsonl`
+}
+
+function chainHash(previous: string, entry: Omit<AuditEntry, 'hash'>): string {
+  return createHash('sha256').update(previous).update(JSON.stringify(entry)).digest('hex')
+}
+
+// Singleton
+let auditInstance: AuditLog | null = null
+
+export function getAuditLog(): AuditLog {
+  if (!auditInstance) {
+    auditInstance = new AuditLog()
+  }
+  return auditInstance
+}
@@ -0,0 +1,314 @@
+/**
+ * Context Manager - Conversation History Compaction
+ *
+ * Responsibilities:
+ * - Estimate the token cost of conversation messages
+ * - Keep history within the model's context budget
+ * - Summarise older turns into a pinned "summary so far" system message
+ *
+ * Compaction steps (only when over budget):
+ * 1. Trim older turns: drop images, shorten long tool results
+ * 2. Summarise older turns with the same LLM adapter, keeping the most recent turns verbatim
+ * 3. If summarisation fails, drop the oldest turns instead
+ */
+
+import type { LLMAdapter } from '../llm/adapter'
+import type { Message, ContentBlock } from '../types'
+import { Logger } from '../utils/logger'
+
+const logger = new Logger('ContextManager')
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Context manager options */
+export interface ContextManagerOptions {
+  /** Fraction of `maxContextTokens` the history may use (default: 0.75) */
+  threshold?: number
+  /** Number of most recent user turns kept verbatim (default: 4) */
+  keepRecentTurns?: number
+  /** Max characters kept from a tool result in older turns (default: 2000) */
+  maxToolResultChars?: number
+}
+
+/** Compaction result */
+export interface CompactionResult {
+  messages: Message[]
+  compacted: boolean
+  tokensBefore: number
+  tokensAfter: number
+}
+
+/** Prefix of the pinned summary message */
+export const SUMMARY_PREFIX = '[Summary of the conversation so far]'
+
+/** Estimated tokens for an image block */
+const IMAGE_TOKENS = 1000
+
+/** Fixed per-message overhead (role, separators) */
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+const SUMMARY_SYSTEM_PROMPT = `You summarise conversations between a user and an AI agent that can run tools (shell commands, file edits, skills).
+Write a concise summary that lets the agent continue the conversation without the original messages. Include:
+- The user's goals and preferences
+- Important facts, decisions and answers already given
+- Files, commands and tools used, with their relevant outcomes
+- Open tasks or questions
+Output only the summary, in the language of the conversation.`
+
+// ============================================================================
+// Token Estimation
+// ============================================================================
+
+/**
+ * Estimate tokens for a piece of text
+ *
+ * Roughly 4 characters per token for Latin text, 1 token per CJK character.
+ */
+export function estimateTextTokens(text: string): number {
+  if (!text) return 0
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length || 0
+  return cjk + Math.ceil((text.length - cjk) / 4)
+}
+
+/**
+ * Estimate tokens for a content block
+ */
+function estimateBlockTokens(block: ContentBlock): number {
+  switch (block.type) {
+    case 'text':
+      return estimateTextTokens(block.text)
+    case 'image':
+      return IMAGE_TOKENS
+    case 'tool_call':
+      return estimateTextTokens(block.name) + estimateTextTokens(JSON.stringify(block.args ?? {}))
+    case 'tool_result':
+      return estimateTextTokens(block.content)
+  }
+}
+
+/**
+ * Estimate tokens for a message
+ */
+export function estimateMessageTokens(message: Message): number {
+  const content = typeof message.content === 'string'
+    ? estimateTextTokens(message.content)
+    : message.content.reduce((sum, block) => sum + estimateBlockTokens(block), 0)
+  return content + MESSAGE_OVERHEAD_TOKENS
+}
+
+/**
+ * Estimate tokens for a list of messages
+ */
+export function estimateMessagesTokens(messages: Message[]): number {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0)
+}
+
+// ============================================================================
+// Context Manager Implementation
+// ============================================================================
+
+export class ContextManager {
+  private llm: LLMAdapter
+  private threshold: number
+  private keepRecentTurns: number
+  private maxToolResultChars: number
+
+  constructor(llm: LLMAdapter, options: ContextManagerOptions = {}) {
+    this.llm = llm
+    this.threshold = options.threshold || 0.75
+    this.keepRecentTurns = Math.max(1, options.keepRecentTurns || 4)
+    this.maxToolResultChars = options.maxToolResultChars || 2000
+  }
+
+  /**
+   * Token budget for history, after the fixed overhead (system prompt, tool schemas)
+   */
+  getBudget(overheadTokens = 0): number {
+    return Math.max(1000, Math.floor(this.llm.maxContextTokens * this.threshold) - overheadTokens)
+  }
+
+  /**
+   * Compact history if it exceeds the budget
+   */
+  async compact(history: Message[], overheadTokens = 0): Promise<CompactionResult> {
+    const budget = this.getBudget(overheadTokens)
+    const tokensBefore = estimateMessagesTokens(history)
+
+    if (tokensBefore <= budget) {
+      return { messages: history, compacted: false, tokensBefore, tokensAfter: tokensBefore }
+    }
+
+    logger.info(`History over budget (${tokensBefore}/${budget} tokens, ${history.length} messages), compacting...`)
+
+    // Split pinned summary from the rest
+    const { summary, rest } = this.splitSummary(history)
+    const turns = this.splitTurns(rest)
+
+    // 1. Trim older turns (keep the current turn intact)
+    const trimmedTurns = turns.map((turn, i) => i === turns.length - 1 ? turn : turn.map(m => this.trimMessage(m)))
+    let messages = this.join(summary, trimmedTurns)
+    let tokens = estimateMessagesTokens(messages)
+    if (tokens <= budget) {
+      logger.info(`Trimmed images/tool results: ${tokensBefore} -> ${tokens} tokens`)
+      return { messages, compacted: true, tokensBefore, tokensAfter: tokens }
+    }
+
+    // 2. Summarise older turns, keeping as many recent turns as fit
+    let keep = Math.min(this.keepRecentTurns, trimmedTurns.length)
+    while (keep > 1 && estimateMessagesTokens(trimmedTurns.slice(-keep).flat()) > budget / 2) {
+      keep--
+    }
+    const olderTurns = trimmedTurns.slice(0, trimmedTurns.length - keep)
+    const recentTurns = trimmedTurns.slice(trimmedTurns.length - keep)
+
+    if (olderTurns.length === 0) {
+      logger.warn('Nothing to summarise, recent turns alone exceed the budget')
+      return { messages, compacted: true, tokensBefore, tokensAfter: tokens }
+    }
+
+    const newSummary = await this.summarise(summary, olderTurns.flat(), budget)
+    if (newSummary) {
+      messages = this.join({ role: 'system', content: `${SUMMARY_PREFIX}\n${newSummary}` }, recentTurns)
+    } else {
+      // 3. Fallback: drop the oldest turns, keep the previous summary
+      logger.warn('Summarisation failed, dropping oldest turns')
+      messages = this.join(summary, recentTurns)
+    }
+
+    tokens = estimateMessagesTokens(messages)
+    logger.info(`Compacted history: ${history.length} -> ${messages.length} messages, ${tokensBefore} -> ${tokens} tokens`)
+    return { messages, compacted: true, tokensBefore, tokensAfter: tokens }
+  }
+
+  /**
+   * Separate the pinned summary message (if any)
+   */
+  private splitSummary(history: Message[]): { summary: Message | null; rest: Message[] } {
+    const first = history[0]
+    if (first?.role === 'system' && typeof first.content === 'string' && first.content.startsWith(SUMMARY_PREFIX)) {
+      return { summary: first, rest: history.slice(1) }
+    }
+    return { summary: null, rest: history }
+  }
+
+  /**
+   * Split history into turns, each starting with a user message
+   *
+   * Tool calls and their results always stay in the same turn.
+   */
+  private splitTurns(messages: Message[]): Message[][] {
+    const turns: Message[][] = []
+    for (const message of messages) {
+      if (message.role === 'user' || turns.length === 0) {
+        turns.push([message])
+      } else {
+        turns[turns.length - 1].push(message)
+      }
+    }
+    return turns
+  }
+
+  private join(summary: Message | null, turns: Message[][]): Message[] {
+    return summary ? [summary, ...turns.flat()] : turns.flat()
+  }
+
+  /**
+   * Replace images with placeholders and shorten long tool results
+   */
+  private trimMessage(message: Message): Message {
+    if (typeof message.content === 'string') return message
+
+    let changed = false
+    const content = message.content.map((block): ContentBlock => {
+      if (block.type === 'image') {
+        changed = true
+        return { type: 'text', text: '[Image omitted]' }
+      }
+      if (block.type === 'tool_result' && block.content.length > this.maxToolResultChars) {
+        changed = true
+        return { ...block, content: this.truncateMiddle(block.content, this.maxToolResultChars) }
+      }
+      return block
+    })
+
+    return changed ? { ...message, content } : message
+  }
+
+  private truncateMiddle(text: string, maxChars: number): string {
+    if (text.length <= maxChars) return text
+    const half = Math.floor(maxChars / 2)
+    const omitted = text.length - half * 2
+    return `${text.slice(0, half)}\n...[${omitted} characters omitted]...\n${text.slice(-half)}`
+  }
+
+  /**
+   * Summarise older messages via the LLM adapter
+   */
+  private async summarise(previous: Message | null, messages: Message[], budget: number): Promise<string | null> {
+    const parts: string[] = []
+    if (previous && typeof previous.content === 'string') {
+      parts.push(`Previous summary:\n${previous.content.slice(SUMMARY_PREFIX.length).trim()}`)
+    }
+    if (messages.length > 0) {
+      parts.push(`Conversation:\n${messages.map(m => this.renderMessage(m)).join('\n\n')}`)
+    }
+
+    // Keep the summarisation request itself within budget (keep the latest part)
+    let transcript = parts.join('\n\n')
+    const maxChars = budget * 3
+    if (transcript.length > maxChars) {
+      transcript = `...\n${transcript.slice(-maxChars)}`
+    }
+
+    let summary = ''
+    try {
+      for await (const event of this.llm.chat({
+        messages: [{ role: 'user', content: `${transcript}\n\nSummarise the conversation above.` }],
+        systemPrompt: SUMMARY_SYSTEM_PROMPT
+      })) {
+        if (event.type === 'text_delta') {
+          summary += event.content
+        } else if (event.type === 'error') {
+          logger.error(`Summarisation failed: ${event.message}`)
+          return null
+        }
+      }
+    } catch (error) {
+      logger.error('Summarisation failed:', error instanceof Error ? error.message : String(error))
+      return null
+    }
+
+    summary = summary.trim()
+    return summary || null
+  }
+
+  /**
+   * Render a message as plain text for the summarisation prompt
+   */
+  private renderMessage(message: Message): string {
+    const speaker = message.role === 'user' ? 'User'
+      : message.role === 'assistant' ? 'Assistant'
+      : message.role === 'tool' ? 'Tool'
+      : 'System'
+
+    if (typeof message.content === 'string') {
+      return `${speaker}: ${message.content}`
+    }
+
+    const lines = message.content.map(block => {
+      switch (block.type) {
+        case 'text':
+          return `${speaker}: ${block.text}`
+        case 'image':
+          return `${speaker}: [Image]`
+        case 'tool_call':
+          return `Assistant called tool "${block.name}" with ${JSON.stringify(block.args ?? {})}`
+        case 'tool_result':
+          return `Tool "${block.toolName}" ${block.isError ? 'failed' : 'returned'}: ${this.truncateMiddle(block.content, this.maxToolResultChars)}`
+      }
+    })
+    return lines.join('\n')
+  }
+}
@@ -12,10 +12,12 @@
  */
 
 
-import type { LLMAdapter, ToolResult as LLMToolResult } from '../llm/adapter'
+import type { LLMAdapter, TokenUsage } from '../llm/adapter'
 import type { ToolRegistry, ToolResult, ExecutionContext } from './registry'
 import type { PolicyEngine, SessionContext } from './policy'
+import type { GrantProposal, GrantScope } from './grants'
 import { ToolExecutor } from './executor'
+import { getAuditLog } from './audit'
 import { Logger } from '../utils/logger'
 
 const logger = new Logger('Gateway')
@@ -30,11 +32,16 @@ export type AgentEvent =
   | { type: 'tool_start'; id: string; name: string; args: unknown }
   | { type: 'tool_pending'; id: string; name: string; args: unknown; prompt: string }
   | { type: 'tool_result'; id: string; name: string; result: ToolResult }
-  | { type: 'done'; fullResponse: string }
-  | { type: 'error'; message: string }
+  | { type: 'done'; fullResponse: string; messages: Message[]; usage?: TurnUsage }
+  | { type: 'error'; message: string; usage?: TurnUsage }
+
+/** Tokens used by all LLM calls of a turn (none when the API reported no usage) */
+export interface TurnUsage extends TokenUsage {
+  model: string
+}
 
 /** Agent input */
-import type { Message, ContentBlock } from '../types'
+import type { Message, ContentBlock, ToolCallBlock, ToolResultBlock } from '../types'
 
 /** Agent input */
 export interface AgentInput {
@@ -42,7 +49,31 @@ export interface AgentInput {
   history?: Message[]
   session: SessionContext
   systemPrompt?: string
-  onPermissionRequest?: (prompt: string) => Promise<boolean>
+  onPermissionRequest?: (prompt: string, request?: ApprovalRequest) => Promise<boolean | ApprovalAnswer>
+  /** Working directory for tools (the user's workspace, default: current directory) */
+  workDir?: string
+  /** Model of this request (the user's model profile, default: the gateway's) */
+  llm?: LLMAdapter
+}
+
+/** Details of an approval request, besides the prompt */
+export interface ApprovalRequest {
+  tool: string
+  /** Grant the user may choose instead of allowing once */
+  grant?: GrantProposal
+  /** Approvals needed from designated approvers instead of the requesting user */
+  approvers?: number
+}
+
+/** Answer to an approval request */
+export interface ApprovalAnswer {
+  approved: boolean
+  /** Who approved or denied (recorded in the audit log) */
+  approver?: string
+  /** Everyone who approved, when several approvals were needed */
+  approvers?: string[]
+  /** How long the approval holds (default: once) */
+  scope?: GrantScope
 }
 
 /** Agent configuration */
@@ -80,29 +111,33 @@ export class AgentGateway {
    * Handle user message
    */
   async *handleMessage(input: AgentInput): AsyncGenerator<AgentEvent> {
-    const { message, history, session, systemPrompt, onPermissionRequest } = input
+    const { message, history, session, systemPrompt, onPermissionRequest, workDir } = input
+    const llm = input.llm || this.llm
     
     // Build execution context
     const execContext: ExecutionContext = {
       userId: session.userId,
       chatId: session.chatId,
-      workDir: process.cwd()
+      workDir: workDir || process.cwd(),
+      allowedSkills: session.allowedSkills
     }
     
-    // Get tool schemas
-    const tools = this.registry.getSchemas()
+    // Get tool schemas (tools the user's role cannot use are not shown to the model)
+    const tools = this.registry.getSchemas(session)
     
     // Message history (prefer upstream conversation history)
     const messages: Message[] = history && history.length > 0
       ? [...history]
       : [{ role: 'user', content: message }]
     
+    // Messages produced during this turn (tool transcript + final answer)
+    const transcriptStart = messages.length
+    
     // Full response accumulator
     let fullResponse = ''
     
-    // Previous round tool results (persisted across iterations)
-    let lastToolResults: LLMToolResult[] = []
-    let previousResponseId: string | undefined
+    // Token usage, summed over the LLM calls of this turn
+    let usage: TurnUsage | undefined
     
     // Iterative processing (supports multi-round tool calls)
     for (let iteration = 0; iteration < this.config.maxIterations!; iteration++) {
@@ -111,31 +146,26 @@ export class AgentGateway {
       logger.info(`[Gateway] Calling LLM with ${messages.length} messages...`)
       
       // Collect current round tool calls
-      const pendingToolCalls: Array<{ id: string; name: string; args: unknown; meta?: Record<string, unknown> }> = []
-      let hasText = false
-      void hasText // Mark as used to suppress warning
-      
-      // Call LLM, pass in previous round tool results
-      const toolResults = lastToolResults.length > 0 ? lastToolResults : undefined
+      const pendingToolCalls: ToolCallBlock[] = []
+      let roundText = ''
       
       try {
-        for await (const event of this.llm.chat({
+        for await (const event of llm.chat({
           messages,
           tools,
-          toolResults,
-          systemPrompt,
-          previousResponseId
+          systemPrompt
         })) {
           switch (event.type) {
             case 'text_delta':
               fullResponse += event.content
-              hasText = true
+              roundText += event.content
               yield { type: 'text_delta', content: event.content }
               break
               
             case 'tool_call':
               if (event.name) {
                 pendingToolCalls.push({
+                  type: 'tool_call',
                   id: event.id,
                   name: event.name,
                   args: event.args,
@@ -147,16 +177,24 @@ export class AgentGateway {
               break
               
             case 'error':
-              yield { type: 'error', message: event.message }
+              yield { type: 'error', message: event.message, usage }
               return
               
             case 'done':
-              if (event.responseId) {
-                previousResponseId = event.responseId
+              if (event.usage) {
+                usage = {
+                  model: event.model || llm.model,
+                  promptTokens: (usage?.promptTokens || 0) + event.usage.promptTokens,
+                  completionTokens: (usage?.completionTokens || 0) + event.usage.completionTokens,
+                  totalTokens: (usage?.totalTokens || 0) + event.usage.totalTokens
+                }
               }
               // If no tool calls, return result
               if (pendingToolCalls.length === 0) {
-                yield { type: 'done', fullResponse }
+                if (roundText) {
+                  messages.push({ role: 'assistant', content: roundText })
+                }
+                yield { type: 'done', fullResponse, messages: messages.slice(transcriptStart), usage }
                 return
               }
               break
@@ -170,19 +208,30 @@ export class AgentGateway {
         if (err?.stack) {
           logger.error(`[Gateway] LLM call stack: ${err.stack}`)
         }
-        yield { type: 'error', message: err?.message || String(error) }
+        yield { type: 'error', message: err?.message || String(error), usage }
         return
       }
       
       // Process tool calls
       if (pendingToolCalls.length === 0) {
         logger.info(`[Gateway] No tool calls, returning fullResponse (${fullResponse.length} chars): ${fullResponse.slice(0, 100)}...`)
-        yield { type: 'done', fullResponse }
+        if (roundText) {
+          messages.push({ role: 'assistant', content: roundText })
+        }
+        yield { type: 'done', fullResponse, messages: messages.slice(transcriptStart), usage }
         return
       }
       
+      // Record the assistant turn (text + tool calls) in the transcript
+      const assistantContent: ContentBlock[] = []
+      if (roundText) {
+        assistantContent.push({ type: 'text', text: roundText })
+      }
+      assistantContent.push(...pendingToolCalls)
+      messages.push({ role: 'assistant', content: assistantContent })
+      
       // Collect tool results
-      const toolResultsForNextRound: LLMToolResult[] = []
+      const toolResultBlocks: ToolResultBlock[] = []
       
       for (const tc of pendingToolCalls) {
         yield { type: 'tool_start', id: tc.id, name: tc.name, args: tc.args }
@@ -192,11 +241,10 @@ export class AgentGateway {
         if (!toolDef) {
           const result: ToolResult = { success: false, error: `Tool not found: ${tc.name}` }
           yield { type: 'tool_result', id: tc.id, name: tc.name, result }
-          toolResultsForNextRound.push({
+          toolResultBlocks.push({
+            type: 'tool_result',
             toolCallId: tc.id,
             toolName: tc.name,
-            toolArgs: tc.args,
-            toolCallMeta: tc.meta,
             content: JSON.stringify(result),
             isError: true
           })
@@ -207,20 +255,15 @@ export class AgentGateway {
         const decision = await this.policy.evaluate({
           tool: toolDef,
           args: tc.args,
-          session
-        })
-        
-        // Log audit
-        this.policy.logAudit({
-          userId: session.userId,
-          chatId: session.chatId,
-          tool: tc.name,
-          args: tc.args,
-          decision
+          session,
+          workDir: execContext.workDir
         })
         
         // Process based on decision
         let result: ToolResult
+        let answer: ApprovalAnswer | undefined
+        let executed = false
+        let started = Date.now()
         
         if (decision.type === 'deny') {
           result = { success: false, error: decision.reason }
@@ -230,19 +273,35 @@ export class AgentGateway {
           yield { type: 'tool_pending', id: tc.id, name: tc.name, args: tc.args, prompt: decision.prompt }
           
           // Wait for user approval
-          let approved = false
+          answer = { approved: false }
           if (onPermissionRequest) {
-            approved = await onPermissionRequest(decision.prompt)
+            const response = await onPermissionRequest(decision.prompt, {
+              tool: tc.name,
+              grant: decision.grant,
+              approvers: decision.approvers
+            })
+            answer = typeof response === 'boolean' ? { approved: response } : response
+          }
+          
+          if (answer.approved && answer.scope && decision.grant) {
+            await this.policy.addGrant(session, decision.grant, answer.scope).catch((error) => {
+              logger.warn(`[Gateway] Failed to save grant: ${error instanceof Error ? error.message : String(error)}`)
+            })
           }
           
-          if (approved) {
+          if (answer.approved) {
+            started = Date.now()
             result = await this.executor.execute({
               toolName: tc.name,
               args: tc.args,
               context: execContext
             })
+            executed = true
           } else {
-            result = { success: false, error: 'User denied permission' }
+            result = {
+              success: false,
+              error: decision.reason ? `User denied permission: ${decision.reason}` : 'User denied permission'
+            }
           }
           yield { type: 'tool_result', id: tc.id, name: tc.name, result }
           
@@ -253,25 +312,43 @@ export class AgentGateway {
             args: tc.args,
             context: execContext
           })
+          executed = true
           yield { type: 'tool_result', id: tc.id, name: tc.name, result }
         }
         
-        toolResultsForNextRound.push({
+        // Audit: decision, approval and outcome
+        getAuditLog().record({
+          kind: 'tool',
+          userId: session.userId,
+          chatId: session.chatId,
+          tool: tc.name,
+          args: tc.args,
+          decision: decision.type,
+          rule: decision.rule,
+          reason: decision.type === 'deny' ? decision.reason : undefined,
+          approved: answer?.approved,
+          approver: answer?.approver,
+          approvers: answer?.approvers,
+          status: !executed ? 'denied' : result.success ? 'success' : 'error',
+          error: executed && !result.success ? result.error : undefined,
+          durationMs: executed ? Date.now() - started : undefined
+        })
+        
+        toolResultBlocks.push({
+          type: 'tool_result',
           toolCallId: tc.id,
           toolName: tc.name,
-          toolArgs: tc.args,
-          toolCallMeta: tc.meta,
           content: JSON.stringify(result),
           isError: !result.success
         })
       }
       
-      // Save for next round
-      lastToolResults = toolResultsForNextRound
+      // Record tool results for the next round
+      messages.push({ role: 'tool', content: toolResultBlocks })
     }
     
     // Max iterations exceeded
     logger.warn(`[Gateway] Max iterations (${this.config.maxIterations}) reached, stopping`)
-    yield { type: 'error', message: `Max iterations (${this.config.maxIterations}) reached. Task may be incomplete.` }
+    yield { type: 'error', message: `Max iterations (${this.config.maxIterations}) reached. Task may be incomplete.`, usage }
   }
 }
@@ -0,0 +1,244 @@
+/**
+ * Grants - remembered approvals
+ *
+ * Answering an approval prompt with "Allow for this session" or "Always allow
+ * this pattern" stores a grant for the user in that chat; later calls matching
+ * it are allowed by the PolicyEngine without prompting again.
+ *
+ * - `session` grants are kept in memory until the conversation is cleared or
+ *   OpenVia restarts
+ * - `always` grants are saved to `grants.json` in the config directory
+ *
+ * Patterns depend on the tool:
+ * - shell commands: `git push *` (the command with any arguments) for a single
+ *   simple command, or the exact command line for pipelines, lists,
+ *   redirections, wrapped commands (`sudo`, `sh -c`, ...) and destructive or
+ *   privileged commands (`rm -rf build` must not become `rm *`)
+ * - tools with path arguments: the path itself (`/home/me/app/src/index.ts`)
+ * - other tools: `*` (any arguments)
+ */
+import { randomBytes } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname, resolve } from 'node:path'
+import type { ToolDefinition } from './registry'
+import { analyzeShellCommand } from './shell-risk'
+import { matchGlob } from '../utils/glob'
+import { Logger } from '../utils/logger'
+
+const logger = new Logger('Grants')
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** How long an approval holds: this call only, the session, or always */
+export type GrantScope = 'once' | 'session' | 'always'
+
+/** Grant offered with an approval prompt */
+export interface GrantProposal {
+  tool: string
+  pattern: string
+}
+
+/** Remembered approval */
+export interface Grant extends GrantProposal {
+  id: string
+  userId: string
+  chatId: string
+  scope: Exclude<GrantScope, 'once'>
+  /** ISO timestamp */
+  createdAt: string
+}
+
+/** Matches any arguments */
+const ANY = '*'
+
+/** Suffix of a command pattern matching any arguments */
+const ANY_ARGS = ' *'
+
+// ============================================================================
+// Grant Store
+// ============================================================================
+
+export class GrantStore {
+  private file: string | null = null
+  private grants: Grant[] = []
+
+  /**
+   * Load the saved grants from `file`
+   */
+  async init(options: { file: string }): Promise<void> {
+    this.file = options.file
+    const session = this.grants.filter(grant => grant.scope === 'session')
+    try {
+      const data = JSON.parse(await readFile(this.file, 'utf-8')) as { grants?: Grant[] }
+      this.grants = [...(data.grants || []).filter(grant => grant.scope === 'always'), ...session]
+      logger.info(`Loaded ${this.grants.length - session.length} saved grants`)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to read ${this.file}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+      this.grants = session
+    }
+  }
+
+  /**
+   * Grant to offer for a tool call (null when the arguments cannot be matched)
+   */
+  propose(tool: ToolDefinition, args: unknown, workDir: string): GrantProposal | null {
+    if (tool.permissions.includes('shell')) {
+      const command = getCommand(args)
+      if (!command) return null
+      const words = isSimpleCommand(command) && !isDangerousCommand(command) ? command.split(' ') : null
+      if (!words) return { tool: tool.name, pattern: command }
+      // `git push origin` -> `git push *`, `npm run build` -> `npm run *`
+      const prefix = words.length > 1 && /^[a-z][\w-]*$/i.test(words[1]) ? words.slice(0, 2) : words.slice(0, 1)
+      return { tool: tool.name, pattern: `${prefix.join(' ')}${ANY_ARGS}` }
+    }
+
+    if (tool.pathArgs?.length) {
+      const [path] = getPaths(tool, args, workDir)
+      return path ? { tool: tool.name, pattern: path } : null
+    }
+
+    return { tool: tool.name, pattern: ANY }
+  }
+
+  /**
+   * Find a grant of the user allowing a tool call
+   */
+  match(session: { userId: string; chatId: string }, tool: ToolDefinition, args: unknown, workDir: string): Grant | undefined {
+    const grants = this.list(session.userId, session.chatId).filter(grant => grant.tool === tool.name)
+    if (grants.length === 0) return undefined
+
+    if (tool.permissions.includes('shell')) {
+      const command = getCommand(args)
+      if (!command) return undefined
+      // Wildcard grants (`git push *`) never cover destructive or privileged commands
+      const simple = isSimpleCommand(command) && !isDangerousCommand(command)
+      return grants.find((grant) => {
+        if (grant.pattern === command) return true
+        if (!simple || !grant.pattern.endsWith(ANY_ARGS)) return false
+        const prefix = grant.pattern.slice(0, -ANY_ARGS.length)
+        return command === prefix || command.startsWith(`${prefix} `)
+      })
+    }
+
+    if (tool.pathArgs?.length) {
+      const paths = getPaths(tool, args, workDir)
+      if (paths.length === 0) return undefined
+      return grants.find(grant => paths.every(path => path === grant.pattern || matchGlob(path, grant.pattern)))
+    }
+
+    return grants.find(grant => grant.pattern === ANY)
+  }
+
+  /**
+   * Remember an approval (an identical grant is reused)
+   */
+  async add(session: { userId: string; chatId: string }, proposal: GrantProposal, scope: Grant['scope']): Promise<Grant> {
+    const existing = this.grants.find(grant =>
+      grant.userId === session.userId && grant.chatId === session.chatId &&
+      grant.tool === proposal.tool && grant.pattern === proposal.pattern && grant.scope === scope
+    )
+    if (existing) return existing
+
+    const grant: Grant = {
+      id: randomBytes(4).toString('hex'),
+      userId: session.userId,
+      chatId: session.chatId,
+      tool: proposal.tool,
+      pattern: proposal.pattern,
+      scope,
+      createdAt: new Date().toISOString(),
+    }
+    this.grants.push(grant)
+    logger.info(`Granted ${grant.tool} \`${grant.pattern}\` to ${grant.userId} (${scope})`)
+    if (scope === 'always') await this.save()
+    return grant
+  }
+
+  /**
+   * Grants of a user in a chat, oldest first
+   */
+  list(userId: string, chatId: string): Grant[] {
+    return this.grants.filter(grant => grant.userId === userId && grant.chatId === chatId)
+  }
+
+  /**
+   * Revoke a grant of a user
+   *
+   * @returns Whether the grant existed
+   */
+  async revoke(userId: string, chatId: string, id: string): Promise<boolean> {
+    const grant = this.list(userId, chatId).find(g => g.id === id)
+    if (!grant) return false
+    this.grants = this.grants.filter(g => g !== grant)
+    if (grant.scope === 'always') await this.save()
+    return true
+  }
+
+  /**
+   * Revoke all grants of a user (or only the session grants)
+   *
+   * @returns Number of revoked grants
+   */
+  async clear(userId: string, chatId: string, scope?: Grant['scope']): Promise<number> {
+    const revoked = this.list(userId, chatId).filter(grant => !scope || grant.scope === scope)
+    if (revoked.length === 0) return 0
+    this.grants = this.grants.filter(grant => !revoked.includes(grant))
+    if (revoked.some(grant => grant.scope === 'always')) await this.save()
+    return revoked.length
+  }
+
+  private async save(): Promise<void> {
+    if (!this.file) return
+    const grants = this.grants.filter(grant => grant.scope === 'always')
+    await mkdir(dirname(this.file), { recursive: true })
+    await writeFile(this.file, JSON.stringify({ grants }, null, 2))
+  }
+}
+
+/** Command line of a shell tool call, with whitespace collapsed */
+function getCommand(args: unknown): string {
+  return ((args as { command?: string })?.command || '').trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * A single command without operators, redirections or wrappers, so
+ * `git push *` cannot match `git push; rm -rf ~`
+ */
+function isSimpleCommand(command: string): boolean {
+  const analysis = analyzeShellCommand(command)
+  return !analysis.error &&
+    analysis.operators.length === 0 &&
+    analysis.redirects.length === 0 &&
+    analysis.commands.length === 1 &&
+    analysis.commands[0].programs.length === 1 &&
+    !/[`$<>|;&\\]/.test(command)
+}
+
+/** Commands that delete data or gain privileges are only granted exactly */
+function isDangerousCommand(command: string): boolean {
+  const { risks } = analyzeShellCommand(command)
+  return risks.includes('destructive') || risks.includes('privilege')
+}
+
+/** Absolute paths of the path arguments of a call */
+function getPaths(tool: ToolDefinition, args: unknown, workDir: string): string[] {
+  const values = (args && typeof args === 'object' ? args : {}) as Record<string, unknown>
+  return (tool.pathArgs || [])
+    .map(name => values[name])
+    .filter((path): path is string => typeof path === 'string' && path.length > 0)
+    .map(path => resolve(workDir, path))
+}
+
+// Singleton
+let grantInstance: GrantStore | null = null
+
+export function getGrantStore(): GrantStore {
+  if (!grantInstance) {
+    grantInstance = new GrantStore()
+  }
+  return grantInstance
+}
@@ -4,5 +4,13 @@
 
 export * from './registry'
 export * from './policy'
+export type { PolicyRuleConfig, ArgMatcher, TimeWindow } from './policy-rules'
+export * from './shell-parser'
+export * from './shell-risk'
+export * from './sandbox'
+export * from './audit'
+export * from './grants'
+export * from './usage'
 export * from './executor'
 export * from './gateway'
+export * from './context-manager'
@@ -0,0 +1,298 @@
+/**
+ * Policy Rules - declarative rules from `policy.rules`
+ *
+ * Rules are checked in order; the first rule whose conditions all match decides.
+ *
+ * ```json
+ * { "tool": ["write_file", "edit_file"], "args": { "path": { "glob": "/etc/**" } },
+ *   "decision": "deny", "message": "System files are read-only" }
+ * ```
+ */
+import { isAbsolute, resolve } from 'node:path'
+import { expandHome, matchGlob } from '../utils/glob'
+import { analyzeShellCommand, type ShellRisk } from './shell-risk'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RuleDecision = 'allow' | 'deny' | 'require_approval'
+
+/** Matcher for one tool argument */
+export interface ArgMatcher {
+  /** Path glob(s); absolute globs (or `~/...`) are matched against the resolved path */
+  glob?: string | string[]
+  /** Regular expression (e.g. for bash commands) */
+  regex?: string
+  /** Regular expression flags (e.g. `i`) */
+  flags?: string
+  /** Exact value */
+  equals?: string | number | boolean
+}
+
+/** Time window (`days` and/or `from`-`to`, in `timezone` or the local time zone) */
+export interface TimeWindow {
+  /** Days of the week: mon, tue, wed, thu, fri, sat, sun */
+  days?: string[]
+  /** Start time `HH:MM` (inclusive) */
+  from?: string
+  /** End time `HH:MM` (exclusive, may be before `from` for overnight windows) */
+  to?: string
+  /** IANA time zone (e.g. Asia/Shanghai) */
+  timezone?: string
+}
+
+/** Rule as written in `policy.rules` */
+export interface PolicyRuleConfig {
+  name?: string
+  /** Tool name glob(s) (default: all tools) */
+  tool?: string | string[]
+  /** Argument matchers (argument name -> matcher) */
+  args?: Record<string, ArgMatcher>
+  /** User IDs the rule applies to */
+  users?: Array<string | number>
+  /** Channel IDs the rule applies to (e.g. telegram, slack, openai, mcp) */
+  channels?: string[]
+  /** Time window(s) in which the rule applies */
+  time?: TimeWindow | TimeWindow[]
+  /** Shell risk(s) of the `command` argument, any of which the command must have */
+  risk?: ShellRisk | ShellRisk[]
+  decision: RuleDecision
+  /** Deny reason, or text added to the approval prompt */
+  message?: string
+  /**
+   * Approvals needed from designated approvers (`approvals.approvers`);
+   * the requesting user cannot approve unless they are one (require_approval only)
+   */
+  approvers?: number
+}
+
+/** Compiled argument matcher */
+interface CompiledArgMatcher {
+  globs?: string[]
+  regex?: RegExp
+  equals?: string | number | boolean
+}
+
+/** Compiled time window (minutes since midnight) */
+interface CompiledTimeWindow {
+  days?: number[]
+  from?: number
+  to?: number
+  timezone?: string
+}
+
+/** Conditions of a rule besides the tool name */
+export interface RuleConditions {
+  args?: Record<string, CompiledArgMatcher>
+  userIds?: string[]
+  channelIds?: string[]
+  timeWindows?: CompiledTimeWindow[]
+  risks?: ShellRisk[]
+}
+
+/** Call a rule is matched against */
+export interface RuleMatchInput {
+  toolName: string
+  args: unknown
+  userId: string
+  channelId: string
+  /** Directory relative paths are resolved against */
+  workDir: string
+  now?: Date
+}
+
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+const DECISIONS: RuleDecision[] = ['allow', 'deny', 'require_approval']
+const RISKS: ShellRisk[] = ['read_only', 'writes', 'network', 'destructive', 'privilege', 'unknown']
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+/**
+ * Validate and compile a rule from config
+ *
+ * @throws Error describing the invalid field
+ */
+export function compileRule(config: PolicyRuleConfig, index: number): {
+  name: string
+  toolPatterns: string[]
+  decision: RuleDecision
+  reason?: string
+  approvers?: number
+  conditions: RuleConditions
+} {
+  const name = config.name || `rule ${index + 1}`
+  const fail = (message: string): never => {
+    throw new Error(`Invalid policy rule "${name}": ${message}`)
+  }
+
+  if (!DECISIONS.includes(config.decision)) {
+    fail(`decision must be one of ${DECISIONS.join(', ')}`)
+  }
+
+  if (config.approvers !== undefined) {
+    if (!Number.isInteger(config.approvers) || config.approvers < 1) {
+      fail('approvers must be a positive integer')
+    }
+    if (config.decision !== 'require_approval') {
+      fail('approvers needs decision "require_approval"')
+    }
+  }
+
+  const conditions: RuleConditions = {}
+
+  if (config.args) {
+    conditions.args = {}
+    for (const [field, matcher] of Object.entries(config.args)) {
+      if (!matcher || (matcher.glob === undefined && matcher.regex === undefined && matcher.equals === undefined)) {
+        fail(`args.${field} needs glob, regex or equals`)
+      }
+      let regex: RegExp | undefined
+      if (matcher.regex !== undefined) {
+        try {
+          regex = new RegExp(matcher.regex, matcher.flags)
+        } catch (error) {
+          fail(`args.${field}.regex: ${error instanceof Error ? error.message : String(error)}`)
+        }
+      }
+      conditions.args[field] = {
+        globs: matcher.glob === undefined ? undefined : toList(matcher.glob),
+        regex,
+        equals: matcher.equals,
+      }
+    }
+  }
+
+  if (config.users) conditions.userIds = config.users.map(id => String(id).trim())
+  if (config.channels) conditions.channelIds = config.channels.map(id => String(id).trim())
+  if (config.time) {
+    conditions.timeWindows = toList(config.time).map((window) => {
+      const days = window.days?.map((day) => {
+        const value = DAYS.indexOf(String(day).slice(0, 3).toLowerCase())
+        return value >= 0 ? value : fail(`unknown day "${day}"`)
+      })
+      const from = window.from === undefined ? undefined : parseTime(window.from) ?? fail(`time.from must be HH:MM`)
+      const to = window.to === undefined ? undefined : parseTime(window.to) ?? fail(`time.to must be HH:MM`)
+      if (window.timezone) {
+        try {
+          new Intl.DateTimeFormat('en-US', { timeZone: window.timezone })
+        } catch {
+          fail(`unknown time zone "${window.timezone}"`)
+        }
+      }
+      return { days, from, to, timezone: window.timezone }
+    })
+  }
+  if (config.risk) {
+    conditions.risks = toList(config.risk).map(risk =>
+      RISKS.includes(risk) ? risk : fail(`risk must be one of ${RISKS.join(', ')}`)
+    )
+  }
+
+  return {
+    name,
+    toolPatterns: config.tool === undefined ? ['*'] : toList(config.tool),
+    decision: config.decision,
+    reason: config.message,
+    approvers: config.approvers,
+    conditions,
+  }
+}
+
+function toList<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value]
+}
+
+function parseTime(value: string): number | undefined {
+  const match = String(value).match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) return undefined
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  return hours <= 24 && minutes < 60 ? hours * 60 + minutes : undefined
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Match a tool name against a pattern (`*` = any characters)
+ */
+export function matchToolPattern(name: string, pattern: string): boolean {
+  if (pattern === '*') return true
+  return matchGlob(name, pattern)
+}
+
+/**
+ * Check the conditions of a rule (tool name is checked separately)
+ */
+export function matchConditions(conditions: RuleConditions, input: RuleMatchInput): boolean {
+  if (conditions.userIds && !conditions.userIds.includes(String(input.userId))) return false
+  if (conditions.channelIds && !conditions.channelIds.includes(input.channelId)) return false
+  if (conditions.timeWindows && !conditions.timeWindows.some(w => inTimeWindow(w, input.now || new Date()))) return false
+  if (conditions.risks && !matchRisks(input.args, conditions.risks)) return false
+
+  if (conditions.args) {
+    const args = (input.args && typeof input.args === 'object' ? input.args : {}) as Record<string, unknown>
+    for (const [field, matcher] of Object.entries(conditions.args)) {
+      if (!matchArg(args[field], matcher, input.workDir)) return false
+    }
+  }
+  return true
+}
+
+function matchArg(value: unknown, matcher: CompiledArgMatcher, workDir: string): boolean {
+  if (value === undefined || value === null) return false
+  if (matcher.equals !== undefined && value !== matcher.equals) return false
+
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  if (matcher.regex && !matcher.regex.test(text)) return false
+
+  if (matcher.globs) {
+    const raw = text.replace(/\\/g, '/')
+    const resolved = resolve(workDir, expandHome(text)).replace(/\\/g, '/')
+    const matched = matcher.globs.some((glob) => {
+      const pattern = expandHome(glob).replace(/\\/g, '/')
+      return isAbsolute(pattern) ? matchGlob(resolved, pattern) : matchGlob(raw, pattern)
+    })
+    if (!matched) return false
+  }
+  return true
+}
+
+/** Whether the `command` argument has any of the risks */
+function matchRisks(args: unknown, risks: ShellRisk[]): boolean {
+  const command = (args as { command?: unknown })?.command
+  if (typeof command !== 'string') return false
+  return analyzeShellCommand(command).risks.some(risk => risks.includes(risk))
+}
+
+function inTimeWindow(window: CompiledTimeWindow, now: Date): boolean {
+  const { day, minutes } = localTime(now, window.timezone)
+  if (window.days && !window.days.includes(day)) return false
+
+  const from = window.from ?? 0
+  const to = window.to ?? 24 * 60
+  // Overnight window (e.g. 22:00-06:00)
+  return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to
+}
+
+function localTime(now: Date, timezone?: string): { day: number; minutes: number } {
+  if (!timezone) {
+    return { day: now.getDay(), minutes: now.getHours() * 60 + now.getMinutes() }
+  }
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+  const get = (type: string) => parts.find(p => p.type === type)?.value || ''
+  return {
+    day: DAYS.indexOf(get('weekday').slice(0, 3).toLowerCase()),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  }
+}
@@ -8,27 +8,39 @@
  * - 璁板綍瀹¤鏃ュ織
  */
 
-import type { ToolDefinition } from './registry'
-import { Logger } from '../utils/logger'
-
-const logger = new Logger('PolicyEngine')
-
+import { isToolAllowed, type ToolDefinition } from './registry'
+import { analyzeShellCommand, formatShellRisks, isReadOnlyShell, normalizeProgram, type ShellAnalysis } from './shell-risk'
+import type { FileSandbox } from './sandbox'
+import type { GrantProposal, GrantScope, GrantStore } from './grants'
+import { compileRule, matchConditions, matchToolPattern, type PolicyRuleConfig, type RuleConditions } from './policy-rules'
 // ============================================================================
 // 绫诲瀷瀹氫箟
 // ============================================================================
 
 /** 绛栫暐鍐崇瓥 */
 export type PolicyDecision =
-  | { type: 'allow' }
-  | { type: 'deny'; reason: string }
-  | { type: 'require_approval'; prompt: string }
+  | { type: 'allow'; rule?: string }
+  | { type: 'deny'; reason: string; rule?: string }
+  | {
+      type: 'require_approval'
+      prompt: string
+      rule?: string
+      reason?: string
+      grant?: GrantProposal
+      /** Approvals needed from designated approvers instead of the requesting user */
+      approvers?: number
+    }
 
 /** Session 涓婁笅鏂?*/
 export interface SessionContext {
   userId: string
   chatId: string
-  allowedTools?: string[]  // 濡傛灉鎸囧畾锛屽彧鍏佽杩欎簺宸ュ叿
-  deniedTools?: string[]   // 濡傛灉鎸囧畾锛岀鐢ㄨ繖浜涘伐鍏?
+  /** Tool name globs the user may use (none = all) */
+  allowedTools?: string[]
+  /** Tool name globs the user may not use */
+  deniedTools?: string[]
+  /** Skill IDs the user may read (none = all) */
+  allowedSkills?: string[]
 }
 
 /** 绛栫暐瑙勫垯 */
@@ -36,22 +48,19 @@ export interface PolicyRule {
   /** 瑙勫垯鍚嶇О */
   name: string
   /** 鍖归厤宸ュ叿鍚嶇О锛堟敮鎸侀€氶厤绗?*锛?*/
-  toolPattern: string
+  toolPattern: string | string[]
   /** 鍐崇瓥绫诲瀷 */
   decision: 'allow' | 'deny' | 'require_approval'
   /** 鍘熷洜/鎻愮ず */
   reason?: string
+  /** Extra conditions (arguments, users, channels, time windows, shell risks) */
+  conditions?: RuleConditions
+  /** Approvals needed from designated approvers (require_approval only) */
+  approvers?: number
 }
 
-/** 瀹¤鏃ュ織鏉＄洰 */
-export interface AuditEntry {
-  timestamp: number
-  userId: string
-  chatId: string
-  tool: string
-  args: unknown
-  decision: PolicyDecision
-}
+/** Disk quota check: why writing to the working directory is denied, or null */
+export type DiskQuotaCheck = (workDir: string) => Promise<string | null>
 
 // ============================================================================
 // Policy Engine 瀹炵幇
@@ -59,13 +68,14 @@ export interface AuditEntry {
 
 export class PolicyEngine {
   private rules: PolicyRule[] = []
-  private auditLog: AuditEntry[] = []
-  private maxAuditEntries = 1000
+  private sandbox: FileSandbox | null = null
+  private diskQuota: DiskQuotaCheck | null = null
+  private grants: GrantStore | null = null
   
   // 闇€瑕佺‘璁ょ殑 Shell 鍛戒护鍒楄〃
   private shellConfirmList: string[] = [
     'rm', 'mv', 'sudo', 'su', 'dd', 'reboot', 'shutdown', 
-    'mkfs', 'chmod', 'chown', '>', '>>', '|'
+    'mkfs', 'chmod', 'chown'
   ]
   
   constructor(options?: { shellConfirmList?: string[] }) {
@@ -80,6 +90,48 @@ export class PolicyEngine {
   addRule(rule: PolicyRule): void {
     this.rules.push(rule)
   }
+
+  /**
+   * Set the file sandbox checking the path arguments of tools (null = off)
+   */
+  setSandbox(sandbox: FileSandbox | null): void {
+    this.sandbox = sandbox
+  }
+
+  /**
+   * Set the disk quota check for the working directory (null = off)
+   */
+  setDiskQuota(check: DiskQuotaCheck | null): void {
+    this.diskQuota = check
+  }
+
+  /**
+   * Set the store of remembered approvals (null = always prompt)
+   */
+  setGrants(store: GrantStore | null): void {
+    this.grants = store
+  }
+
+  /**
+   * Remember an approval answered with "Allow for this session" or "Always allow"
+   */
+  async addGrant(session: SessionContext, proposal: GrantProposal, scope: GrantScope): Promise<void> {
+    if (!this.grants || scope === 'once') return
+    await this.grants.add(session, proposal, scope)
+  }
+
+  /**
+   * Add rules from `policy.rules` (validated, in order)
+   *
+   * @throws Error if a rule is invalid
+   */
+  addRules(configs: PolicyRuleConfig[]): void {
+    const rules = configs.map((config, index) => {
+      const { toolPatterns, ...rule } = compileRule(config, index)
+      return { ...rule, toolPattern: toolPatterns }
+    })
+    this.rules.push(...rules)
+  }
   
   /**
    * 璁剧疆 Shell 纭鍒楄〃
@@ -89,72 +141,108 @@ export class PolicyEngine {
   }
 
   /**
-   * Allow common read-only shell queries by default.
-   * This covers Windows PowerShell and typical Linux commands.
+   * Whether a command runs a program (or a command prefix such as `git push`)
+   * or uses an operator (`|`, `>`, ...) from the Shell confirm list
    */
-  private isSafeReadOnlyShellCommand(command: string): boolean {
-    const raw = command.trim()
-    if (!raw) return false
-
-    // Block obvious command chaining or redirection first.
-    if (/[;&]|&&|\|\||`|\$\(.*\)|>>?|<</.test(raw)) {
-      return false
-    }
-
-    const normalized = raw.toLowerCase()
-    const safePatterns: RegExp[] = [
-      // Time/date/timezone
-      /^get-date(?:\s+[-\w"':.]+)*$/i,
-      /^get-timezone(?:\s+[-\w"':.]+)*$/i,
-      /^date(?:\s+[-+%:\w"'.]+)*$/i,
-      /^timedatectl(?:\s+(?:status|show))?(?:\s+[-\w=:.]+)*$/i,
-      /^hwclock(?:\s+(?:--show|-r))?(?:\s+[-\w=:.]+)*$/i,
-      /^w32tm(?:\s+\/query)?(?:\s+\/status)?(?:\s+\/verbose)?$/i,
-      /^tzutil\s+\/g$/i,
-      // Identity/system info
-      /^whoami(?:\s+\/(?:user|groups|priv))?$/i,
-      /^hostname$/i,
-      /^uname(?:\s+-[asnrvmpio]+)?$/i,
-      /^uptime(?:\s+-(?:p|s))?$/i,
-      /^get-location$/i,
-      /^pwd$/i,
-    ]
-
-    return safePatterns.some((pattern) => pattern.test(normalized))
+  private matchShellConfirmList(analysis: ShellAnalysis): string | undefined {
+    return this.shellConfirmList.find((item) => {
+      if (analysis.operators.includes(item) || analysis.redirects.includes(item)) return true
+      const [program, ...prefix] = item.trim().split(/\s+/)
+      return analysis.commands.some((command) => {
+        if (prefix.length === 0) return command.programs.includes(normalizeProgram(program))
+        const words = command.command.split(/\s+/)
+        return normalizeProgram(words[0]) === normalizeProgram(program) && prefix.every((word, i) => words[i + 1] === word)
+      })
+    })
   }
   
   /**
-   * 璇勪及宸ュ叿璋冪敤
+   * Evaluate a tool call
+   *
+   * Calls that need approval are allowed when the user has a matching grant;
+   * otherwise the grant the user may choose is attached to the prompt. Sandbox
+   * approvals (paths outside the roots) and approvals that need designated
+   * approvers are never remembered.
    */
   async evaluate(input: {
     tool: ToolDefinition
     args: unknown
     session: SessionContext
+    /** Working directory relative path arguments are resolved against */
+    workDir?: string
+  }): Promise<PolicyDecision> {
+    const decision = await this.decide(input)
+    if (decision.type !== 'require_approval' || decision.rule === 'sandbox' || decision.approvers || !this.grants) {
+      return decision
+    }
+
+    const workDir = input.workDir || process.cwd()
+    const grant = this.grants.match(input.session, input.tool, input.args, workDir)
+    if (grant) {
+      return { type: 'allow', rule: `grant:${grant.id}` }
+    }
+    const proposal = this.grants.propose(input.tool, input.args, workDir)
+    return proposal ? { ...decision, grant: proposal } : decision
+  }
+
+  /**
+   * Decide from the session lists, disk quota, sandbox, rules and built-in defaults
+   */
+  private async decide(input: {
+    tool: ToolDefinition
+    args: unknown
+    session: SessionContext
+    /** Working directory relative path arguments are resolved against */
+    workDir?: string
   }): Promise<PolicyDecision> {
     const { tool, args, session } = input
     
     // 1. 妫€鏌ョ敤鎴风骇宸ュ叿鐧藉悕鍗?榛戝悕鍗?
-    if (session.deniedTools?.includes(tool.name)) {
-      return { type: 'deny', reason: `Tool "${tool.name}" is denied for this user` }
+    if (!isToolAllowed({ deniedTools: session.deniedTools }, tool.name)) {
+      return { type: 'deny', reason: `Tool "${tool.name}" is denied for this user`, rule: 'role' }
+    }
+    
+    if (!isToolAllowed({ allowedTools: session.allowedTools }, tool.name)) {
+      return { type: 'deny', reason: `Tool "${tool.name}" is not in allowed list`, rule: 'role' }
     }
     
-    if (session.allowedTools && !session.allowedTools.includes(tool.name)) {
-      return { type: 'deny', reason: `Tool "${tool.name}" is not in allowed list` }
+    // Disk quota: once the workspace is full, tools that write are denied
+    const quota = await this.checkDiskQuota(tool, args, input.workDir)
+    if (quota) {
+      return quota
     }
     
     // 2. 妫€鏌ヨ嚜瀹氫箟瑙勫垯
+    // File sandbox: denied paths are final, paths outside the roots always need approval
+    const sandbox = await this.checkSandbox(tool, args, session, input.workDir)
+    if (sandbox?.type === 'deny') {
+      return sandbox
+    }
+    
     for (const rule of this.rules) {
-      if (this.matchPattern(tool.name, rule.toolPattern)) {
+      if (this.matchRule(rule, { tool, args, session, workDir: input.workDir })) {
+        if (sandbox && rule.decision !== 'deny') {
+          return rule.decision === 'require_approval' && rule.approvers ? { ...sandbox, approvers: rule.approvers } : sandbox
+        }
         if (rule.decision === 'allow') {
-          return { type: 'allow' }
+          return { type: 'allow', rule: rule.name }
         } else if (rule.decision === 'deny') {
-          return { type: 'deny', reason: rule.reason || 'Denied by policy rule' }
+          return { type: 'deny', reason: rule.reason || `Denied by policy rule "${rule.name}"`, rule: rule.name }
         } else {
-          return { type: 'require_approval', prompt: rule.reason || `Approve ${tool.name}?` }
+          return {
+            type: 'require_approval',
+            prompt: this.formatRulePrompt(rule, tool.name, args),
+            rule: rule.name,
+            approvers: rule.approvers,
+          }
         }
       }
     }
     
+    if (sandbox) {
+      return sandbox
+    }
+    
     // 3. 鍐呯疆瑙勫垯锛氬彧璇诲伐鍏疯嚜鍔ㄥ厑璁?
     const readOnlyTools = ['read', 'read_file', 'list', 'ls', 'search', 'grep', 'glob', 'view']
     if (readOnlyTools.some(t => tool.name.toLowerCase().includes(t))) {
@@ -164,20 +252,20 @@ export class PolicyEngine {
     // 4. 鍐呯疆瑙勫垯锛欱ash 鍛戒护妫€鏌?
     if (tool.name.toLowerCase() === 'bash' || tool.name.toLowerCase() === 'shell') {
       const command = (args as { command?: string })?.command || ''
+      const analysis = analyzeShellCommand(command)
+      const confirmItem = this.matchShellConfirmList(analysis)
 
-      if (this.isSafeReadOnlyShellCommand(command)) {
+      // Only commands that just read and match nothing on the confirm list run without approval
+      const readOnly = isReadOnlyShell(analysis)
+      if (readOnly && !confirmItem) {
         return { type: 'allow' }
       }
 
-      const requiresConfirmation = this.shellConfirmList.some(item => command.includes(item))
-      
-      if (requiresConfirmation) {
-        return {
-          type: 'require_approval',
-          prompt: `Permission Request\n\nTool: \`${tool.name}\`\nCommand:\n\`\`\`\n${command}\n\`\`\``
-        }
+      const risks = formatShellRisks(analysis) + (readOnly ? `\n- \`${confirmItem}\` is on the confirm list` : '')
+      return {
+        type: 'require_approval',
+        prompt: `Permission Request\n\nTool: \`${tool.name}\`\nCommand:\n\`\`\`\n${command}\n\`\`\`\n${risks}`
       }
-      return { type: 'allow' }
     }
     
     // 5. 鍐欏叆绫绘搷浣滈渶瑕佺‘璁?
@@ -195,48 +283,104 @@ export class PolicyEngine {
     // 6. 榛樿锛氶渶瑕佺‘璁?
     return {
       type: 'require_approval',
-      prompt: `Permission Request\n\nTool: \`${tool.name}\`\nArgs: \`${JSON.stringify(args).slice(0, 100)}...\``
+      prompt: this.formatArgsPrompt(tool.name, args)
     }
   }
   
   /**
-   * 璁板綍瀹¤鏃ュ織
+   * Check the path arguments of a tool against the file sandbox
+   *
+   * @returns The first path that is denied or needs approval, or null
    */
-  logAudit(entry: Omit<AuditEntry, 'timestamp'>): void {
-    const fullEntry: AuditEntry = {
-      ...entry,
-      timestamp: Date.now()
-    }
+  private async checkSandbox(
+    tool: ToolDefinition,
+    args: unknown,
+    session: SessionContext,
+    workDir?: string
+  ): Promise<Extract<PolicyDecision, { type: 'deny' | 'require_approval' }> | null> {
+    if (!this.sandbox || !tool.pathArgs) return null
     
-    this.auditLog.push(fullEntry)
+    const values = (args && typeof args === 'object' ? args : {}) as Record<string, unknown>
+    for (const name of tool.pathArgs) {
+      const path = values[name]
+      if (typeof path !== 'string') continue
+      
+      const result = await this.sandbox.check({
+        path,
+        workDir: workDir || process.cwd(),
+        userId: session.userId,
+        channelId: session.chatId,
+      })
+      if (result.type === 'deny') {
+        return { type: 'deny', reason: result.reason, rule: 'sandbox' }
+      }
+      if (result.type === 'require_approval') {
+        return {
+          type: 'require_approval',
+          prompt: `Permission Request\n\nTool: \`${tool.name}\`\nFile: \`${result.path}\`\n\n${result.reason}`,
+          rule: 'sandbox',
+          reason: result.reason,
+        }
+      }
+    }
+    return null
+  }
+  
+  /**
+   * Check the disk quota for tools that write files
+   *
+   * Shell commands that only read or delete stay possible, so space can be freed.
+   */
+  private async checkDiskQuota(
+    tool: ToolDefinition,
+    args: unknown,
+    workDir?: string
+  ): Promise<Extract<PolicyDecision, { type: 'deny' }> | null> {
+    if (!this.diskQuota || !workDir) return null
     
-    // 鎴柇
-    if (this.auditLog.length > this.maxAuditEntries) {
-      this.auditLog.splice(0, this.auditLog.length - this.maxAuditEntries)
+    let writes = tool.permissions.includes('write')
+    if (tool.permissions.includes('shell')) {
+      const analysis = analyzeShellCommand((args as { command?: string })?.command || '')
+      writes = analysis.risks.some(risk => risk !== 'read_only' && risk !== 'destructive')
     }
+    if (!writes) return null
     
-    // 鎺у埗鍙拌緭鍑?
-    const status = entry.decision.type === 'allow' ? 'ALLOW' : 
-                   entry.decision.type === 'deny' ? 'DENY' : 'PENDING'
-    logger.info(`[Audit] ${status} User:${entry.userId} Tool:${entry.tool}`)
+    const reason = await this.diskQuota(workDir)
+    return reason ? { type: 'deny', reason, rule: 'quota' } : null
   }
   
   /**
-   * 鑾峰彇瀹¤鏃ュ織
+   * Approval prompt of a rule: the arguments followed by the rule's message
+   */
+  private formatRulePrompt(rule: PolicyRule, toolName: string, args: unknown): string {
+    const prompt = this.formatArgsPrompt(toolName, args)
+    return rule.reason ? `${prompt}\n\n${rule.reason}` : prompt
+  }
+
+  /**
+   * Approval prompt showing the tool and (truncated) arguments
    */
-  getAuditLog(limit = 100): AuditEntry[] {
-    return this.auditLog.slice(-limit)
+  private formatArgsPrompt(toolName: string, args: unknown): string {
+    return `Permission Request\n\nTool: \`${toolName}\`\nArgs: \`${JSON.stringify(args).slice(0, 100)}...\``
   }
   
   /**
-   * 鍖归厤宸ュ叿鍚嶇О妯″紡
+   * Match a rule: tool name pattern(s), then its conditions
    */
-  private matchPattern(name: string, pattern: string): boolean {
-    if (pattern === '*') return true
-    if (pattern.endsWith('*')) {
-      return name.startsWith(pattern.slice(0, -1))
-    }
-    return name === pattern
+  private matchRule(
+    rule: PolicyRule,
+    input: { tool: ToolDefinition; args: unknown; session: SessionContext; workDir?: string }
+  ): boolean {
+    const patterns = Array.isArray(rule.toolPattern) ? rule.toolPattern : [rule.toolPattern]
+    if (!patterns.some(pattern => matchToolPattern(input.tool.name, pattern))) return false
+    if (!rule.conditions) return true
+    return matchConditions(rule.conditions, {
+      toolName: input.tool.name,
+      args: input.args,
+      userId: input.session.userId,
+      channelId: input.session.chatId,
+      workDir: input.workDir || process.cwd(),
+    })
   }
 }
 
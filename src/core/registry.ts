@@ -10,6 +10,7 @@
 import { z } from 'zod'
 import type { ToolSchema } from '../llm/adapter'
 import { Logger } from '../utils/logger'
+import { matchToolPattern } from './policy-rules'
 
 const logger = new Logger('ToolRegistry')
 
@@ -29,6 +30,24 @@ export interface ExecutionContext {
   userId: string
   chatId: string
   workDir: string
+  /** Skill IDs the user may read (none = all) */
+  allowedSkills?: string[]
+}
+
+/** Tools a session may use (tool name globs) */
+export interface ToolAccess {
+  /** Only these tools (none = all) */
+  allowedTools?: string[]
+  /** Never these tools */
+  deniedTools?: string[]
+}
+
+/**
+ * Whether a session may use a tool
+ */
+export function isToolAllowed(access: ToolAccess | undefined, name: string): boolean {
+  if (access?.deniedTools?.some(pattern => matchToolPattern(name, pattern))) return false
+  return !access?.allowedTools || access.allowedTools.some(pattern => matchToolPattern(name, pattern))
 }
 
 /** 宸ュ叿瀹氫箟 */
@@ -39,6 +58,10 @@ export interface ToolDefinition {
   description: string
   /** 杈撳叆鍙傛暟 Schema锛圸od锛?*/
   inputSchema: z.ZodType<unknown>
+  /** JSON Schema sent to the model as-is (tools defined outside OpenVia, e.g. MCP) */
+  jsonSchema?: Record<string, unknown>
+  /** Arguments holding file paths, checked by the file sandbox */
+  pathArgs?: string[]
   /** 鎵€闇€鏉冮檺鏍囩 */
   permissions: string[]
   /** 鎵ц鍑芥暟 */
@@ -72,6 +95,17 @@ export class ToolRegistry {
     }
   }
   
+  /**
+   * Remove a tool
+   */
+  unregister(name: string): boolean {
+    const removed = this.tools.delete(name)
+    if (removed) {
+      logger.info(`[ToolRegistry] Unregistered tool: ${name}`)
+    }
+    return removed
+  }
+  
   /**
    * 鑾峰彇宸ュ叿瀹氫箟
    */
@@ -87,14 +121,16 @@ export class ToolRegistry {
   }
   
   /**
-   * 鑾峰彇鎵€鏈夊伐鍏风殑 Schema锛堢粰 LLM 鐪嬶級
+   * Tool schemas shown to the LLM (only the tools the session may use)
    */
-  getSchemas(): ToolSchema[] {
-    return Array.from(this.tools.values()).map(tool => ({
-      name: tool.name,
-      description: tool.description,
-      input_schema: this.zodToJsonSchema(tool.inputSchema)
-    }))
+  getSchemas(access?: ToolAccess): ToolSchema[] {
+    return Array.from(this.tools.values())
+      .filter(tool => isToolAllowed(access, tool.name))
+      .map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.jsonSchema || this.zodToJsonSchema(tool.inputSchema)
+      }))
   }
   
   /**
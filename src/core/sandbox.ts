@@ -0,0 +1,140 @@
+/**
+ * File Sandbox - allowed roots and denied globs for file tools
+ *
+ * Checks the path arguments of tools that declare `pathArgs` (read_file,
+ * write_file, edit_file). Paths are resolved against the working directory and
+ * through symlinks (the longest existing ancestor is resolved with realpath),
+ * so `link -> /etc` or `../../etc` cannot leave a root.
+ *
+ * - A path matching a denied glob is denied
+ * - A path outside every allowed root is denied or needs approval (`outsideRoots`)
+ */
+import { realpath } from 'node:fs/promises'
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'node:path'
+import { expandHome, matchGlob } from '../utils/glob'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Roots and denied globs for some users or channels */
+export interface SandboxOverride {
+  /** User IDs the override applies to (default: all) */
+  users?: Array<string | number>
+  /** Channel IDs the override applies to (default: all) */
+  channels?: string[]
+  /** Allowed roots, replacing the default roots */
+  roots?: string[]
+  /** Denied globs, added to the default ones */
+  deny?: string[]
+}
+
+/** Sandbox configuration (`sandbox`) */
+export interface SandboxConfig {
+  /** Default: true */
+  enabled?: boolean
+  /** Allowed roots; relative roots are resolved against the working directory (default: ["."]) */
+  roots?: string[]
+  /** Denied globs; globs without a leading `/` or `~` match at any depth (e.g. `.env`) */
+  deny?: string[]
+  /** Decision for paths outside the roots (default: require_approval) */
+  outsideRoots?: 'deny' | 'require_approval'
+  /** Per-user / per-channel roots and denied globs, applied in order */
+  overrides?: SandboxOverride[]
+}
+
+/** Result of a sandbox check */
+export type SandboxDecision =
+  | { type: 'allow'; path: string }
+  | { type: 'deny' | 'require_approval'; path: string; reason: string }
+
+// ============================================================================
+// Path Resolution
+// ============================================================================
+
+/**
+ * Resolve a path through symlinks; missing trailing segments are appended
+ * to the resolved path of the longest existing ancestor
+ */
+export async function resolveRealPath(path: string): Promise<string> {
+  try {
+    return await realpath(path)
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code
+    const parent = dirname(path)
+    if ((code !== 'ENOENT' && code !== 'ENOTDIR') || parent === path) return path
+    return join(await resolveRealPath(parent), basename(path))
+  }
+}
+
+/**
+ * Whether `path` is `root` or inside it
+ */
+export function isWithin(root: string, path: string): boolean {
+  const rel = relative(root, path)
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel))
+}
+
+function toSlashes(path: string): string {
+  return path.replace(/\\/g, '/')
+}
+
+// ============================================================================
+// Sandbox
+// ============================================================================
+
+export class FileSandbox {
+  private outsideRoots: 'deny' | 'require_approval'
+
+  constructor(private config: SandboxConfig = {}) {
+    this.outsideRoots = config.outsideRoots || 'require_approval'
+  }
+
+  /**
+   * Roots and denied globs for a user in a channel
+   */
+  getScope(userId: string, channelId: string): { roots: string[]; deny: string[] } {
+    let roots = this.config.roots?.length ? this.config.roots : ['.']
+    const deny = [...(this.config.deny || [])]
+
+    for (const override of this.config.overrides || []) {
+      if (override.users && !override.users.map(String).includes(String(userId))) continue
+      if (override.channels && !override.channels.includes(channelId)) continue
+      if (override.roots) roots = override.roots
+      if (override.deny) deny.push(...override.deny)
+    }
+    return { roots, deny }
+  }
+
+  /**
+   * Check a path argument
+   */
+  async check(input: { path: string; workDir: string; userId: string; channelId: string }): Promise<SandboxDecision> {
+    const { roots, deny } = this.getScope(input.userId, input.channelId)
+    const absolute = resolve(input.workDir, expandHome(input.path))
+    const real = await resolveRealPath(absolute)
+    const via = real !== absolute ? ` (resolves to ${real})` : ''
+
+    const denied = deny.find(glob => this.matchDeny(absolute, glob) || this.matchDeny(real, glob))
+    if (denied) {
+      return { type: 'deny', path: real, reason: `Access to ${input.path}${via} is denied by sandbox rule "${denied}"` }
+    }
+
+    const realRoots = await Promise.all(roots.map(root => resolveRealPath(resolve(input.workDir, expandHome(root)))))
+    if (realRoots.some(root => isWithin(root, real))) {
+      return { type: 'allow', path: real }
+    }
+
+    return {
+      type: this.outsideRoots,
+      path: real,
+      reason: `${input.path}${via} is outside the allowed directories: ${realRoots.join(', ')}`,
+    }
+  }
+
+  private matchDeny(path: string, glob: string): boolean {
+    const pattern = toSlashes(expandHome(glob))
+    const anchored = isAbsolute(pattern) ? pattern : `**/${pattern}`
+    return matchGlob(toSlashes(path), anchored)
+  }
+}
@@ -0,0 +1,470 @@
+/**
+ * Shell Parser - POSIX shell command lines
+ *
+ * Splits a command line into the simple commands it executes: pipelines,
+ * `&&` / `||` / `;` chains, subshells, `$(...)` / backtick / `<(...)`
+ * substitutions, with quoting, escapes, comments, heredocs and redirections.
+ *
+ * This is not a full shell grammar: it only has to find every program that
+ * runs and the files it redirects to, for `PolicyEngine` to classify.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Redirection of a simple command */
+export interface ShellRedirect {
+  /** Operator: `>`, `>>`, `>|`, `&>`, `&>>`, `<`, `<>`, `<<`, `<<-`, `<<<`, `>&`, `<&` */
+  op: string
+  /** File descriptor before the operator (e.g. `2` in `2>`) */
+  fd?: number
+  /** Target file, fd (`>&`) or heredoc delimiter */
+  target: string
+}
+
+/** Simple command (one program and its arguments) */
+export interface ShellCommand {
+  /** Program as written (empty for a bare redirection such as `> file`) */
+  program: string
+  args: string[]
+  /** Leading `NAME=value` assignments */
+  assignments: string[]
+  redirects: ShellRedirect[]
+  /** The program name is computed at run time (`$CMD`, `$(...)`) */
+  dynamicProgram: boolean
+}
+
+/** Parse result */
+export interface ParsedShell {
+  /** All simple commands, including those in subshells and substitutions */
+  commands: ShellCommand[]
+  /** Control operators used (`|`, `&&`, `;`, ...) */
+  operators: string[]
+  /** Constructs that are not analyzed (e.g. `case`) */
+  unsupported: string[]
+  /** Syntax error (e.g. an unterminated quote) */
+  error?: string
+}
+
+/** Word token; `subs` are the command substitutions it contains */
+interface WordToken {
+  type: 'word'
+  value: string
+  /** Contains an unquoted or double-quoted `$` expansion */
+  dynamic: boolean
+  /** Contains quotes (so it is never a keyword or assignment) */
+  quoted: boolean
+  subs: string[]
+}
+
+type Token =
+  | WordToken
+  | { type: 'op'; value: string }
+  | { type: 'redirect'; op: string; fd?: number }
+
+/** Max nesting of substitutions and subshell parsing */
+const MAX_DEPTH = 8
+
+const CONTROL_OPERATORS = ['&&', '||', ';;', '|&', ';', '|', '&', '(', ')']
+const REDIRECT_OPERATORS = ['&>>', '<<<', '<<-', '&>', '>>', '>|', '>&', '<&', '<>', '<<', '>', '<']
+
+/** Keywords that may precede a command */
+const PREFIX_KEYWORDS = new Set(['if', 'then', 'else', 'elif', 'while', 'until', 'do', '!', '{', 'time'])
+/** Keywords that end a compound command */
+const END_KEYWORDS = new Set(['fi', 'done', 'esac', '}'])
+
+class ShellSyntaxError extends Error {}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+/**
+ * Read up to the parenthesis closing the one before `start`, skipping quotes
+ *
+ * @returns Index of the closing parenthesis
+ */
+function findClosingParen(input: string, start: number): number {
+  let depth = 1
+  for (let i = start; i < input.length; i++) {
+    const char = input[i]
+    if (char === '\\') {
+      i++
+    } else if (char === "'") {
+      const end = input.indexOf("'", i + 1)
+      if (end < 0) break
+      i = end
+    } else if (char === '"' || char === '`') {
+      i = findClosingQuote(input, i + 1, char)
+    } else if (char === '(') {
+      depth++
+    } else if (char === ')') {
+      depth--
+      if (depth === 0) return i
+    }
+  }
+  throw new ShellSyntaxError('Unterminated "("')
+}
+
+/**
+ * Index of the quote closing a `"` or backtick string starting at `start`
+ */
+function findClosingQuote(input: string, start: number, quote: string): number {
+  for (let i = start; i < input.length; i++) {
+    const char = input[i]
+    if (char === '\\') {
+      i++
+    } else if (char === quote) {
+      return i
+    } else if (quote === '"' && char === '$' && input[i + 1] === '(') {
+      i = findClosingParen(input, i + 2)
+    }
+  }
+  throw new ShellSyntaxError(`Unterminated ${quote}`)
+}
+
+/**
+ * Command substitutions in text that expands like a double-quoted string (heredoc bodies)
+ */
+function findSubstitutions(text: string): string[] {
+  const subs: string[] = []
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++
+    } else if (text[i] === '$' && text[i + 1] === '(' && text[i + 2] !== '(') {
+      const end = findClosingParen(text, i + 2)
+      subs.push(text.slice(i + 2, end))
+      i = end
+    } else if (text[i] === '`') {
+      const end = findClosingQuote(text, i + 1, '`')
+      subs.push(text.slice(i + 1, end))
+      i = end
+    }
+  }
+  return subs
+}
+
+/**
+ * Split a command line into words, operators and redirections
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let word: WordToken | null = null
+  let pendingHeredocs: Array<{ word: WordToken; stripTabs: boolean }> = []
+  let heredocOp: string | null = null
+
+  const current = (): WordToken => {
+    if (!word) word = { type: 'word', value: '', dynamic: false, quoted: false, subs: [] }
+    return word
+  }
+  const endWord = () => {
+    if (!word) return
+    if (heredocOp) {
+      pendingHeredocs.push({ word, stripTabs: heredocOp === '<<-' })
+      heredocOp = null
+    }
+    tokens.push(word)
+    word = null
+  }
+
+  /** Read `$...` at i (after the `$`); returns the index of its last character */
+  const readDollar = (i: number, target: WordToken): number => {
+    const next = input[i + 1]
+    if (next === '(' && input[i + 2] === '(') {
+      // Arithmetic expansion
+      const end = findClosingParen(input, i + 3)
+      if (input[end + 1] !== ')') throw new ShellSyntaxError('Unterminated "$(("')
+      target.value += input.slice(i, end + 2)
+      target.dynamic = true
+      return end + 1
+    }
+    if (next === '(') {
+      const end = findClosingParen(input, i + 2)
+      target.subs.push(input.slice(i + 2, end))
+      target.value += input.slice(i, end + 1)
+      target.dynamic = true
+      return end
+    }
+    if (next === '{') {
+      const end = input.indexOf('}', i + 2)
+      if (end < 0) throw new ShellSyntaxError('Unterminated "${"')
+      target.value += input.slice(i, end + 1)
+      target.dynamic = true
+      return end
+    }
+    const name = input.slice(i + 1).match(/^([A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])/)
+    if (name) {
+      target.value += `$${name[1]}`
+      target.dynamic = true
+      return i + name[1].length
+    }
+    target.value += '$'
+    return i
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    // Newline: ends the command, then heredoc bodies follow
+    if (char === '\n') {
+      endWord()
+      tokens.push({ type: 'op', value: ';' })
+      for (const heredoc of pendingHeredocs) {
+        let lineStart = i + 1
+        const body: string[] = []
+        for (;;) {
+          if (lineStart >= input.length) {
+            i = input.length
+            break
+          }
+          const lineEnd = input.indexOf('\n', lineStart)
+          const end = lineEnd < 0 ? input.length : lineEnd
+          let line = input.slice(lineStart, end)
+          if (heredoc.stripTabs) line = line.replace(/^\t+/, '')
+          i = end
+          lineStart = end + 1
+          if (line === heredoc.word.value) break
+          body.push(line)
+        }
+        // With an unquoted delimiter the body is expanded, including `$(...)`
+        if (!heredoc.word.quoted) heredoc.word.subs.push(...findSubstitutions(body.join('\n')))
+      }
+      pendingHeredocs = []
+      continue
+    }
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      endWord()
+      continue
+    }
+
+    // Comment at the start of a word
+    if (char === '#' && !word) {
+      const end = input.indexOf('\n', i)
+      i = (end < 0 ? input.length : end) - 1
+      continue
+    }
+
+    if (char === '\\') {
+      if (input[i + 1] === '\n') {
+        i++
+      } else if (i + 1 < input.length) {
+        current().value += input[i + 1]
+        current().quoted = true
+        i++
+      }
+      continue
+    }
+
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1)
+      if (end < 0) throw new ShellSyntaxError("Unterminated '")
+      const target = current()
+      target.value += input.slice(i + 1, end)
+      target.quoted = true
+      i = end
+      continue
+    }
+
+    if (char === '"') {
+      const end = findClosingQuote(input, i + 1, '"')
+      const target = current()
+      target.quoted = true
+      for (let j = i + 1; j < end; j++) {
+        const c = input[j]
+        if (c === '\\' && '$`"\\\n'.includes(input[j + 1])) {
+          if (input[j + 1] !== '\n') target.value += input[j + 1]
+          j++
+        } else if (c === '$') {
+          j = readDollar(j, target)
+        } else if (c === '`') {
+          const close = findClosingQuote(input, j + 1, '`')
+          target.subs.push(input.slice(j + 1, close))
+          target.value += input.slice(j, close + 1)
+          target.dynamic = true
+          j = close
+        } else {
+          target.value += c
+        }
+      }
+      i = end
+      continue
+    }
+
+    if (char === '$' && input[i + 1] === "'") {
+      // ANSI-C quoting
+      let j = i + 2
+      let value = ''
+      for (; j < input.length && input[j] !== "'"; j++) {
+        if (input[j] === '\\') j++
+        value += input[j] ?? ''
+      }
+      if (j >= input.length) throw new ShellSyntaxError("Unterminated $'")
+      const target = current()
+      target.value += value
+      target.quoted = true
+      i = j
+      continue
+    }
+
+    if (char === '$') {
+      i = readDollar(i, current())
+      continue
+    }
+
+    if (char === '`') {
+      const end = findClosingQuote(input, i + 1, '`')
+      const target = current()
+      target.subs.push(input.slice(i + 1, end))
+      target.value += input.slice(i, end + 1)
+      target.dynamic = true
+      i = end
+      continue
+    }
+
+    // Process substitution
+    if ((char === '<' || char === '>') && input[i + 1] === '(' && !word) {
+      const end = findClosingParen(input, i + 2)
+      const target = current()
+      target.subs.push(input.slice(i + 2, end))
+      target.value += input.slice(i, end + 1)
+      target.dynamic = true
+      i = end
+      continue
+    }
+
+    const redirect = REDIRECT_OPERATORS.find(op => input.startsWith(op, i))
+    if (redirect) {
+      // A word of digits right before the operator is its file descriptor
+      const pending = word as WordToken | null
+      let fd: number | undefined
+      if (pending && !pending.quoted && !pending.dynamic && /^\d+$/.test(pending.value)) {
+        fd = Number(pending.value)
+        word = null
+      } else {
+        endWord()
+      }
+      tokens.push({ type: 'redirect', op: redirect, fd })
+      if (redirect === '<<' || redirect === '<<-') heredocOp = redirect
+      i += redirect.length - 1
+      continue
+    }
+
+    const operator = CONTROL_OPERATORS.find(op => input.startsWith(op, i))
+    if (operator) {
+      endWord()
+      tokens.push({ type: 'op', value: operator })
+      i += operator.length - 1
+      continue
+    }
+
+    current().value += char
+  }
+
+  endWord()
+  return tokens
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * Parse a shell command line into the simple commands it executes
+ */
+export function parseShellCommand(input: string): ParsedShell {
+  const result: ParsedShell = { commands: [], operators: [], unsupported: [] }
+  try {
+    parseInto(input, result, 0)
+  } catch (error) {
+    if (!(error instanceof ShellSyntaxError)) throw error
+    result.error = error.message
+  }
+  result.operators = [...new Set(result.operators)]
+  result.unsupported = [...new Set(result.unsupported)]
+  return result
+}
+
+function parseInto(input: string, result: ParsedShell, depth: number): void {
+  if (depth > MAX_DEPTH) {
+    result.unsupported.push('deeply nested substitutions')
+    return
+  }
+
+  const tokens = tokenize(input)
+  let words: WordToken[] = []
+  let redirects: ShellRedirect[] = []
+  let subs: string[] = []
+  let skipUntilSeparator = false
+
+  const finish = () => {
+    const command = toCommand(words, redirects)
+    if (command && !skipUntilSeparator) result.commands.push(command)
+    for (const sub of subs) parseInto(sub, result, depth + 1)
+    words = []
+    redirects = []
+    subs = []
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (token.type === 'op') {
+      // Function definition `name() { ... }`: the name is not a command
+      if (token.value === '(' && tokens[i + 1]?.type === 'op' && (tokens[i + 1] as { value: string }).value === ')' && words.length === 1) {
+        words = []
+        i++
+        continue
+      }
+      finish()
+      skipUntilSeparator = false
+      if (token.value === ';;') result.unsupported.push('case')
+      if (token.value !== '(' && token.value !== ')') result.operators.push(token.value)
+      continue
+    }
+
+    if (token.type === 'redirect') {
+      const target = tokens[i + 1]
+      if (!target || target.type !== 'word') {
+        throw new ShellSyntaxError(`Missing target after "${token.op}"`)
+      }
+      redirects.push({ op: token.op, fd: token.fd, target: target.value })
+      subs.push(...target.subs)
+      i++
+      continue
+    }
+
+    // `for x in ...` / `case x in`: the words are not a command
+    if (words.length === 0 && !token.quoted && (token.value === 'for' || token.value === 'select' || token.value === 'case')) {
+      if (token.value === 'case') result.unsupported.push('case')
+      skipUntilSeparator = true
+    }
+    words.push(token)
+    subs.push(...token.subs)
+  }
+  finish()
+}
+
+function toCommand(words: WordToken[], redirects: ShellRedirect[]): ShellCommand | null {
+  let index = 0
+  const isKeyword = (word: WordToken) =>
+    !word.quoted && (PREFIX_KEYWORDS.has(word.value) || END_KEYWORDS.has(word.value))
+  while (index < words.length && isKeyword(words[index])) index++
+
+  const assignments: string[] = []
+  while (index < words.length && !words[index].quoted && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[index].value)) {
+    assignments.push(words[index].value)
+    index++
+  }
+
+  const programWord = words[index]
+  if (!programWord && redirects.length === 0 && assignments.length === 0) return null
+
+  return {
+    program: programWord?.value ?? '',
+    args: words.slice(index + 1).map(word => word.value),
+    assignments,
+    redirects,
+    dynamicProgram: programWord?.dynamic ?? false,
+  }
+}
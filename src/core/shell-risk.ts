@@ -0,0 +1,848 @@
+/**
+ * Shell Risk - classify what a shell command line does
+ *
+ * Every simple command found by `parseShellCommand` is classified by its
+ * program (and, for tools like git, find or curl, by its subcommand and flags).
+ * Wrappers (`sudo`, `env`, `xargs`, `timeout`, ...), `sh -c`, `eval` and
+ * `find -exec` are unwrapped and the inner command is classified too.
+ */
+import { parseShellCommand, type ShellCommand } from './shell-parser'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ShellRisk = 'read_only' | 'writes' | 'network' | 'destructive' | 'privilege' | 'unknown'
+
+/** Classification of one simple command */
+export interface ShellCommandRisk {
+  /** Command as written (program and arguments) */
+  command: string
+  /** Programs executed, including wrapped ones (e.g. `sudo`, `rm`) */
+  programs: string[]
+  risks: ShellRisk[]
+  /** Why the command got its risks */
+  notes: string[]
+}
+
+/** Classification of a command line */
+export interface ShellAnalysis {
+  commands: ShellCommandRisk[]
+  /** Union of the command risks */
+  risks: ShellRisk[]
+  /** Control operators used (`|`, `&&`, `;`, ...) */
+  operators: string[]
+  /** Output redirection operators used (`>`, `>>`, ...) */
+  redirects: string[]
+  /** Syntax error or unsupported construct */
+  error?: string
+}
+
+export const SHELL_RISK_LABELS: Record<ShellRisk, string> = {
+  read_only: 'read-only',
+  writes: 'writes files',
+  network: 'network access',
+  destructive: 'destructive',
+  privilege: 'privilege escalation',
+  unknown: 'unknown effects',
+}
+
+/** Order risks are reported in (most severe first) */
+const RISK_ORDER: ShellRisk[] = ['privilege', 'destructive', 'unknown', 'network', 'writes', 'read_only']
+
+/** Max nesting of `sh -c`, `eval` and wrappers */
+const MAX_DEPTH = 6
+
+// ============================================================================
+// Program Tables
+// ============================================================================
+
+const READ_ONLY = new Set([
+  // POSIX / GNU
+  'ls', 'dir', 'vdir', 'cat', 'tac', 'head', 'tail', 'less', 'more', 'grep', 'egrep', 'fgrep', 'rg', 'ag', 'ack',
+  'wc', 'uniq', 'cut', 'tr', 'nl', 'rev', 'column', 'paste', 'join', 'fold', 'fmt', 'expand', 'unexpand', 'look',
+  'echo', 'printf', 'pwd', 'cd', 'pushd', 'popd', 'whoami', 'id', 'groups', 'hostname', 'uname', 'uptime', 'arch',
+  'cal', 'df', 'du', 'free', 'ps', 'pgrep', 'top', 'htop', 'vmstat', 'iostat', 'lsblk', 'lscpu', 'lsusb', 'lspci',
+  'lsof', 'who', 'w', 'last', 'printenv', 'which', 'whereis', 'type', 'hash', 'file', 'stat',
+  'readlink', 'realpath', 'basename', 'dirname', 'diff', 'cmp', 'comm', 'md5sum', 'sha1sum', 'sha256sum',
+  'sha512sum', 'cksum', 'b2sum', 'md5', 'shasum', 'tree', 'jq', 'yq', 'strings', 'od', 'xxd', 'hexdump',
+  'base64', 'base32', 'seq', 'true', 'false', 'test', '[', '[[', ']]', 'sleep', 'wait', 'history', 'clear',
+  'export', 'set', 'unset', 'alias', 'unalias', 'local', 'declare', 'typeset', 'readonly', 'read', 'shift',
+  'exit', 'return', 'break', 'continue', 'shopt', 'getconf', 'locale', 'tput', 'stty', 'nproc', 'netstat', 'ss',
+  'man', 'info', 'help', 'apropos', 'whatis', 'fc-list', 'env', 'getent', 'ulimit', 'umask', 'tty',
+  'ldd', 'nm', 'objdump', 'size', 'factor', 'expr', 'bc', 'numfmt', 'zcat', 'zgrep', 'zless', 'bzcat', 'xzcat',
+  // Windows cmd / PowerShell
+  'where', 'findstr', 'ver', 'vol', 'systeminfo', 'ipconfig', 'tasklist', 'get-childitem', 'gci',
+  'get-content', 'gc', 'get-item', 'gi', 'get-date', 'get-timezone', 'get-location', 'gl', 'get-process', 'gps',
+  'get-service', 'gsv', 'get-command', 'gcm', 'get-help', 'select-string', 'sls', 'select-object', 'select',
+  'where-object', 'sort-object', 'measure-object', 'measure', 'format-table', 'ft', 'format-list', 'fl',
+  'format-wide', 'out-string', 'out-host', 'write-output', 'write-host', 'test-path', 'resolve-path',
+  'get-filehash', 'get-itemproperty', 'gp', 'get-computerinfo', 'get-ciminstance', 'get-wmiobject',
+  'get-netipaddress', 'get-psdrive', 'get-volume', 'get-disk', 'get-acl', 'get-variable', 'get-alias',
+  'convertto-json', 'convertfrom-json', 'set-location', 'sl', 'push-location', 'pop-location',
+  'get-history', 'foreach-object', 'group-object', 'compare-object',
+])
+
+const WRITES = new Set([
+  'touch', 'mkdir', 'cp', 'mv', 'ln', 'install', 'rename', 'mkfifo', 'mknod', 'mktemp', 'patch', 'chmod',
+  'chown', 'chgrp', 'zip', 'gzip', 'gunzip', 'bzip2', 'bunzip2', 'xz', 'unxz', '7z', 'rar', 'unrar',
+  'split', 'csplit', 'make', 'cmake', 'ninja', 'git-lfs', 'code', 'vim', 'vi', 'nano', 'emacs',
+  // Windows
+  'copy', 'move', 'ren', 'md', 'xcopy', 'robocopy', 'attrib', 'icacls', 'set-content', 'add-content', 'ac',
+  'out-file', 'new-item', 'ni', 'copy-item', 'cpi', 'move-item', 'mi', 'rename-item', 'rni', 'set-item',
+  'set-itemproperty', 'new-itemproperty', 'expand-archive', 'compress-archive', 'set-acl', 'export-csv',
+])
+
+const DESTRUCTIVE: Record<string, string> = {
+  rm: 'deletes files',
+  rmdir: 'deletes directories',
+  unlink: 'deletes files',
+  shred: 'overwrites and deletes files',
+  truncate: 'truncates files',
+  wipefs: 'wipes filesystem signatures',
+  fdisk: 'changes disk partitions',
+  sfdisk: 'changes disk partitions',
+  parted: 'changes disk partitions',
+  kill: 'stops processes',
+  pkill: 'stops processes',
+  killall: 'stops processes',
+  reboot: 'restarts the machine',
+  shutdown: 'shuts down the machine',
+  halt: 'shuts down the machine',
+  poweroff: 'shuts down the machine',
+  del: 'deletes files',
+  erase: 'deletes files',
+  rd: 'deletes directories',
+  format: 'formats a drive',
+  taskkill: 'stops processes',
+  'remove-item': 'deletes files',
+  ri: 'deletes files',
+  'remove-itemproperty': 'deletes registry values',
+  'clear-content': 'empties files',
+  clc: 'empties files',
+  'stop-process': 'stops processes',
+  spps: 'stops processes',
+  'stop-computer': 'shuts down the machine',
+  'restart-computer': 'restarts the machine',
+  'format-volume': 'formats a drive',
+  'clear-recyclebin': 'empties the recycle bin',
+}
+
+const NETWORK = new Set([
+  'ping', 'dig', 'nslookup', 'host', 'traceroute', 'tracert', 'mtr', 'whois', 'nc', 'ncat', 'netcat', 'telnet',
+  'ftp', 'sftp', 'test-netconnection', 'test-connection', 'resolve-dnsname',
+])
+
+const PRIVILEGE: Record<string, string> = {
+  su: 'switches user',
+  pkexec: 'runs as another user',
+  runas: 'runs as another user',
+  mount: 'mounts filesystems',
+  umount: 'unmounts filesystems',
+  passwd: 'changes passwords',
+  chpasswd: 'changes passwords',
+  useradd: 'manages users',
+  userdel: 'manages users',
+  usermod: 'manages users',
+  groupadd: 'manages groups',
+  groupdel: 'manages groups',
+  visudo: 'edits sudoers',
+  setcap: 'sets file capabilities',
+  chroot: 'changes the root directory',
+  insmod: 'loads kernel modules',
+  rmmod: 'unloads kernel modules',
+  modprobe: 'loads kernel modules',
+  sysctl: 'changes kernel parameters',
+  iptables: 'changes the firewall',
+  ip6tables: 'changes the firewall',
+  nft: 'changes the firewall',
+  ufw: 'changes the firewall',
+  'set-executionpolicy': 'changes the PowerShell execution policy',
+  'new-localuser': 'manages users',
+  'add-localgroupmember': 'manages groups',
+}
+
+/** Programs that run another command: options taking a value, number of leading positionals */
+const WRAPPERS: Record<string, { valueOptions: string[]; positionals?: number; privilege?: boolean }> = {
+  sudo: { valueOptions: ['-u', '-g', '-C', '-D', '-h', '-p', '-r', '-t', '-U', '--user', '--group'], privilege: true },
+  doas: { valueOptions: ['-u', '-C'], privilege: true },
+  gsudo: { valueOptions: ['-u'], privilege: true },
+  env: { valueOptions: ['-u', '-C', '--unset', '--chdir'] },
+  nice: { valueOptions: ['-n', '--adjustment'] },
+  nohup: { valueOptions: [] },
+  time: { valueOptions: ['-f', '-o', '--format', '--output'] },
+  timeout: { valueOptions: ['-s', '-k', '--signal', '--kill-after'], positionals: 1 },
+  command: { valueOptions: [] },
+  builtin: { valueOptions: [] },
+  exec: { valueOptions: ['-a'] },
+  stdbuf: { valueOptions: ['-i', '-o', '-e'] },
+  ionice: { valueOptions: ['-c', '-n', '-p'] },
+  chronic: { valueOptions: [] },
+  unbuffer: { valueOptions: [] },
+  caffeinate: { valueOptions: ['-t', '-w'] },
+  xargs: { valueOptions: ['-I', '-i', '-n', '-P', '-d', '-E', '-L', '-s', '-a', '--max-args', '--max-procs', '--delimiter', '--arg-file'] },
+}
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'ash', 'fish', 'busybox', 'cmd', 'powershell', 'pwsh'])
+
+/** Interpreters and their inline code options */
+const INTERPRETERS: Record<string, string[]> = {
+  python: ['-c'],
+  python2: ['-c'],
+  python3: ['-c'],
+  py: ['-c'],
+  node: ['-e', '--eval', '-p', '--print'],
+  nodejs: ['-e', '--eval', '-p', '--print'],
+  deno: ['eval'],
+  perl: ['-e', '-E'],
+  ruby: ['-e'],
+  php: ['-r'],
+  lua: ['-e'],
+  rscript: ['-e'],
+  osascript: ['-e'],
+}
+
+const PACKAGE_MANAGERS = new Set([
+  'npm', 'pnpm', 'yarn', 'bun', 'pip', 'pip3', 'pipx', 'uv', 'poetry', 'gem', 'cargo', 'go', 'composer',
+  'apt', 'apt-get', 'yum', 'dnf', 'zypper', 'pacman', 'apk', 'brew', 'port', 'choco', 'scoop', 'winget', 'conda',
+  'mamba', 'dotnet', 'nuget', 'mvn', 'gradle',
+])
+const PACKAGE_INSTALL = new Set(['install', 'i', 'add', 'update', 'upgrade', 'up', 'ci', 'sync', 'get', 'fetch', '-S', '-Syu', 'restore'])
+const PACKAGE_REMOVE = new Set(['remove', 'uninstall', 'rm', 'un', 'purge', 'autoremove', '-R', '-Rs', 'prune'])
+const PACKAGE_QUERY = new Set(['list', 'ls', 'show', 'info', 'outdated', 'search', 'view', 'why', 'audit', 'freeze', 'check', 'version', '--version', '-v', 'help', '--help', 'config', 'env', 'doctor', '-Q', '-Ss', 'which'])
+
+/** Arguments that only print information */
+const INFO_ARGS = new Set(['--version', '-v', '-V', 'version', '--help', '-h', 'help', '-?', '/?'])
+
+/**
+ * Environment variables that only change formatting or locale. Any other
+ * variable may change what runs (`PATH`, `LD_PRELOAD`, `GIT_EXTERNAL_DIFF`, `PAGER`, ...).
+ */
+const HARMLESS_ENV = new Set([
+  'LANG', 'LANGUAGE', 'LC_ALL', 'TZ', 'TERM', 'COLUMNS', 'LINES', 'NO_COLOR', 'FORCE_COLOR', 'CLICOLOR',
+  'CLICOLOR_FORCE', 'COLORTERM', 'LS_COLORS', 'GREP_COLOR', 'GREP_COLORS', 'TIME_STYLE', 'CI',
+])
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+interface Classification {
+  programs: string[]
+  risks: Set<ShellRisk>
+  notes: string[]
+}
+
+/**
+ * Normalize a program name: basename, lower case, without Windows extensions
+ */
+export function normalizeProgram(program: string): string {
+  const base = program.split(/[\\/]/).pop() || program
+  return base.toLowerCase().replace(/\.(exe|cmd|bat|com|ps1)$/, '')
+}
+
+/**
+ * Parse and classify a shell command line
+ */
+export function analyzeShellCommand(command: string): ShellAnalysis {
+  const parsed = parseShellCommand(command)
+  const analysis: ShellAnalysis = {
+    commands: [],
+    risks: [],
+    operators: parsed.operators,
+    redirects: [],
+    error: parsed.error,
+  }
+  if (parsed.unsupported.length > 0 && !analysis.error) {
+    analysis.error = `Unsupported shell syntax: ${parsed.unsupported.join(', ')}`
+  }
+
+  const risks = new Set<ShellRisk>()
+  for (const cmd of parsed.commands) {
+    const result = classify(cmd, 0)
+    analysis.redirects.push(...classifyRedirects(cmd, result))
+    if (result.risks.size === 0) result.risks.add('read_only')
+    if (result.risks.size > 1) result.risks.delete('read_only')
+
+    result.risks.forEach(risk => risks.add(risk))
+    analysis.commands.push({
+      command: [cmd.program, ...cmd.args].join(' ').trim() || cmd.redirects.map(r => `${r.op} ${r.target}`).join(' '),
+      programs: result.programs,
+      risks: sortRisks(result.risks),
+      notes: [...new Set(result.notes)],
+    })
+  }
+  if (analysis.error) risks.add('unknown')
+  if (risks.size > 1) risks.delete('read_only')
+  analysis.risks = sortRisks(risks)
+  analysis.redirects = [...new Set(analysis.redirects)]
+  return analysis
+}
+
+/**
+ * Whether every command of the analysis only reads
+ */
+export function isReadOnlyShell(analysis: ShellAnalysis): boolean {
+  return !analysis.error && analysis.risks.every(risk => risk === 'read_only')
+}
+
+/**
+ * Summary of an analysis for approval prompts
+ */
+export function formatShellRisks(analysis: ShellAnalysis): string {
+  const lines = [`Risk: ${analysis.risks.map(risk => SHELL_RISK_LABELS[risk]).join(', ') || SHELL_RISK_LABELS.read_only}`]
+  if (analysis.error) lines.push(`- ${analysis.error}`)
+  for (const command of analysis.commands) {
+    if (command.risks.length === 1 && command.risks[0] === 'read_only') continue
+    const text = command.command.length > 60 ? `${command.command.slice(0, 60)}...` : command.command
+    const detail = command.notes.length > 0 ? command.notes.join('; ') : command.risks.map(r => SHELL_RISK_LABELS[r]).join(', ')
+    lines.push(`- \`${text}\`: ${detail}`)
+  }
+  return lines.join('\n')
+}
+
+function sortRisks(risks: Set<ShellRisk>): ShellRisk[] {
+  return RISK_ORDER.filter(risk => risks.has(risk))
+}
+
+/**
+ * Output redirections to files are writes
+ *
+ * @returns Operators of those redirections
+ */
+function classifyRedirects(cmd: ShellCommand, result: Classification): string[] {
+  const ops: string[] = []
+  for (const redirect of cmd.redirects) {
+    if (redirect.op.includes('>') && redirect.op !== '>&' && !isHarmlessTarget(redirect.target)) {
+      ops.push(redirect.op)
+      result.risks.add('writes')
+      result.notes.push(`writes to ${redirect.target}`)
+    }
+  }
+  return ops
+}
+
+function isHarmlessTarget(target: string): boolean {
+  return /^(\/dev\/(null|stdout|stderr|tty)|nul|\$null|&?\d+|-)$/i.test(target)
+}
+
+/**
+ * Names of the `NAME=value` words that set a variable not in HARMLESS_ENV
+ */
+function unsafeAssignments(words: string[]): string[] {
+  return words
+    .map(word => /^([A-Za-z_][A-Za-z0-9_]*)=/.exec(word)?.[1])
+    .filter((name): name is string => !!name && !HARMLESS_ENV.has(name) && !name.startsWith('LC_'))
+}
+
+function merge(into: Classification, from: Classification): void {
+  into.programs.push(...from.programs)
+  from.risks.forEach(risk => into.risks.add(risk))
+  into.notes.push(...from.notes)
+}
+
+/**
+ * Classify the inner command of a wrapper, `sh -c` or `find -exec`
+ */
+function classifyWords(words: string[], depth: number): Classification {
+  if (words.length === 0) return { programs: [], risks: new Set(), notes: [] }
+  return classify({ program: words[0], args: words.slice(1), assignments: [], redirects: [], dynamicProgram: false }, depth)
+}
+
+/**
+ * Classify a command line given as a string (`sh -c`, `eval`, `watch`)
+ */
+function classifyScript(script: string, depth: number): Classification {
+  const result: Classification = { programs: [], risks: new Set(), notes: [] }
+  if (depth > MAX_DEPTH) {
+    result.risks.add('unknown')
+    result.notes.push('too deeply nested')
+    return result
+  }
+  const inner = parseShellCommand(script)
+  if (inner.error || inner.unsupported.length > 0) {
+    result.risks.add('unknown')
+    result.notes.push(inner.error || `unsupported shell syntax: ${inner.unsupported.join(', ')}`)
+  }
+  for (const cmd of inner.commands) {
+    merge(result, classify(cmd, depth + 1))
+    classifyRedirects(cmd, result)
+  }
+  return result
+}
+
+function classify(cmd: ShellCommand, depth: number): Classification {
+  const result: Classification = { programs: [], risks: new Set(), notes: [] }
+  const add = (risk: ShellRisk, note?: string) => {
+    result.risks.add(risk)
+    if (note) result.notes.push(note)
+  }
+
+  const unsafe = unsafeAssignments(cmd.assignments)
+  if (unsafe.length > 0) add('unknown', `sets ${unsafe.join(', ')}`)
+
+  if (!cmd.program) return result
+  if (cmd.dynamicProgram) {
+    add('unknown', 'program name is computed at run time')
+    return result
+  }
+  if (depth > MAX_DEPTH) {
+    add('unknown', 'too deeply nested')
+    return result
+  }
+
+  const program = normalizeProgram(cmd.program)
+  const args = cmd.args
+  result.programs.push(program)
+
+  // Wrappers: classify the wrapped command
+  const wrapper = WRAPPERS[program]
+  if (program === 'command' && args.some(arg => arg === '-v' || arg === '-V')) {
+    return result
+  }
+  if (wrapper) {
+    if (wrapper.privilege) add('privilege', `runs as another user (${program})`)
+    const inner = skipOptions(args, wrapper.valueOptions, program === 'env')
+    if (program === 'env') {
+      const unsafe = unsafeAssignments(args.slice(0, args.length - inner.length))
+      if (unsafe.length > 0) add('unknown', `sets ${unsafe.join(', ')}`)
+    }
+    const words = inner.slice(wrapper.positionals || 0)
+    if (program === 'xargs' && words.length === 0) return result
+    merge(result, classifyWords(words, depth + 1))
+    return result
+  }
+
+  if (program === 'eval') {
+    merge(result, classifyScript(args.join(' '), depth))
+    return result
+  }
+
+  if (program === 'watch') {
+    merge(result, classifyScript(skipOptions(args, ['-n', '-d', '--interval'], false).join(' '), depth))
+    return result
+  }
+
+  if (program === 'source' || program === '.') {
+    add('unknown', 'runs a script file')
+    return result
+  }
+
+  if (SHELLS.has(program)) {
+    const index = args.findIndex(arg => /^(\/c|\/k|-command)$/i.test(arg) || /^-[a-z]*c$/.test(arg))
+    if (index >= 0 && args[index + 1] !== undefined) {
+      merge(result, classifyScript(args.slice(index + 1).join(' '), depth))
+    } else if (args.some(arg => INFO_ARGS.has(arg))) {
+      return result
+    } else {
+      add('unknown', `runs a ${program} script`)
+    }
+    return result
+  }
+
+  const interpreter = INTERPRETERS[program]
+  if (interpreter) {
+    if (args.length > 0 && args.every(arg => INFO_ARGS.has(arg))) return result
+    const inline = args.some(arg => interpreter.includes(arg))
+    add('unknown', inline ? `runs inline ${program} code` : `runs a ${program} program`)
+    return result
+  }
+
+  const special = classifySpecial(program, args, depth)
+  if (special) {
+    merge(result, special)
+    return result
+  }
+
+  if (program in DESTRUCTIVE) {
+    add('destructive', DESTRUCTIVE[program])
+  } else if (program in PRIVILEGE) {
+    add('privilege', PRIVILEGE[program])
+  } else if (program.startsWith('mkfs')) {
+    add('destructive', 'creates a filesystem')
+  } else if (NETWORK.has(program)) {
+    add('network')
+  } else if (WRITES.has(program)) {
+    add('writes')
+    if ((program === 'chmod') && args.some(arg => /^([ugoa]*[+=][rwxXt]*s|[2-7]\d{3})$/.test(arg))) {
+      add('privilege', 'sets setuid/setgid bits')
+    }
+  } else if (READ_ONLY.has(program)) {
+    // read-only
+  } else if (args.length > 0 && args.every(arg => INFO_ARGS.has(arg))) {
+    // `tool --version`
+  } else {
+    add('unknown', `unrecognized program ${program}`)
+  }
+  return result
+}
+
+/**
+ * Drop a wrapper's options (and `NAME=value` for env), returning the command words
+ */
+function skipOptions(args: string[], valueOptions: string[], skipAssignments: boolean): string[] {
+  let i = 0
+  while (i < args.length) {
+    const arg = args[i]
+    if (arg === '--') return args.slice(i + 1)
+    if (valueOptions.includes(arg)) {
+      i += 2
+    } else if (arg.startsWith('-') && arg.length > 1) {
+      i++
+    } else if (skipAssignments && /^[A-Za-z_][A-Za-z0-9_]*=/.test(arg)) {
+      i++
+    } else {
+      break
+    }
+  }
+  return args.slice(i)
+}
+
+/**
+ * Programs classified by their subcommand or flags
+ */
+function classifySpecial(program: string, args: string[], depth: number): Classification | null {
+  const result: Classification = { programs: [], risks: new Set(), notes: [] }
+  const add = (risk: ShellRisk, note?: string) => {
+    result.risks.add(risk)
+    if (note) result.notes.push(note)
+  }
+  const has = (...flags: string[]) => args.some(arg => flags.includes(arg))
+  const positionals = args.filter(arg => !arg.startsWith('-'))
+
+  switch (program) {
+    case 'git':
+      return classifyGit(args)
+
+    case 'find':
+      for (let i = 0; i < args.length; i++) {
+        const arg = args[i]
+        if (arg === '-delete') add('destructive', 'find -delete deletes files')
+        if (['-fprint', '-fprint0', '-fprintf', '-fls'].includes(arg)) add('writes', `find ${arg} writes files`)
+        if (['-exec', '-execdir', '-ok', '-okdir'].includes(arg)) {
+          const end = args.findIndex((a, j) => j > i && (a === ';' || a === '+'))
+          const words = args.slice(i + 1, end < 0 ? args.length : end)
+          merge(result, classifyWords(words, depth + 1))
+          i = end < 0 ? args.length : end
+        }
+      }
+      return result
+
+    case 'sed':
+      if (args.some(arg => /^(-i|--in-place)/.test(arg) || /^-[a-zA-Z]*i/.test(arg))) add('writes', 'sed -i edits files')
+      return result
+
+    case 'sort':
+      if (args.some(arg => /^(-o|--output)/.test(arg))) add('writes', 'sort -o writes a file')
+      if (args.some(arg => arg.startsWith('--compress-program'))) add('unknown', 'sort --compress-program runs a program')
+      return result
+
+    case 'rg':
+      if (args.some(arg => arg === '--pre' || arg.startsWith('--pre='))) add('unknown', 'rg --pre runs a program')
+      return result
+
+    case 'man':
+      if (args.some(arg => arg.startsWith('-P') || arg.startsWith('--pager'))) add('unknown', 'man -P runs a pager command')
+      return result
+
+    case 'export':
+    case 'declare':
+    case 'typeset':
+    case 'readonly':
+    case 'local': {
+      const unsafe = unsafeAssignments(args)
+      if (unsafe.length > 0) add('unknown', `sets ${unsafe.join(', ')}`)
+      return result
+    }
+
+    case 'tee':
+      if (positionals.some(arg => !isHarmlessTarget(arg))) add('writes', `writes to ${positionals.join(', ')}`)
+      return result
+
+    case 'awk':
+    case 'gawk':
+    case 'mawk':
+    case 'nawk':
+      if (args.some(arg => /system\s*\(|\|\s*getline|print[^;}]*>|-f\b/.test(arg))) add('unknown', 'awk script runs commands or writes files')
+      return result
+
+    case 'date':
+      if (has('-s', '--set') || args.some(arg => arg.startsWith('--set='))) add('privilege', 'sets the system clock')
+      return result
+
+    case 'timedatectl':
+      if (positionals.length > 0 && !['status', 'show', 'list-timezones', 'timesync-status', 'show-timesync'].includes(positionals[0])) {
+        add('privilege', 'changes system time settings')
+      }
+      return result
+
+    case 'hwclock':
+      if (args.some(arg => !['--show', '-r', '--verbose', '--utc', '--localtime', '-u'].includes(arg))) add('privilege', 'sets the hardware clock')
+      return result
+
+    case 'w32tm':
+      if (!has('/query', '/tz', '/stripchart')) add('privilege', 'changes time service settings')
+      return result
+
+    case 'tzutil':
+      if (!has('/g', '/l')) add('privilege', 'changes the time zone')
+      return result
+
+    case 'dd':
+      if (args.some(arg => arg.startsWith('of='))) add('destructive', 'dd writes raw data')
+      return result
+
+    case 'tar': {
+      const cluster = args.filter((arg, i) => (i === 0 && !arg.startsWith('-')) || /^-[a-zA-Z]+$/.test(arg)).join('')
+      if (has('--delete')) add('destructive', 'tar --delete')
+      if (/[xcruA]/.test(cluster) || has('--extract', '--get', '--create', '--append', '--update', '--concatenate')) add('writes')
+      return result
+    }
+
+    case 'unzip':
+      if (!has('-l', '-t', '-v', '-Z')) add('writes')
+      return result
+
+    case 'crontab':
+      if (!has('-l')) add('writes', 'changes scheduled jobs')
+      if (has('-r')) add('destructive', 'removes scheduled jobs')
+      return result
+
+    case 'curl':
+      add('network')
+      if (args.some(arg => /^(-o|-O|--output|--remote-name|--remote-name-all|-[a-zA-Z]*[oO])$/.test(arg) || arg.startsWith('--output='))) {
+        add('writes', 'curl saves a file')
+      }
+      return result
+
+    case 'wget': {
+      add('network')
+      const toStdout = args.some((arg, i) => /^-[a-zA-Z]*O-$/.test(arg) || (/^-[a-zA-Z]*O$/.test(arg) && args[i + 1] === '-') || arg === '--output-document=-')
+      if (!toStdout && !has('--spider')) add('writes', 'wget saves a file')
+      return result
+    }
+
+    case 'invoke-webrequest':
+    case 'iwr':
+    case 'invoke-restmethod':
+    case 'irm':
+    case 'start-bitstransfer':
+      add('network')
+      if (args.some(arg => /^-outfile$/i.test(arg)) || program === 'start-bitstransfer') add('writes', 'saves a file')
+      return result
+
+    case 'ssh':
+      add('network')
+      if (positionals.length > 1) add('unknown', 'runs a remote command')
+      return result
+
+    case 'scp':
+    case 'rsync':
+      add('writes')
+      if (args.some(arg => /^[^/\\]*:/.test(arg) && !/^[a-zA-Z]:[\\/]/.test(arg))) add('network')
+      if (has('--delete', '--delete-after', '--delete-before', '--remove-source-files')) add('destructive', `${program} deletes files`)
+      return result
+
+    case 'npx':
+    case 'pnpx':
+    case 'bunx':
+    case 'uvx':
+      add('network', 'downloads packages')
+      add('unknown', 'runs a package')
+      return result
+
+    case 'docker':
+    case 'podman':
+    case 'kubectl':
+    case 'nerdctl': {
+      const sub = positionals[0] || ''
+      if (['ps', 'images', 'logs', 'inspect', 'get', 'describe', 'version', 'info', 'top', 'stats', 'history', 'events', 'explain', 'api-resources', 'cluster-info'].includes(sub)) return result
+      if (['pull', 'push', 'login', 'search'].includes(sub)) add('network')
+      else if (['rm', 'rmi', 'delete', 'prune', 'kill', 'drain', 'cordon'].includes(sub) || has('prune')) add('destructive', `${program} ${sub}`)
+      else if (['run', 'exec', 'start', 'create', 'apply', 'debug', 'compose', 'build', 'cp', 'port-forward'].includes(sub)) add('unknown', `${program} ${sub} runs containers or code`)
+      else add('writes')
+      return result
+    }
+
+    case 'systemctl':
+    case 'service':
+    case 'launchctl':
+    case 'sc': {
+      const sub = program === 'service' ? positionals[1] : positionals[0]
+      if (!sub || ['status', 'is-active', 'is-enabled', 'is-failed', 'list-units', 'list-unit-files', 'show', 'cat', 'list', 'query', 'print'].includes(sub)) return result
+      add('privilege', 'changes system services')
+      return result
+    }
+
+    case 'start-process':
+    case 'saps':
+    case 'start':
+      if (args.some(arg => /^runas$/i.test(arg))) add('privilege', 'runs elevated')
+      add('unknown', 'starts a process')
+      return result
+
+    case 'invoke-expression':
+    case 'iex':
+    case 'invoke-command':
+    case 'icm':
+      add('unknown', 'runs dynamic PowerShell code')
+      return result
+  }
+
+  if (PACKAGE_MANAGERS.has(program)) {
+    const sub = positionals[0] || args[0] || ''
+    if (PACKAGE_INSTALL.has(sub)) add('network', `${program} ${sub} installs packages`)
+    if (PACKAGE_INSTALL.has(sub) || PACKAGE_REMOVE.has(sub)) add('writes')
+    else if (!PACKAGE_QUERY.has(sub)) add('unknown', `runs ${[program, sub].filter(Boolean).join(' ')}`)
+    return result
+  }
+
+  return null
+}
+
+/**
+ * git: by subcommand
+ */
+function classifyGit(args: string[]): Classification {
+  const result: Classification = { programs: [], risks: new Set(), notes: [] }
+  const add = (risk: ShellRisk, note?: string) => {
+    result.risks.add(risk)
+    if (note) result.notes.push(note)
+  }
+
+  // Global options before the subcommand
+  let i = 0
+  while (i < args.length && args[i].startsWith('-')) {
+    // Config values and the exec path can name programs git runs (core.pager, diff.external, ...)
+    if (args[i] === '-c' || /^--(config-env|exec-path)(=|$)/.test(args[i])) {
+      add('unknown', `git ${args[i].split('=')[0]} can run other programs`)
+    }
+    i += ['-C', '-c', '--git-dir', '--work-tree', '--namespace', '--config-env'].includes(args[i]) ? 2 : 1
+  }
+  const sub = args[i] || ''
+  const rest = args.slice(i + 1)
+  const has = (...flags: string[]) => rest.some(arg => flags.includes(arg))
+  const positionals = rest.filter(arg => !arg.startsWith('-'))
+
+  // `git log --output=x`, `git diff -o x` (for grep, -o is --only-matching)
+  if (rest.some(arg => /^--output(=|$)/.test(arg) || (arg === '-o' && sub !== 'grep'))) {
+    add('writes', `git ${sub} --output writes a file`)
+  }
+
+  switch (sub) {
+    case '':
+    case 'status':
+    case 'log':
+    case 'diff':
+    case 'show':
+    case 'blame':
+    case 'rev-parse':
+    case 'rev-list':
+    case 'ls-files':
+    case 'ls-tree':
+    case 'describe':
+    case 'shortlog':
+    case 'grep':
+    case 'cat-file':
+    case 'whatchanged':
+    case 'help':
+    case 'version':
+    case 'merge-base':
+    case 'name-rev':
+    case 'show-ref':
+    case 'for-each-ref':
+    case 'check-ignore':
+    case 'count-objects':
+    case '--version':
+    case '--help':
+      return result
+
+    case 'branch':
+      if (has('-d', '-D', '--delete')) add('destructive', 'git branch deletes branches')
+      else if (positionals.length > 0 || has('-m', '-M', '-c', '-C', '--move', '--copy', '-u', '--set-upstream-to')) add('writes')
+      return result
+
+    case 'tag':
+      if (has('-d', '--delete')) add('destructive', 'git tag deletes tags')
+      else if (positionals.length > 0 && !has('-l', '--list')) add('writes')
+      return result
+
+    case 'remote':
+      if (positionals.length > 0 && !['show', 'get-url'].includes(positionals[0])) add('writes')
+      return result
+
+    case 'config':
+      if (!has('--get', '--get-all', '--list', '-l', '--get-regexp') && positionals.length > 1) add('writes')
+      return result
+
+    case 'stash':
+      if (['drop', 'clear'].includes(positionals[0])) add('destructive', 'git stash deletes stashes')
+      else if (!['list', 'show'].includes(positionals[0])) add('writes')
+      return result
+
+    case 'reflog':
+      if (['expire', 'delete'].includes(positionals[0])) add('destructive', 'git reflog removes history')
+      return result
+
+    case 'clone':
+      add('network')
+      add('writes')
+      return result
+
+    case 'fetch':
+    case 'ls-remote':
+      add('network')
+      return result
+
+    case 'pull':
+      add('network')
+      add('writes')
+      return result
+
+    case 'push':
+      add('network')
+      if (has('-f', '--force', '--force-with-lease', '-d', '--delete', '--mirror', '--prune') || positionals.some(arg => arg.startsWith(':') || arg.startsWith('+'))) {
+        add('destructive', 'git push overwrites or deletes remote history')
+      }
+      return result
+
+    case 'submodule':
+      if (['update', 'add', 'sync'].includes(positionals[0])) add('network')
+      add('writes')
+      return result
+
+    case 'clean':
+      if (!has('-n', '--dry-run')) add('destructive', 'git clean deletes untracked files')
+      return result
+
+    case 'reset':
+      if (has('--hard', '--merge', '--keep')) add('destructive', 'git reset discards changes')
+      else add('writes')
+      return result
+
+    case 'checkout':
+    case 'switch':
+      if (has('-f', '--force', '--discard-changes', '.') || rest.includes('--')) add('destructive', `git ${sub} can discard changes`)
+      else add('writes')
+      return result
+
+    case 'restore':
+      add('destructive', 'git restore discards changes')
+      return result
+
+    case 'rm':
+      add('destructive', 'git rm deletes files')
+      return result
+
+    case 'filter-branch':
+    case 'filter-repo':
+    case 'prune':
+    case 'gc':
+      add('destructive', `git ${sub} rewrites or removes history`)
+      return result
+
+    default:
+      add('writes')
+      return result
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Usage - token accounting, rate limits and daily budgets
+ *
+ * Every agent turn adds its prompt and completion tokens to the totals of the
+ * user, channel, model and UTC day; `prices` turn the tokens into cost. Totals
+ * are saved to `usage.json` in the config directory.
+ *
+ * Limits are checked before a message reaches the agent:
+ * - `messagesPerMinute` / `messagesPerHour`: messages in a sliding window
+ * - `dailyTokens` / `dailyCost`: today's totals (a turn started under the
+ *   budget may end over it; the next message is refused)
+ *
+ * `limits.user` applies to every user, `limits.channels.<channel>.user` to the
+ * users of a channel and `limits.users.<channel>.<user>` to a single user (each
+ * field overrides the broader one). `limits.channels.<channel>.total` caps all
+ * users of a channel together.
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type { TurnUsage } from './gateway'
+import { matchGlob } from '../utils/glob'
+import { Logger } from '../utils/logger'
+
+const logger = new Logger('Usage')
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Price of a model in USD per 1M tokens */
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+/** Rate limits and daily budgets */
+export interface UsageLimits {
+  messagesPerMinute?: number
+  messagesPerHour?: number
+  /** Prompt + completion tokens per UTC day */
+  dailyTokens?: number
+  /** Cost in USD per UTC day (needs `prices`) */
+  dailyCost?: number
+}
+
+/** Usage configuration (`usage`) */
+export interface UsageConfig {
+  /** Price per model name or glob (`gpt-4o*`); models without a price cost nothing */
+  prices?: Record<string, ModelPrice>
+  limits?: {
+    /** Limits of every user */
+    user?: UsageLimits
+    /** Per channel: limits of each user there, and of all users together */
+    channels?: Record<string, { user?: UsageLimits; total?: UsageLimits }>
+    /** Limits of single users (channel -> user ID -> limits) */
+    users?: Record<string, Record<string, UsageLimits>>
+  }
+  /** Delete totals older than this many days (default: keep) */
+  retentionDays?: number
+}
+
+/** Totals of a user with a model on a day */
+export interface UsageRecord {
+  /** UTC day (YYYY-MM-DD) */
+  day: string
+  channelId: string
+  userId: string
+  model: string
+  /** Agent turns */
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  /** USD, from `prices` */
+  cost: number
+}
+
+/** Sum of records */
+export type UsageTotals = Pick<UsageRecord, 'requests' | 'promptTokens' | 'completionTokens' | 'cost'>
+
+/** Filters for `query` */
+export interface UsageQuery {
+  userId?: string
+  channelId?: string
+  /** Model name or glob */
+  model?: string
+  /** Inclusive UTC days (YYYY-MM-DD) */
+  since?: string
+  until?: string
+}
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+
+// ============================================================================
+// Usage Tracker
+// ============================================================================
+
+export class UsageTracker {
+  private file: string | null = null
+  private config: UsageConfig = {}
+  private records: UsageRecord[] = []
+  /** Times of recent messages, per user (`<channel>:<user>`) and per channel */
+  private recent = new Map<string, number[]>()
+  /** Pending writes, in order */
+  private writing: Promise<void> = Promise.resolve()
+
+  /**
+   * Load the saved totals from `file` and apply the configuration
+   */
+  async init(config: UsageConfig & { file: string }): Promise<void> {
+    const { file, ...rest } = config
+    this.file = file
+    this.config = rest
+
+    try {
+      const data = JSON.parse(await readFile(file, 'utf-8')) as { records?: UsageRecord[] }
+      this.records = data.records || []
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to read ${file}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+      this.records = []
+    }
+
+    if (rest.retentionDays) {
+      const cutoff = utcDay(new Date(Date.now() - rest.retentionDays * 24 * HOUR))
+      const kept = this.records.filter(record => record.day >= cutoff)
+      if (kept.length < this.records.length) {
+        logger.info(`Deleted ${this.records.length - kept.length} usage records past retention`)
+        this.records = kept
+        this.save()
+      }
+    }
+  }
+
+  /**
+   * Check the limits of a user before a message reaches the agent; allowed
+   * messages count towards the rate limits
+   *
+   * @returns Why the message is refused, or null when it is allowed
+   */
+  checkLimits(userId: string, channelId: string, now = Date.now()): string | null {
+    const { user, total } = this.getLimits(userId, channelId)
+    const userKey = `${channelId}:${userId}`
+    const channelKey = channelId
+
+    const reason =
+      this.checkRate(userKey, user, now, '') ||
+      (total && this.checkRate(channelKey, total, now, ' for this channel')) ||
+      this.checkBudget(this.summarize(this.query({ userId, channelId, since: utcDay(new Date(now)) })), user, '') ||
+      (total && this.checkBudget(this.summarize(this.query({ channelId, since: utcDay(new Date(now)) })), total, ' for this channel'))
+    if (reason) {
+      logger.info(`Refused message of ${userKey}: ${reason}`)
+      return reason
+    }
+
+    for (const key of total ? [userKey, channelKey] : [userKey]) {
+      const times = (this.recent.get(key) || []).filter(time => time > now - HOUR)
+      times.push(now)
+      this.recent.set(key, times)
+    }
+    return null
+  }
+
+  /**
+   * Limits of a user, and of the channel as a whole
+   */
+  getLimits(userId: string, channelId: string): { user: UsageLimits; total?: UsageLimits } {
+    const limits = this.config.limits || {}
+    return {
+      user: {
+        ...limits.user,
+        ...limits.channels?.[channelId]?.user,
+        ...limits.users?.[channelId]?.[String(userId).trim()],
+      },
+      total: limits.channels?.[channelId]?.total,
+    }
+  }
+
+  /**
+   * Add the tokens of an agent turn (saved in the background)
+   */
+  record(userId: string, channelId: string, usage: TurnUsage, now = new Date()): UsageRecord {
+    const day = utcDay(now)
+    let record = this.records.find(r =>
+      r.day === day && r.channelId === channelId && r.userId === userId && r.model === usage.model
+    )
+    if (!record) {
+      record = { day, channelId, userId, model: usage.model, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+      this.records.push(record)
+    }
+
+    record.requests++
+    record.promptTokens += usage.promptTokens
+    record.completionTokens += usage.completionTokens
+    record.cost += this.getCost(usage.model, usage.promptTokens, usage.completionTokens)
+    logger.debug(`${channelId}:${userId} used ${usage.promptTokens}+${usage.completionTokens} tokens of ${usage.model}`)
+
+    this.save()
+    return record
+  }
+
+  /**
+   * Cost in USD of tokens of a model (0 without a price)
+   */
+  getCost(model: string, promptTokens: number, completionTokens: number): number {
+    const prices = this.config.prices || {}
+    const price = prices[model] || Object.entries(prices).find(([pattern]) => matchGlob(model, pattern))?.[1]
+    if (!price) return 0
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+  }
+
+  /**
+   * Records matching the filters, oldest day first
+   */
+  query(filter: UsageQuery = {}): UsageRecord[] {
+    return this.records
+      .filter(record =>
+        (!filter.userId || record.userId === filter.userId) &&
+        (!filter.channelId || record.channelId === filter.channelId) &&
+        (!filter.model || matchGlob(record.model, filter.model)) &&
+        (!filter.since || record.day >= filter.since) &&
+        (!filter.until || record.day <= filter.until)
+      )
+      .sort((a, b) => a.day.localeCompare(b.day))
+  }
+
+  /**
+   * Sum of records
+   */
+  summarize(records: UsageRecord[]): UsageTotals {
+    return records.reduce<UsageTotals>(
+      (totals, record) => ({
+        requests: totals.requests + record.requests,
+        promptTokens: totals.promptTokens + record.promptTokens,
+        completionTokens: totals.completionTokens + record.completionTokens,
+        cost: totals.cost + record.cost,
+      }),
+      { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+    )
+  }
+
+  /**
+   * Wait until recorded usage is saved
+   */
+  flush(): Promise<void> {
+    return this.writing
+  }
+
+  private checkRate(key: string, limits: UsageLimits, now: number, subject: string): string | null {
+    const times = this.recent.get(key) || []
+    for (const [limit, window, unit] of [
+      [limits.messagesPerMinute, MINUTE, 'minute'],
+      [limits.messagesPerHour, HOUR, 'hour'],
+    ] as const) {
+      if (!limit) continue
+      const inWindow = times.filter(time => time > now - window)
+      if (inWindow.length >= limit) {
+        const wait = Math.ceil((inWindow[inWindow.length - limit] + window - now) / 1000)
+        return `Rate limit of ${limit} messages per ${unit}${subject} reached, try again in ${formatWait(wait)}`
+      }
+    }
+    return null
+  }
+
+  private checkBudget(today: UsageTotals, limits: UsageLimits, subject: string): string | null {
+    const tokens = today.promptTokens + today.completionTokens
+    if (limits.dailyTokens && tokens >= limits.dailyTokens) {
+      return `Daily budget of ${limits.dailyTokens.toLocaleString('en-US')} tokens${subject} used up, resets at 00:00 UTC`
+    }
+    if (limits.dailyCost && today.cost >= limits.dailyCost) {
+      return `Daily budget of ${formatCost(limits.dailyCost)}${subject} used up, resets at 00:00 UTC`
+    }
+    return null
+  }
+
+  private save(): void {
+    if (!this.file) return
+    const file = this.file
+    this.writing = this.writing
+      .then(async () => {
+        await mkdir(dirname(file), { recursive: true })
+        await writeFile(file, JSON.stringify({ records: this.records }, null, 2))
+      })
+      .catch((error) => logger.error('Failed to save usage:', error instanceof Error ? error.message : String(error)))
+  }
+}
+
+/** UTC day of a time (YYYY-MM-DD) */
+export function utcDay(time: Date): string {
+  return time.toISOString().slice(0, 10)
+}
+
+/** Cost in USD, e.g. "$0.0042" or "$4.20" */
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`
+}
+
+function formatWait(seconds: number): string {
+  return seconds < 60 ? `${seconds}s` : `${Math.ceil(seconds / 60)}m`
+}
+
+// Singleton
+let usageInstance: UsageTracker | null = null
+
+export function getUsageTracker(): UsageTracker {
+  if (!usageInstance) {
+    usageInstance = new UsageTracker()
+  }
+  return usageInstance
+}
@@ -0,0 +1,151 @@
+/**
+ * Shell Backend - where the bash tool runs commands
+ *
+ * - `host`: directly on the host (default)
+ * - `podman` / `docker`: in a container per session, mounting the workspace
+ * - `bubblewrap`: in a bwrap namespace with a read-only root
+ */
+import { spawn } from 'node:child_process'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ShellBackendType = 'host' | 'podman' | 'docker' | 'bubblewrap'
+
+/** Shell backend configuration (`shell`) */
+export interface ShellBackendConfig {
+  /** Default: host */
+  backend?: ShellBackendType
+  /** Container image (podman/docker, default: docker.io/library/debian:stable-slim) */
+  image?: string
+  /** Allow network access (containers and bubblewrap, default: false) */
+  network?: boolean
+  /** CPU cores (containers) */
+  cpus?: number
+  /** Memory limit, e.g. "512m" (containers; bubblewrap: virtual memory) */
+  memory?: string
+  /** Max number of processes (containers and bubblewrap) */
+  pids?: number
+  /** Max wall clock time of a command in ms (caps the tool's timeout) */
+  timeout?: number
+  /** Keep one container per session instead of one per command (default: true) */
+  persistent?: boolean
+  /** Remove session containers idle for this many ms (default: 1800000) */
+  idleTimeout?: number
+  /** Extra arguments for `podman run` / `docker run` / `bwrap` */
+  extraArgs?: string[]
+}
+
+/** Command to run */
+export interface ShellRunRequest {
+  command: string
+  /** Working directory on the host (the session's workspace) */
+  cwd: string
+  /** Wall clock limit in ms */
+  timeout: number
+  userId: string
+  chatId: string
+}
+
+/** Result of a command */
+export interface ShellRunResult {
+  stdout: string
+  stderr: string
+  /** Exit code (null when killed by a signal) */
+  exitCode: number | null
+  timedOut: boolean
+}
+
+export interface ShellBackend {
+  readonly name: ShellBackendType
+  run(request: ShellRunRequest): Promise<ShellRunResult>
+  /** Stop sessions and remove containers */
+  dispose(): Promise<void>
+}
+
+/** Max bytes kept of stdout and stderr each */
+const MAX_OUTPUT = 10 * 1024 * 1024
+
+// ============================================================================
+// Process Helper
+// ============================================================================
+
+/**
+ * Run a process, collecting its output and killing it after `timeout` ms
+ *
+ * @throws Error if the process cannot be started (e.g. the program is missing)
+ */
+export function runProcess(
+  file: string,
+  args: string[],
+  options: { cwd?: string; timeout?: number; shell?: boolean; input?: string } = {}
+): Promise<ShellRunResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(file, args, {
+      cwd: options.cwd,
+      shell: options.shell,
+      stdio: [options.input === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe'],
+      // Own process group, so a timeout also kills the command's children
+      detached: process.platform !== 'win32',
+      windowsHide: true,
+    })
+
+    let stdout = ''
+    let stderr = ''
+    let timedOut = false
+    const collect = (current: string, chunk: Buffer) =>
+      current.length < MAX_OUTPUT ? current + chunk.toString('utf8') : current
+    child.stdout?.on('data', (chunk: Buffer) => { stdout = collect(stdout, chunk) })
+    child.stderr?.on('data', (chunk: Buffer) => { stderr = collect(stderr, chunk) })
+    if (options.input !== undefined) child.stdin?.end(options.input)
+
+    const timer = options.timeout
+      ? setTimeout(() => {
+        timedOut = true
+        try {
+          if (process.platform !== 'win32' && child.pid) process.kill(-child.pid, 'SIGKILL')
+          else child.kill('SIGKILL')
+        } catch {
+          child.kill('SIGKILL')
+        }
+      }, options.timeout)
+      : null
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (timer) clearTimeout(timer)
+      reject(error.code === 'ENOENT' ? new Error(`${file} not found`) : error)
+    })
+    child.on('close', (code) => {
+      if (timer) clearTimeout(timer)
+      resolve({ stdout, stderr, exitCode: code, timedOut })
+    })
+  })
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create the shell backend for a configuration
+ */
+export async function createShellBackend(config: ShellBackendConfig = {}): Promise<ShellBackend> {
+  switch (config.backend || 'host') {
+    case 'host': {
+      const { HostShellBackend } = await import('./host')
+      return new HostShellBackend()
+    }
+    case 'podman':
+    case 'docker': {
+      const { ContainerShellBackend } = await import('./container')
+      return new ContainerShellBackend(config)
+    }
+    case 'bubblewrap': {
+      const { BubblewrapShellBackend } = await import('./bubblewrap')
+      return new BubblewrapShellBackend(config)
+    }
+    default:
+      throw new Error(`Unsupported shell backend: ${config.backend}`)
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Bubblewrap Shell Backend - runs commands in a bwrap sandbox
+ *
+ * The host filesystem is mounted read-only, with the workspace as the only
+ * writable directory and private /tmp, /dev, /proc and $HOME. All namespaces
+ * are unshared (network too, unless `network` is set).
+ *
+ * There is no session state: each command gets a fresh sandbox. Memory and
+ * process limits use `ulimit`; CPU limits are not supported.
+ */
+import { homedir } from 'node:os'
+import { runProcess, type ShellBackend, type ShellBackendConfig, type ShellRunRequest, type ShellRunResult } from './backend'
+import { parseSize } from '../utils/size'
+
+export class BubblewrapShellBackend implements ShellBackend {
+  readonly name = 'bubblewrap' as const
+
+  constructor(private config: ShellBackendConfig) {}
+
+  run(request: ShellRunRequest): Promise<ShellRunResult> {
+    const args = [
+      '--ro-bind', '/', '/',
+      '--dev', '/dev',
+      '--proc', '/proc',
+      '--tmpfs', '/tmp',
+      '--tmpfs', homedir(),
+      '--bind', request.cwd, request.cwd,
+      '--chdir', request.cwd,
+      '--unshare-all',
+      ...(this.config.network ? ['--share-net'] : []),
+      '--die-with-parent',
+      '--new-session',
+      ...(this.config.extraArgs || []),
+      'sh', '-c', this.withLimits(request.command),
+    ]
+
+    return runProcess('bwrap', args, { timeout: request.timeout })
+  }
+
+  async dispose(): Promise<void> {}
+
+  /** Prefix the command with `ulimit` for the memory and process limits */
+  private withLimits(command: string): string {
+    const limits: string[] = []
+    const memory = this.config.memory ? parseSize(this.config.memory) : undefined
+    if (memory) limits.push(`ulimit -v ${Math.floor(memory / 1024)} || exit 126`)
+    if (this.config.pids) limits.push(`ulimit -u ${this.config.pids} || exit 126`)
+    return [...limits, command].join('\n')
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Container Shell Backend - runs commands in rootless Podman or Docker
+ *
+ * Each session (user + chat) gets a long-running container with its workspace
+ * mounted at /workspace; commands are run with `exec` so state (installed
+ * packages, background files outside the workspace) persists for the session.
+ * Idle containers are removed after `idleTimeout`.
+ */
+import { createHash } from 'node:crypto'
+import { relative } from 'node:path'
+import { isWithin } from '../core/sandbox'
+import { runProcess, type ShellBackend, type ShellBackendConfig, type ShellRunRequest, type ShellRunResult } from './backend'
+import { Logger } from '../utils/logger'
+
+const logger = new Logger('Exec:Container')
+
+const DEFAULT_IMAGE = 'docker.io/library/debian:stable-slim'
+const DEFAULT_IDLE_TIMEOUT = 30 * 60 * 1000
+const MOUNT_POINT = '/workspace'
+
+interface SessionContainer {
+  name: string
+  /** Host directory mounted at /workspace */
+  workDir: string
+  lastUsed: number
+  /** Pending start, shared by concurrent commands */
+  ready: Promise<void>
+}
+
+export class ContainerShellBackend implements ShellBackend {
+  readonly name: 'podman' | 'docker'
+  private image: string
+  private containers = new Map<string, SessionContainer>()
+  private cleanupTimer: ReturnType<typeof setInterval> | null = null
+
+  constructor(private config: ShellBackendConfig) {
+    this.name = config.backend === 'docker' ? 'docker' : 'podman'
+    this.image = config.image || DEFAULT_IMAGE
+  }
+
+  async run(request: ShellRunRequest): Promise<ShellRunResult> {
+    // `timeout` inside the container enforces the limit; the host-side limit
+    // only catches a hanging runtime
+    const seconds = Math.max(1, Math.ceil(request.timeout / 1000))
+    const command = ['timeout', '-k', '5', String(seconds), 'sh', '-c', request.command]
+
+    if (this.config.persistent === false) {
+      return this.exec([
+        'run', '--rm', '-i',
+        ...this.runArgs(request.cwd),
+        this.image,
+        ...command,
+      ], request.timeout + 60000)
+    }
+
+    const container = await this.getContainer(request)
+    container.lastUsed = Date.now()
+    const result = await this.exec([
+      'exec', '-i', '-w', this.toContainerPath(container.workDir, request.cwd), container.name,
+      ...command,
+    ], request.timeout + 10000)
+    container.lastUsed = Date.now()
+    return result
+  }
+
+  async dispose(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer)
+      this.cleanupTimer = null
+    }
+    const names = [...this.containers.values()].map(c => c.name)
+    this.containers.clear()
+    await Promise.all(names.map(name => this.remove(name)))
+  }
+
+  // ==========================================================================
+  // Containers
+  // ==========================================================================
+
+  private async getContainer(request: ShellRunRequest): Promise<SessionContainer> {
+    const key = `${request.userId}:${request.chatId}`
+    let container = this.containers.get(key)
+
+    // Workspace changed: the mount cannot be changed on a running container
+    if (container && container.workDir !== request.cwd && !isWithin(container.workDir, request.cwd)) {
+      this.containers.delete(key)
+      await container.ready.catch(() => {})
+      await this.remove(container.name)
+      container = undefined
+    }
+
+    if (!container) {
+      const name = `openvia-${createHash('sha256').update(key).digest('hex').slice(0, 12)}`
+      const created: SessionContainer = {
+        name,
+        workDir: request.cwd,
+        lastUsed: Date.now(),
+        ready: this.start(name, request.cwd),
+      }
+      this.containers.set(key, created)
+      container = created
+      this.startCleanup()
+    }
+
+    try {
+      await container.ready
+    } catch (error) {
+      this.containers.delete(key)
+      throw error
+    }
+    return container
+  }
+
+  private async start(name: string, workDir: string): Promise<void> {
+    // Left over from a previous run
+    await this.remove(name)
+
+    logger.info(`Starting ${this.name} container ${name} (${this.image})`)
+    const result = await runProcess(this.name, [
+      'run', '-d', '--rm', '--name', name, '--label', 'openvia=1',
+      ...this.runArgs(workDir),
+      this.image,
+      'sleep', 'infinity',
+    ], { timeout: 5 * 60 * 1000 })
+
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to start ${this.name} container: ${(result.stderr || result.stdout).trim() || `exit code ${result.exitCode}`}`)
+    }
+  }
+
+  private async remove(name: string): Promise<void> {
+    try {
+      await runProcess(this.name, ['rm', '-f', name], { timeout: 30000 })
+    } catch (error) {
+      logger.warn(`Failed to remove container ${name}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  private startCleanup(): void {
+    if (this.cleanupTimer) return
+    const idleTimeout = this.config.idleTimeout ?? DEFAULT_IDLE_TIMEOUT
+    this.cleanupTimer = setInterval(() => {
+      const now = Date.now()
+      for (const [key, container] of this.containers) {
+        if (now - container.lastUsed < idleTimeout) continue
+        this.containers.delete(key)
+        logger.info(`Removing idle container ${container.name}`)
+        void this.remove(container.name)
+      }
+    }, Math.min(idleTimeout, 60000))
+    this.cleanupTimer.unref()
+  }
+
+  // ==========================================================================
+  // Arguments
+  // ==========================================================================
+
+  /** Isolation, limits and the workspace mount for `run` */
+  private runArgs(workDir: string): string[] {
+    const args = [
+      '--cap-drop', 'ALL',
+      '--security-opt', 'no-new-privileges',
+      '-v', `${workDir}:${MOUNT_POINT}${this.name === 'podman' ? ':Z' : ''}`,
+      '-w', MOUNT_POINT,
+    ]
+
+    if (!this.config.network) args.push('--network', 'none')
+    if (this.config.cpus) args.push('--cpus', String(this.config.cpus))
+    if (this.config.memory) args.push('--memory', this.config.memory)
+    if (this.config.pids) args.push('--pids-limit', String(this.config.pids))
+
+    // Files created in the workspace belong to the host user
+    if (this.name === 'podman') {
+      args.push('--userns=keep-id')
+    } else if (process.getuid && process.getgid) {
+      args.push('--user', `${process.getuid()}:${process.getgid()}`)
+    }
+
+    args.push(...(this.config.extraArgs || []))
+    return args
+  }
+
+  /** Map a host directory inside the workspace to its path in the container */
+  private toContainerPath(workDir: string, path: string): string {
+    const rel = relative(workDir, path)
+    return rel ? `${MOUNT_POINT}/${rel.replace(/\\/g, '/')}` : MOUNT_POINT
+  }
+
+  private async exec(args: string[], timeout: number): Promise<ShellRunResult> {
+    const result = await runProcess(this.name, args, { timeout, input: '' })
+    // `timeout` exits with 124 when the limit is hit
+    return result.exitCode === 124 ? { ...result, timedOut: true } : result
+  }
+}
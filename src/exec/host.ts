@@ -0,0 +1,22 @@
+/**
+ * Host Shell Backend - runs commands directly on the host
+ *
+ * Only the wall clock limit applies; use a container or bubblewrap backend
+ * to limit what commands can reach.
+ */
+import { runProcess, type ShellBackend, type ShellRunRequest, type ShellRunResult } from './backend'
+
+export class HostShellBackend implements ShellBackend {
+  readonly name = 'host' as const
+
+  run(request: ShellRunRequest): Promise<ShellRunResult> {
+    // Same shell as child_process.exec (/bin/sh or cmd.exe)
+    return runProcess(request.command, [], {
+      cwd: request.cwd,
+      timeout: request.timeout,
+      shell: true,
+    })
+  }
+
+  async dispose(): Promise<void> {}
+}
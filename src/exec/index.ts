@@ -0,0 +1,43 @@
+/**
+ * Exec Module - execution backends for shell commands
+ */
+import { HostShellBackend } from './host'
+import type { ShellBackend } from './backend'
+
+export * from './backend'
+export { HostShellBackend } from './host'
+export { ContainerShellBackend } from './container'
+export { BubblewrapShellBackend } from './bubblewrap'
+
+// Singleton
+let backendInstance: ShellBackend | null = null
+let maxTimeout: number | undefined
+
+/**
+ * Current shell backend (host until one is configured)
+ */
+export function getShellBackend(): ShellBackend {
+  if (!backendInstance) {
+    backendInstance = new HostShellBackend()
+  }
+  return backendInstance
+}
+
+/**
+ * Replace the shell backend, disposing the previous one
+ *
+ * @param timeout - Max wall clock time of a command in ms
+ */
+export async function setShellBackend(backend: ShellBackend, timeout?: number): Promise<void> {
+  const previous = backendInstance
+  backendInstance = backend
+  maxTimeout = timeout
+  if (previous && previous !== backend) await previous.dispose()
+}
+
+/**
+ * Cap a requested timeout at the configured maximum
+ */
+export function capShellTimeout(timeout: number): number {
+  return maxTimeout ? Math.min(timeout, maxTimeout) : timeout
+}
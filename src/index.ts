@@ -6,12 +6,28 @@
  * v0.1.0: Initial OpenVia release
  */
 
-import { BotManager } from './bot'
-import { initRouter, handleMessage } from './orchestrator'
+import { BotManager, TerminalChannel } from './bot'
+import { OpenAIServer } from './server'
+import { initRouter, handleMessage, initSessions, initWorkspaces, checkWorkspaceQuota, initRoles, getRoleApprovers, initModels } from './orchestrator'
 import { initPolicy } from './orchestrator/policy'
-import { initAgentClient, stopAgentClient } from './ai'
+import { initAgentClient, initTools, stopAgentClient, type AgentClientConfig } from './ai'
+import { McpToolServer } from './mcp'
+import {
+  AuditLog,
+  UsageTracker,
+  formatCost,
+  getGrantStore,
+  getPolicyEngine,
+  getUsageTracker,
+  utcDay,
+  type AuditEntry,
+  type ToolDefinition,
+  type UsageRecord,
+} from './core'
 import { Logger } from './utils/logger'
-import { parseCLI, showHelp, showVersion, showBanner } from './cli'
+import { PermissionBridge } from './utils/permission-bridge'
+import { z } from 'zod'
+import { parseCLI, showHelp, showVersion, showBanner, type ParsedCLI } from './cli'
 import {
   loadConfig,
   initConfig,
@@ -19,6 +35,10 @@ import {
   setConfigValue,
   getConfigValue,
   getSessionsDir,
+  getWorkspacesDir,
+  getGrantsFile,
+  getUsageFile,
+  getModelSelectionsFile,
   getLogsDir,
   ensureConfigDir,
   type AppConfig,
@@ -31,6 +51,15 @@ let config: AppConfig
 /** Global Bot Manager */
 let botManager: BotManager
 
+/** OpenAI-compatible Server (serve command) */
+let apiServer: OpenAIServer | null = null
+
+/** MCP Server (mcp command) */
+let mcpServer: McpToolServer | null = null
+
+/** Set once shutdown has started (signals and closing servers may both trigger it) */
+let shuttingDown = false
+
 /**
  * Start Bot Command
  */
@@ -45,10 +74,13 @@ async function startBotCommand(): Promise<void> {
   // Validate at least one channel is configured
   const hasTelegram = config.adapters.telegram?.botToken || config.telegram.botToken
   const hasFeishu = config.adapters.feishu?.appId && config.adapters.feishu?.appSecret
+  const hasSlack = config.adapters.slack?.appToken && config.adapters.slack?.botToken
+  const hasDiscord = config.adapters.discord?.botToken
+  const hasHttp = config.adapters.http?.tokens?.length
   
-  if (!hasTelegram && !hasFeishu) {
+  if (!hasTelegram && !hasFeishu && !hasSlack && !hasDiscord && !hasHttp) {
      logger.error('No communication channel configured.')
-     logger.info('Please set TELEGRAM_BOT_TOKEN or FEISHU_APP_ID/APP_SECRET.')
+     logger.info('Please set TELEGRAM_BOT_TOKEN, FEISHU_APP_ID/APP_SECRET, SLACK_APP_TOKEN/SLACK_BOT_TOKEN or DISCORD_BOT_TOKEN.')
      process.exit(1)
   }
 
@@ -61,28 +93,353 @@ async function startBotCommand(): Promise<void> {
 
   logger.info('Initializing...')
  
-  // Initialize Policy
+  initChannelPolicy()
+ 
+  await initAgentRuntime()
+
+  // Start Bots
+  await botManager.startAll(config)
+
+  if (botManager.getRunningCount() === 0) {
+    logger.error('No channel could be started.')
+    process.exit(1)
+  }
+}
+
+/**
+ * Initialize Policy (channel allowlists)
+ */
+function initChannelPolicy(): void {
   initPolicy({
     telegram: config.adapters.telegram?.allowedUserIds || config.telegram.allowedUserIds || [],
-    feishu: config.adapters.feishu?.allowedUserIds || []
+    feishu: config.adapters.feishu?.allowedUserIds || [],
+    slack: config.adapters.slack?.allowedUserIds || {},
+    discord: config.adapters.discord?.allowedUserIds || [],
+    discordGuilds: config.adapters.discord?.allowedGuildIds || [],
+    http: (config.adapters.http?.tokens || []).map(t => t.userId)
   })
- 
+}
+
+/**
+ * Tool, policy, sandbox, shell and audit settings of the agent
+ */
+function toolsConfig(): AgentClientConfig {
+  return {
+    llm: config.llm,
+    mcpServers: config.mcpServers,
+    policy: config.policy,
+    sandbox: config.sandbox,
+    shell: config.shell,
+    audit: config.audit,
+  }
+}
+
+/**
+ * Initialize Agent Client, Session Store, Workspaces and Router
+ */
+async function initAgentRuntime(): Promise<void> {
   // Initialize Agent Client (鏂版灦鏋?
   const sessionsDir = getSessionsDir()
   await initAgentClient({
-    llm: config.llm,
-    systemPrompt: config.llm.systemPrompt
-  }, sessionsDir)
+    ...toolsConfig(),
+    systemPrompt: config.llm.systemPrompt,
+    models: config.models
+  })
+
+  // Initialize Session Store
+  await initSessions({
+    store: config.session.store,
+    dir: sessionsDir,
+    retentionDays: config.session.retentionDays,
+  })
+
+  // Initialize Workspaces (writing tools are denied once a workspace is over quota)
+  await initWorkspaces({
+    ...config.workspace,
+    dir: config.workspace?.dir || getWorkspacesDir(),
+  })
+  getPolicyEngine().setDiskQuota(checkWorkspaceQuota)
+
+  // Roles: tools, skills and models per user; approving roles join the approvers
+  initRoles(config.roles)
+  const approvers: Record<string, Array<number | string>> = { ...config.approvals?.approvers }
+  for (const [channelId, ids] of Object.entries(getRoleApprovers())) {
+    approvers[channelId] = [...(approvers[channelId] || []), ...ids]
+  }
+
+  // Unanswered permission requests are denied after the approval timeout
+  PermissionBridge.getInstance().configure({ ...config.approvals, approvers })
+
+  // Remembered approvals ("Allow for this session", "Always allow this pattern")
+  if (config.approvals?.grants !== false) {
+    await getGrantStore().init({ file: getGrantsFile() })
+    getPolicyEngine().setGrants(getGrantStore())
+  }
+
+  // Model profiles and the profile each user chose with /model
+  await initModels({ file: getModelSelectionsFile() })
+
+  // Token accounting, rate limits and daily budgets
+  await getUsageTracker().init({ ...config.usage, file: getUsageFile() })
 
   // Initialize Router
   await initRouter({
-    workDir: sessionsDir,
     maxSteps: 5,
     timeout: config.claude.timeout,
   })
+}
 
-  // Start Bots
-  await botManager.startAll(config)
+/**
+ * Interactive Terminal Chat Command
+ */
+async function chatCommand(): Promise<void> {
+  ensureConfigDir()
+  Logger.setLogDir(getLogsDir())
+
+  // The REPL owns the terminal: logs go to the log file only (unless verbose)
+  if (!config.logging.verbose) {
+    Logger.setConsoleEnabled(false)
+  }
+
+  await initAgentRuntime()
+
+  botManager = new BotManager(handleMessage)
+  botManager.registerChannel(new TerminalChannel({ onExit: shutdown }))
+  await botManager.start()
+}
+
+/**
+ * OpenAI-compatible Server Command
+ */
+async function serveCommand(options: ParsedCLI['options']): Promise<void> {
+  ensureConfigDir()
+  Logger.setLogDir(getLogsDir())
+
+  const serve = config.serve || {}
+  showBanner()
+  initChannelPolicy()
+  await initAgentRuntime()
+
+  // Approvals in a chat channel: run that channel so it can deliver the prompts
+  if (serve.approvals === 'channel' && serve.approvalChannel) {
+    botManager = new BotManager(handleMessage)
+    await botManager.startAll(config, [serve.approvalChannel])
+    if (botManager.getRunningCount() === 0) {
+      logger.error(`Approval channel ${serve.approvalChannel} could not be started.`)
+      process.exit(1)
+    }
+  }
+
+  apiServer = new OpenAIServer({
+    ...serve,
+    host: options.host || serve.host,
+    port: options.port ?? serve.port,
+  })
+  try {
+    await apiServer.start()
+  } catch (error) {
+    logger.error('Failed to start server:', error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  }
+}
+
+/**
+ * MCP Server Command (stdio)
+ */
+async function mcpCommand(): Promise<void> {
+  ensureConfigDir()
+  Logger.setLogDir(getLogsDir())
+
+  const { registry, policy } = await initTools(toolsConfig())
+  mcpServer = new McpToolServer(registry, policy, { onClose: shutdown })
+  await mcpServer.start()
+}
+
+/**
+ * Policy Command (`openvia policy test <tool> [json-args]`)
+ */
+async function policyCommand(args: string[], options: ParsedCLI['options']): Promise<void> {
+  const [subCommand, toolName, argsJson] = args
+  if (subCommand !== 'test' || !toolName) {
+    logger.error('Usage: openvia policy test <tool> [json-args] [--user <id>] [--channel <id>]')
+    logger.error(`Example: openvia policy test write_file '{"path":"/etc/hosts"}' --user 123 --channel telegram`)
+    process.exit(1)
+  }
+
+  let toolArgs: unknown = {}
+  if (argsJson) {
+    try {
+      toolArgs = JSON.parse(argsJson)
+    } catch (error) {
+      logger.error(`Invalid JSON args: ${error instanceof Error ? error.message : String(error)}`)
+      process.exit(1)
+    }
+  }
+
+  let tools: Awaited<ReturnType<typeof initTools>>
+  try {
+    tools = await initTools(toolsConfig())
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  }
+
+  const tool: ToolDefinition = tools.registry.get(toolName) || {
+    name: toolName,
+    description: '',
+    inputSchema: z.unknown(),
+    permissions: [],
+    executor: async () => ({ success: false }),
+  }
+  if (!tools.registry.get(toolName)) {
+    logger.warn(`Tool "${toolName}" is not registered; evaluating the name only`)
+  }
+
+  const decision = await tools.policy.evaluate({
+    tool,
+    args: toolArgs,
+    session: { userId: options.user || 'cli', chatId: options.channel || 'cli' },
+    workDir: process.cwd(),
+  })
+
+  logger.info(`Decision: ${decision.type}`)
+  logger.info(`Rule:     ${decision.rule || '(built-in default)'}`)
+  if (decision.type === 'deny') {
+    logger.info(`Reason:   ${decision.reason}`)
+  } else if (decision.type === 'require_approval') {
+    logger.info(`Prompt:\n${decision.prompt}`)
+  }
+  await stopAgentClient()
+}
+
+/**
+ * Parse an audit / usage time filter: a date, an ISO time or an age (`30m`, `24h`, `7d`)
+ *
+ * Dates given as `--until` include the whole day.
+ */
+function parseAuditTime(value: string, endOfDay: boolean): Date {
+  const age = value.match(/^(\d+)([mhd])$/)
+  if (age) {
+    const unit = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[age[2] as 'm' | 'h' | 'd']
+    return new Date(Date.now() - Number(age[1]) * unit)
+  }
+
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    logger.error(`Invalid time: ${value} (use a date, an ISO time or an age like 24h / 7d)`)
+    process.exit(1)
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1)
+  }
+  return date
+}
+
+/**
+ * Audit Command (`openvia audit [filters]`)
+ */
+async function auditCommand(options: ParsedCLI['options']): Promise<void> {
+  const decisions: AuditEntry['decision'][] = ['allow', 'deny', 'require_approval']
+  if (options.decision && !decisions.includes(options.decision as AuditEntry['decision'])) {
+    logger.error(`Invalid decision: ${options.decision} (use ${decisions.join(', ')})`)
+    process.exit(1)
+  }
+
+  const audit = new AuditLog()
+  await audit.init({ dir: getLogsDir() })
+
+  if (options.verify) {
+    const broken = await audit.verify()
+    if (broken) {
+      logger.error(`Hash chain broken at ${broken.file}:${broken.line} (${broken.reason})`)
+      process.exit(1)
+    }
+    logger.info('Hash chain intact')
+    return
+  }
+
+  const entries = await audit.query({
+    userId: options.user,
+    tool: options.tool,
+    decision: options.decision as AuditEntry['decision'] | undefined,
+    since: options.since ? parseAuditTime(options.since, false) : undefined,
+    until: options.until ? parseAuditTime(options.until, true) : undefined,
+    limit: options.limit,
+  })
+
+  for (const entry of entries) {
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify(entry)}\n`)
+      continue
+    }
+    const subject = entry.kind === 'tool' ? entry.tool : '(message)'
+    const approval = entry.approved !== undefined
+      ? ` ${entry.approved ? 'approved' : 'rejected'}${entry.approver ? ` by ${entry.approver}` : ''}`
+      : ''
+    const details = [
+      entry.status && `${entry.status}${entry.durationMs !== undefined ? ` ${entry.durationMs}ms` : ''}`,
+      entry.rule && `rule=${entry.rule}`,
+      entry.reason || entry.error,
+    ].filter(Boolean).join(' | ')
+    process.stdout.write(
+      `${entry.time}  ${entry.chatId || '-'}:${entry.userId}  ${subject}  ${entry.decision}${approval}${details ? `  ${details}` : ''}\n`
+    )
+    if (entry.args !== undefined) {
+      process.stdout.write(`    ${JSON.stringify(entry.args)}\n`)
+    }
+  }
+  logger.info(`${entries.length} entries`)
+}
+
+/**
+ * Usage Command (`openvia usage [filters]`)
+ *
+ * Prints the token totals per day, user and model, or grouped with `--by`.
+ */
+async function usageCommand(options: ParsedCLI['options']): Promise<void> {
+  const groups = ['day', 'user', 'model']
+  if (options.by && !groups.includes(options.by)) {
+    logger.error(`Invalid grouping: ${options.by} (use ${groups.join(', ')})`)
+    process.exit(1)
+  }
+
+  const usage = new UsageTracker()
+  await usage.init({ file: getUsageFile() })
+  const records = usage.query({
+    userId: options.user,
+    channelId: options.channel,
+    since: options.since ? utcDay(parseAuditTime(options.since, false)) : undefined,
+    until: options.until ? utcDay(parseAuditTime(options.until, true)) : undefined,
+  })
+
+  const keys: Record<string, (record: UsageRecord) => string> = {
+    day: record => record.day,
+    user: record => `${record.channelId}:${record.userId}`,
+    model: record => record.model,
+  }
+  const key = options.by
+    ? keys[options.by]
+    : (record: UsageRecord) => `${record.day}  ${record.channelId}:${record.userId}  ${record.model}`
+  const rows = new Map<string, UsageRecord[]>()
+  for (const record of records) {
+    rows.set(key(record), [...(rows.get(key(record)) || []), record])
+  }
+
+  for (const [name, group] of rows) {
+    const totals = usage.summarize(group)
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify({ [options.by || 'key']: name, ...totals })}\n`)
+      continue
+    }
+    process.stdout.write(
+      `${name}  ${totals.requests} requests  ${totals.promptTokens} in  ${totals.completionTokens} out  ${formatCost(totals.cost)}\n`
+    )
+  }
+
+  const totals = usage.summarize(records)
+  logger.info(
+    `Total: ${totals.requests} requests, ${totals.promptTokens + totals.completionTokens} tokens, ${formatCost(totals.cost)}`
+  )
 }
 
 /**
@@ -159,11 +516,20 @@ function configCommand(args: string[]): void {
  * Graceful Shutdown
  */
 async function shutdown(): Promise<void> {
+  if (shuttingDown) return
+  shuttingDown = true
   logger.info('Shutting down...')
+  if (apiServer) {
+      await apiServer.stop()
+  }
+  if (mcpServer) {
+      await mcpServer.stop()
+  }
   if (botManager) {
       await botManager.stopAll()
   }
-  stopAgentClient()
+  await stopAgentClient()
+  await getUsageTracker().flush()
   logger.info('Goodbye!')
   process.exit(0)
 }
@@ -175,6 +541,11 @@ async function main(): Promise<void> {
   // Parse CLI
   const cli = parseCLI()
 
+  // MCP over stdio: stdout is reserved for the protocol (audit, usage: for the entries)
+  if (cli.command === 'mcp' || cli.command === 'audit' || cli.command === 'usage') {
+    Logger.setConsoleToStderr(true)
+  }
+
   // Load Config
   config = loadConfig(cli.options)
 
@@ -205,6 +576,35 @@ async function main(): Promise<void> {
       configCommand(cli.args)
       break
 
+    case 'policy':
+      await policyCommand(cli.args, cli.options)
+      break
+
+    case 'audit':
+      await auditCommand(cli.options)
+      break
+
+    case 'usage':
+      await usageCommand(cli.options)
+      break
+
+    case 'chat':
+      process.on('SIGTERM', shutdown)
+      await chatCommand()
+      break
+
+    case 'mcp':
+      process.on('SIGINT', shutdown)
+      process.on('SIGTERM', shutdown)
+      await mcpCommand()
+      break
+
+    case 'serve':
+      process.on('SIGINT', shutdown)
+      process.on('SIGTERM', shutdown)
+      await serveCommand(cli.options)
+      break
+
     case 'start':
     default:
       // Handle exit signals
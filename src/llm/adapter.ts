@@ -26,8 +26,22 @@ export type LLMEvent =
   | { type: 'text_delta'; content: string }
   | { type: 'tool_call'; id: string; name: string; args: unknown; meta?: Record<string, unknown> }
   | { type: 'tool_call_delta'; id: string; name?: string; argsFragment?: string }
-  | { type: 'done'; usage?: TokenUsage; responseId?: string }
-  | { type: 'error'; message: string }
+  | { type: 'done'; usage?: TokenUsage; responseId?: string; model?: string }
+  | LLMErrorEvent
+
+/**
+ * Failed request
+ *
+ * `retryable` marks failures worth retrying (timeouts, network errors, 429 and
+ * 5xx responses); `retryAfter` is the server's `Retry-After` in ms.
+ */
+export interface LLMErrorEvent {
+  type: 'error'
+  message: string
+  status?: number
+  retryable?: boolean
+  retryAfter?: number
+}
 
 /** Tool schema (shared JSON Schema) */
 export interface ToolSchema {
@@ -36,16 +50,6 @@ export interface ToolSchema {
   input_schema: Record<string, unknown>  // JSON Schema
 }
 
-/** Tool call result (sent back to model) */
-export interface ToolResult {
-  toolCallId: string
-  toolName?: string
-  toolArgs?: unknown
-  toolCallMeta?: Record<string, unknown>
-  content: string
-  isError?: boolean
-}
-
 // ============================================================================
 // LLM Adapter Interface
 // ============================================================================
@@ -63,11 +67,15 @@ export interface LLMConfig {
 
 /** LLM adapter interface */
 export interface LLMAdapter {
-  /** Send a chat request and return an event stream */
+  /**
+   * Send a chat request and return an event stream
+   *
+   * `messages` is the full transcript, including `tool_call` / `tool_result`
+   * blocks from previous rounds; adapters serialise it in their native format.
+   */
   chat(input: {
     messages: Message[]
     tools?: ToolSchema[]
-    toolResults?: ToolResult[]
     systemPrompt?: string
     previousResponseId?: string
   }): AsyncGenerator<LLMEvent>
@@ -82,6 +90,70 @@ export interface LLMAdapter {
   readonly maxContextTokens: number
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Move `system` messages from the transcript (e.g. the pinned history summary)
+ * into the system prompt, for APIs that only accept a single system instruction.
+ */
+export function mergeSystemMessages(
+  messages: Message[],
+  systemPrompt?: string
+): { messages: Message[]; systemPrompt?: string } {
+  const systemTexts: string[] = systemPrompt ? [systemPrompt] : []
+  const rest: Message[] = []
+
+  for (const msg of messages) {
+    if (msg.role !== 'system') {
+      rest.push(msg)
+      continue
+    }
+    const text = typeof msg.content === 'string'
+      ? msg.content
+      : msg.content.map(block => block.type === 'text' ? block.text : '').join('')
+    if (text) systemTexts.push(text)
+  }
+
+  return {
+    messages: rest,
+    systemPrompt: systemTexts.length > 0 ? systemTexts.join('\n\n') : undefined
+  }
+}
+
+/**
+ * Whether a failed HTTP status is worth retrying: timeouts, rate limits,
+ * overload and server errors
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * `Retry-After` header in ms (seconds or an HTTP date; undefined when missing or invalid)
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Error event of a non-2xx response
+ */
+export function responseError(response: Response, message: string): LLMErrorEvent {
+  return {
+    type: 'error',
+    message: `API error ${response.status}: ${message}`,
+    status: response.status,
+    retryable: isRetryableStatus(response.status),
+    retryAfter: parseRetryAfter(response.headers.get('retry-after'))
+  }
+}
+
 // ============================================================================
 // Factory
 // ============================================================================
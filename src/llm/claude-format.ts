@@ -14,9 +14,9 @@ import type {
   LLMConfig, 
   LLMEvent, 
   ToolSchema, 
-  ToolResult,
   TokenUsage 
 } from './adapter'
+import { mergeSystemMessages, responseError } from './adapter'
 import { Logger } from '../utils/logger'
 
 const logger = new Logger('ClaudeAdapter')
@@ -89,60 +89,55 @@ export class ClaudeFormatAdapter implements LLMAdapter {
   async *chat(input: {
     messages: Message[]
     tools?: ToolSchema[]
-    toolResults?: ToolResult[]
     systemPrompt?: string
     previousResponseId?: string
   }): AsyncGenerator<LLMEvent> {
-    const { messages, tools, toolResults, systemPrompt } = input
+    const { tools } = input
+    // Pinned history summary (system message) joins the system prompt
+    const { messages, systemPrompt } = mergeSystemMessages(input.messages, input.systemPrompt)
     
-    // NOTE: documentation updated to English.
+    // Convert transcript to Claude messages
     const claudeMessages: ClaudeMessage[] = []
     
-    // NOTE: documentation updated to English.
     for (const msg of messages) {
+      // System prompt is passed separately
+      if (msg.role === 'system') continue
+      
+      // Tool results are sent back as a user message with tool_result blocks
+      const role: ClaudeMessage['role'] = msg.role === 'assistant' ? 'assistant' : 'user'
+      
       if (typeof msg.content === 'string') {
-        claudeMessages.push({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content
-        })
-      } else {
-        // Structured content (ContentBlock[])
-        const content: ClaudeContentBlock[] = msg.content.map(block => {
-          if (block.type === 'text') {
-            return { type: 'text' as const, text: block.text }
-          } else {
-            // Image block
+        claudeMessages.push({ role, content: msg.content })
+        continue
+      }
+      
+      // Structured content (ContentBlock[])
+      const content: ClaudeContentBlock[] = msg.content.map((block): ClaudeContentBlock => {
+        switch (block.type) {
+          case 'text':
+            return { type: 'text', text: block.text }
+          case 'image':
             return {
-              type: 'image' as const,
+              type: 'image',
               source: {
-                type: 'base64' as const,
+                type: 'base64',
                 media_type: block.mimeType,
                 data: block.data
               }
             }
-          }
-        })
-        
-        claudeMessages.push({
-          role: msg.role as 'user' | 'assistant',
-          content
-        })
-      }
-    }
-    
-    // NOTE: documentation updated to English.
-    if (toolResults && toolResults.length > 0) {
-      const toolResultBlocks: ClaudeContentBlock[] = toolResults.map(r => ({
-        type: 'tool_result' as const,
-        tool_use_id: r.toolCallId,
-        content: r.content,
-        is_error: r.isError
-      }))
-      
-      claudeMessages.push({
-        role: 'user',
-        content: toolResultBlocks
+          case 'tool_call':
+            return { type: 'tool_use', id: block.id, name: block.name, input: block.args ?? {} }
+          case 'tool_result':
+            return {
+              type: 'tool_result',
+              tool_use_id: block.toolCallId,
+              content: block.content,
+              is_error: block.isError
+            }
+        }
       })
+      
+      claudeMessages.push({ role, content })
     }
     
     // NOTE: documentation updated to English.
@@ -212,7 +207,7 @@ export class ClaudeFormatAdapter implements LLMAdapter {
            }
         }
         
-        yield { type: 'error', message: `API error ${response.status}: ${cleanMessage}` }
+        yield responseError(response, cleanMessage)
         return
       }
       
@@ -322,10 +317,11 @@ export class ClaudeFormatAdapter implements LLMAdapter {
     } catch (error) {
       clearTimeout(timeoutId)
       if (error instanceof Error) {
+        // Timeouts and network errors are retryable (see ResilientAdapter)
         if (error.name === 'AbortError') {
-          yield { type: 'error', message: 'Request timeout' }
+          yield { type: 'error', message: 'Request timeout', retryable: true }
         } else {
-          yield { type: 'error', message: error.message }
+          yield { type: 'error', message: error.message, retryable: true }
         }
       } else {
         yield { type: 'error', message: String(error) }
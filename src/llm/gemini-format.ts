@@ -8,15 +8,15 @@
  * - Other Gemini models
  */
 
-import type { Message } from '../types'
+import type { Message, ToolCallBlock, ToolResultBlock } from '../types'
 import type { 
   LLMAdapter, 
   LLMConfig, 
   LLMEvent, 
   ToolSchema, 
-  ToolResult,
   TokenUsage 
 } from './adapter'
+import { mergeSystemMessages, responseError } from './adapter'
 import { Logger } from '../utils/logger'
 
 const logger = new Logger('GeminiAdapter')
@@ -106,6 +106,21 @@ function sanitizeParts(parts: GeminiPart[]): Array<Record<string, unknown>> {
   })
 }
 
+/**
+ * Drop JSON Schema keywords Gemini function declarations reject
+ * (schemas of external tools, e.g. MCP, are full JSON Schema)
+ */
+function toGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema)
+  if (!schema || typeof schema !== 'object') return schema
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$schema' || key === 'additionalProperties') continue
+    result[key] = toGeminiSchema(value)
+  }
+  return result
+}
+
 function normalizeArgs(args: unknown): Record<string, unknown> {
   if (!args) return {}
   if (typeof args === 'string') {
@@ -178,122 +193,131 @@ export class GeminiFormatAdapter implements LLMAdapter {
     return 32000
   }
   
+  /**
+   * Convert tool results to functionResponse parts, or to text when the
+   * matching call was sent with the text fallback.
+   */
+  private convertToolResults(results: ToolResultBlock[], nativeCallIds: Set<string>): GeminiPart[] {
+    logger.debug(
+      `[gemini] toolResults summary: ${results
+        .map(r => `${r.toolName}:${r.toolCallId}:${(r.content || '').length}`)
+        .join(', ')}`
+    )
+
+    const parts: GeminiPart[] = []
+    const textResults: string[] = []
+
+    for (const r of results) {
+      const normalized = normalizeToolResponse(r.content)
+      logger.debug(
+        `[gemini] functionResponse payload for ${r.toolName} keys=${Object.keys(normalized).join(',') || 'none'}`
+      )
+      if (nativeCallIds.has(r.toolCallId)) {
+        parts.push({
+          functionResponse: {
+            name: r.toolName,
+            response: normalized
+          }
+        })
+      } else {
+        textResults.push(`Tool "${r.toolName}" returned:\n${JSON.stringify(normalized, null, 2)}`)
+      }
+    }
+
+    if (textResults.length > 0) {
+      parts.push({ text: textResults.join('\n\n') + '\n\nPlease use the tool result above to answer the user\'s question.' })
+    }
+
+    return parts
+  }
+  
   async *chat(input: {
     messages: Message[]
     tools?: ToolSchema[]
-    toolResults?: ToolResult[]
     systemPrompt?: string
     previousResponseId?: string
   }): AsyncGenerator<LLMEvent> {
-    const { messages, tools, toolResults, systemPrompt } = input
+    const { tools } = input
+    // Pinned history summary (system message) joins the system prompt
+    const { messages, systemPrompt } = mergeSystemMessages(input.messages, input.systemPrompt)
 
+    const toolResultCount = messages
+      .filter(m => m.role === 'tool' && Array.isArray(m.content))
+      .reduce((count, m) => count + (m.content as unknown[]).length, 0)
     logger.debug(
-      `[gemini] request start messages=${messages.length}, tools=${tools?.length || 0}, toolResults=${toolResults?.length || 0}, systemPrompt=${systemPrompt ? 'yes' : 'no'}`
+      `[gemini] request start messages=${messages.length}, tools=${tools?.length || 0}, toolResults=${toolResultCount}, systemPrompt=${systemPrompt ? 'yes' : 'no'}`
     )
     
-    // NOTE: documentation updated to English.
+    // Convert transcript to Gemini contents
     const geminiContents: GeminiContent[] = []
+
+    // Tool calls sent as native functionCall parts (their results become functionResponse parts)
+    const nativeCallIds = new Set<string>()
     
-    // NOTE: documentation updated to English.
     for (const msg of messages) {
-      if (typeof msg.content === 'string') {
-        geminiContents.push({
-          role: msg.role === 'assistant' ? 'model' : 'user',
-          parts: [{ text: msg.content }]
-        })
-      } else {
-        // Structured content (ContentBlock[])
-        const parts: GeminiPart[] = msg.content.map(block => {
-          if (block.type === 'text') {
-            return { text: block.text }
-          } else {
-            // Image block
-            return {
-              inlineData: {
-                mimeType: block.mimeType,
-                data: block.data
-              }
-            }
-          }
-        })
-        
-        geminiContents.push({
-          role: msg.role === 'assistant' ? 'model' : 'user',
-          parts
-        })
-      }
-    }
-    
-    // NOTE: documentation updated to English.
-    if (toolResults && toolResults.length > 0) {
-      for (const r of toolResults) {
-        if (!r.toolName) {
-          logger.error(
-            `[gemini] toolResult missing toolName (toolCallId=${r.toolCallId}, isError=${r.isError ? 'yes' : 'no'})`
-          )
-          yield { type: 'error', message: 'Gemini tool result missing toolName for functionResponse.' }
-          return
-        }
-      }
+      if (msg.role === 'system') continue
 
-      logger.debug(
-        `[gemini] toolResults summary: ${toolResults
-          .map(r => `${r.toolName}:${r.toolCallId}:${(r.content || '').length}`)
-          .join(', ')}`
-      )
+      const role: GeminiContent['role'] = msg.role === 'assistant' ? 'model' : 'user'
 
-      // Check if all tool results have thoughtSignature (required by Gemini 3)
-      const allHaveSignature = toolResults.every(
-        r => !!(r.toolCallMeta?.thoughtSignature)
-      )
+      if (typeof msg.content === 'string') {
+        geminiContents.push({ role, parts: [{ text: msg.content }] })
+        continue
+      }
 
-      if (allHaveSignature) {
-        // Standard path: use functionCall/functionResponse parts
-        const toolCallParts: GeminiPart[] = toolResults.map(r => ({
-          functionCall: {
-            name: r.toolName!,
-            args: normalizeArgs(r.toolArgs),
-            thoughtSignature: r.toolCallMeta?.thoughtSignature as string
-          }
-        }))
+      if (msg.role === 'tool') {
+        const results = msg.content.filter((block): block is ToolResultBlock => block.type === 'tool_result')
+        geminiContents.push({ role: 'user', parts: this.convertToolResults(results, nativeCallIds) })
+        continue
+      }
 
-        const responseParts: GeminiPart[] = toolResults.map(r => {
-          const normalized = normalizeToolResponse(r.content)
-          logger.debug(
-            `[gemini] functionResponse payload for ${r.toolName} keys=${Object.keys(normalized).join(',') || 'none'}`
-          )
-          return {
-            functionResponse: {
-              name: r.toolName!,
-              response: normalized
-            }
-          }
-        })
+      const toolCalls = msg.content.filter((block): block is ToolCallBlock => block.type === 'tool_call')
 
-        geminiContents.push({ role: 'model', parts: toolCallParts })
-        geminiContents.push({ role: 'user', parts: responseParts })
-      } else {
+      // Check if all tool calls have thoughtSignature (required by Gemini 3)
+      const useNativeCalls = toolCalls.every(tc => !!(tc.meta?.thoughtSignature))
+      if (toolCalls.length > 0 && !useNativeCalls) {
         // Fallback: thoughtSignature missing (proxy API may strip it)
         // Use text-based representation to avoid Gemini 3 400 error
         logger.warn(
-          `[gemini] thoughtSignature missing for ${toolResults.map(r => r.toolName).join(',')}, using text fallback`
+          `[gemini] thoughtSignature missing for ${toolCalls.map(tc => tc.name).join(',')}, using text fallback`
         )
+      }
 
-        const modelText = toolResults.map(r => {
-          const argsStr = JSON.stringify(normalizeArgs(r.toolArgs))
-          return `I called tool "${r.toolName}" with arguments: ${argsStr}`
-        }).join('\n')
-
-        const userText = toolResults.map(r => {
-          const normalized = normalizeToolResponse(r.content)
-          logger.debug(
-            `[gemini] functionResponse payload for ${r.toolName} keys=${Object.keys(normalized).join(',') || 'none'}`
-          )
-          return `Tool "${r.toolName}" returned:\n${JSON.stringify(normalized, null, 2)}`
-        }).join('\n\n')
+      const parts: GeminiPart[] = []
+      for (const block of msg.content) {
+        switch (block.type) {
+          case 'text':
+            parts.push({ text: block.text })
+            break
+          case 'image':
+            parts.push({
+              inlineData: {
+                mimeType: block.mimeType,
+                data: block.data
+              }
+            })
+            break
+          case 'tool_call':
+            if (useNativeCalls) {
+              nativeCallIds.add(block.id)
+              parts.push({
+                functionCall: {
+                  name: block.name,
+                  args: normalizeArgs(block.args),
+                  thoughtSignature: block.meta?.thoughtSignature as string
+                }
+              })
+            } else {
+              parts.push({ text: `I called tool "${block.name}" with arguments: ${JSON.stringify(normalizeArgs(block.args))}` })
+            }
+            break
+          case 'tool_result':
+            // Only expected in tool messages
+            break
+        }
+      }
 
-        geminiContents.push({ role: 'model', parts: [{ text: modelText }] })
-        geminiContents.push({ role: 'user', parts: [{ text: userText + '\n\nPlease use the tool result above to answer the user\'s question.' }] })
+      if (parts.length > 0) {
+        geminiContents.push({ role, parts })
       }
     }
     
@@ -301,7 +325,7 @@ export class GeminiFormatAdapter implements LLMAdapter {
     const functionDeclarations: GeminiFunctionDeclaration[] | undefined = tools?.map(t => ({
       name: t.name,
       description: t.description,
-      parameters: t.input_schema
+      parameters: toGeminiSchema(t.input_schema) as Record<string, unknown>
     }))
     
     // NOTE: documentation updated to English.
@@ -376,7 +400,7 @@ export class GeminiFormatAdapter implements LLMAdapter {
         logger.error(
           `[gemini] API error status=${response.status} body=${errorText.slice(0, 800)}`
         )
-        yield { type: 'error', message: `API error ${response.status}: ${errorText}` }
+        yield responseError(response, errorText)
         return
       }
       
@@ -456,10 +480,11 @@ export class GeminiFormatAdapter implements LLMAdapter {
     } catch (error) {
       clearTimeout(timeoutId)
       if (error instanceof Error) {
+        // Timeouts and network errors are retryable (see ResilientAdapter)
         if (error.name === 'AbortError') {
-          yield { type: 'error', message: 'Request timeout' }
+          yield { type: 'error', message: 'Request timeout', retryable: true }
         } else {
-          yield { type: 'error', message: error.message }
+          yield { type: 'error', message: error.message, retryable: true }
         }
       } else {
         yield { type: 'error', message: String(error) }
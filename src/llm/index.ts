@@ -6,3 +6,4 @@ export * from './adapter'
 export { OpenAIFormatAdapter } from './openai-format'
 export { ClaudeFormatAdapter } from './claude-format'
 export { GeminiFormatAdapter } from './gemini-format'
+export { ResilientAdapter, createResilientAdapter, type RetryConfig } from './resilient'
@@ -8,15 +8,15 @@
  * Compatible with OpenAI-style providers (OpenAI, Qwen, DeepSeek, Moonshot, Ollama, etc.).
  */
 
-import type { Message } from '../types'
+import type { Message, ContentBlock, ToolCallBlock, ToolResultBlock } from '../types'
 import type { 
   LLMAdapter, 
   LLMConfig, 
   LLMEvent, 
   ToolSchema, 
-  ToolResult,
   TokenUsage 
 } from './adapter'
+import { mergeSystemMessages, responseError } from './adapter'
 import { Logger } from '../utils/logger'
 
 const logger = new Logger('OpenAIAdapter')
@@ -179,7 +179,6 @@ export class OpenAIFormatAdapter implements LLMAdapter {
   async *chat(input: {
     messages: Message[]
     tools?: ToolSchema[]
-    toolResults?: ToolResult[]
     systemPrompt?: string
     previousResponseId?: string
   }): AsyncGenerator<LLMEvent> {
@@ -205,11 +204,12 @@ export class OpenAIFormatAdapter implements LLMAdapter {
   private async *chatWithCompletions(baseUrl: string, input: {
     messages: Message[]
     tools?: ToolSchema[]
-    toolResults?: ToolResult[]
     systemPrompt?: string
     previousResponseId?: string
   }): AsyncGenerator<LLMEvent> {
-    const { messages, tools, toolResults, systemPrompt } = input
+    const { tools } = input
+    // Pinned history summary (system message) joins the system prompt
+    const { messages, systemPrompt } = mergeSystemMessages(input.messages, input.systemPrompt)
     
     // NOTE: documentation updated to English.
     const chatMessages: ChatMessage[] = []
@@ -219,18 +219,9 @@ export class OpenAIFormatAdapter implements LLMAdapter {
     }
     
     for (const msg of messages) {
-      chatMessages.push(this.convertToChatMessage(msg))
-    }
-    
-    if (toolResults && toolResults.length > 0) {
-      for (const result of toolResults) {
-        chatMessages.push({
-          role: 'tool',
-          tool_call_id: result.toolCallId,
-          content: result.content
-        })
-      }
+      chatMessages.push(...this.convertToChatMessages(msg))
     }
+    const toolResultCount = chatMessages.filter(m => m.role === 'tool').length
     
     // NOTE: documentation updated to English.
     const chatTools: ChatTool[] | undefined = tools?.map(t => ({
@@ -260,38 +251,71 @@ export class OpenAIFormatAdapter implements LLMAdapter {
     if (this.config.temperature !== undefined) {
       body.temperature = this.config.temperature
     }
-    logger.debug(`[chat.completions] messages=${chatMessages.length}, tools=${chatTools?.length || 0}, toolResults=${toolResults?.length || 0}`)
+    logger.debug(`[chat.completions] messages=${chatMessages.length}, tools=${chatTools?.length || 0}, toolResults=${toolResultCount}`)
     
     // NOTE: documentation updated to English.
     yield* this.streamRequest(url, body, this.parseChatCompletionsEvent.bind(this))
   }
   
   /**
-   * NOTE: documentation updated to English.
+   * Convert a transcript message to Chat Completions messages.
+   *
+   * - assistant tool calls -> `tool_calls` on the assistant message
+   * - tool results -> one `tool` message per result
    */
-  private convertToChatMessage(msg: Message): ChatMessage {
+  private convertToChatMessages(msg: Message): ChatMessage[] {
+    const role = msg.role === 'tool' ? 'user' : msg.role
+
     if (typeof msg.content === 'string') {
-      return {
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content
+      return [{ role, content: msg.content }]
+    }
+    
+    if (msg.role === 'tool') {
+      return msg.content
+        .filter((block): block is ToolResultBlock => block.type === 'tool_result')
+        .map(block => ({
+          role: 'tool' as const,
+          tool_call_id: block.toolCallId,
+          content: block.content
+        }))
+    }
+    
+    if (msg.role === 'assistant') {
+      const text = msg.content
+        .filter((block): block is Extract<ContentBlock, { type: 'text' }> => block.type === 'text')
+        .map(block => block.text)
+        .join('')
+      const toolCalls: ChatToolCall[] = msg.content
+        .filter((block): block is ToolCallBlock => block.type === 'tool_call')
+        .map(block => ({
+          id: block.id,
+          type: 'function' as const,
+          function: {
+            name: block.name,
+            arguments: typeof block.args === 'string' ? block.args : JSON.stringify(block.args ?? {})
+          }
+        }))
+      
+      const message: ChatMessage = { role: 'assistant', content: text || null }
+      if (toolCalls.length > 0) {
+        message.tool_calls = toolCalls
       }
+      return [message]
     }
     
-    const content = msg.content.map(block => {
+    const content: Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> = []
+    for (const block of msg.content) {
       if (block.type === 'text') {
-        return { type: 'text' as const, text: block.text }
-      } else {
-        return {
-          type: 'image_url' as const,
+        content.push({ type: 'text', text: block.text })
+      } else if (block.type === 'image') {
+        content.push({
+          type: 'image_url',
           image_url: { url: `data:${block.mimeType};base64,${block.data}` }
-        }
+        })
       }
-    })
-    
-    return {
-      role: msg.role as 'user' | 'assistant',
-      content
     }
+    
+    return [{ role, content }]
   }
   
   /**
@@ -377,11 +401,12 @@ export class OpenAIFormatAdapter implements LLMAdapter {
   private async *chatWithResponses(url: string, input: {
     messages: Message[]
     tools?: ToolSchema[]
-    toolResults?: ToolResult[]
     systemPrompt?: string
     previousResponseId?: string
   }): AsyncGenerator<LLMEvent> {
-    const { messages, tools, toolResults, systemPrompt, previousResponseId } = input
+    const { tools, previousResponseId } = input
+    // Pinned history summary (system message) joins the system prompt
+    const { messages, systemPrompt } = mergeSystemMessages(input.messages, input.systemPrompt)
     
     // NOTE: documentation updated to English.
     const inputItems: ResponsesInput[] = []
@@ -397,33 +422,13 @@ export class OpenAIFormatAdapter implements LLMAdapter {
     // Convert history messages
     let userMessageCount = 0
     let assistantMessageCount = 0
+    let toolResultCount = 0
     for (const msg of messages) {
       if (msg.role === 'system') continue
       if (msg.role === 'assistant') assistantMessageCount += 1
+      else if (msg.role === 'tool') toolResultCount += 1
       else userMessageCount += 1
-      inputItems.push(this.convertToResponsesMessage(msg))
-    }
-    // Append tool call results for Responses API
-    if (toolResults && toolResults.length > 0) {
-      for (const result of toolResults) {
-        if (!result.toolCallId) continue
-        const args =
-          typeof result.toolArgs === 'string'
-            ? result.toolArgs
-            : JSON.stringify(result.toolArgs ?? {})
-        const name = result.toolName || 'unknown_tool'
-        inputItems.push({
-          type: 'function_call',
-          call_id: result.toolCallId,
-          name,
-          arguments: args
-        })
-        inputItems.push({
-          type: 'function_call_output',
-          call_id: result.toolCallId,
-          output: result.content
-        })
-      }
+      inputItems.push(...this.convertToResponsesItems(msg))
     }
     
     // NOTE: documentation updated to English.
@@ -455,12 +460,12 @@ export class OpenAIFormatAdapter implements LLMAdapter {
       body.temperature = this.config.temperature
     }
     logger.debug(
-      `[responses] inputItems=${inputItems.length}, userMessages=${userMessageCount}, assistantMessages=${assistantMessageCount}, tools=${responsesTools?.length || 0}, toolResults=${toolResults?.length || 0}`
+      `[responses] inputItems=${inputItems.length}, userMessages=${userMessageCount}, assistantMessages=${assistantMessageCount}, tools=${responsesTools?.length || 0}, toolResults=${toolResultCount}`
     )
 
     
     const shouldFallback = (message: string): boolean => {
-      if (!toolResults || toolResults.length === 0) return false
+      if (messages[messages.length - 1]?.role !== 'tool') return false
       return message.includes('upstream_error') || message.includes('API error 400')
     }
 
@@ -480,12 +485,27 @@ export class OpenAIFormatAdapter implements LLMAdapter {
   }
   
   /**
-   * NOTE: documentation updated to English.
+   * Convert a transcript message to Responses API input items.
+   *
+   * - assistant tool calls -> `function_call` items
+   * - tool results -> `function_call_output` items
    */
-  private convertToResponsesMessage(msg: Message): ResponsesInputItem {
-    const role = msg.role === 'assistant' ? 'assistant' : 'user'
+  private convertToResponsesItems(msg: Message): ResponsesInput[] {
+    if (msg.role === 'tool') {
+      if (typeof msg.content === 'string') {
+        return [{ type: 'message', role: 'user', content: [{ type: 'input_text', text: msg.content }] }]
+      }
+      return msg.content
+        .filter((block): block is ToolResultBlock => block.type === 'tool_result')
+        .map(block => ({
+          type: 'function_call_output' as const,
+          call_id: block.toolCallId,
+          output: block.content
+        }))
+    }
 
-    if (role === 'assistant') {
+    if (msg.role === 'assistant') {
+      const items: ResponsesInput[] = []
       const blocks: ResponsesContentBlock[] = []
 
       if (typeof msg.content === 'string') {
@@ -494,15 +514,25 @@ export class OpenAIFormatAdapter implements LLMAdapter {
         for (const block of msg.content) {
           if (block.type === 'text') {
             blocks.push({ type: 'output_text', text: block.text })
+          } else if (block.type === 'tool_call') {
+            items.push({
+              type: 'function_call',
+              call_id: block.id,
+              name: block.name,
+              arguments: typeof block.args === 'string' ? block.args : JSON.stringify(block.args ?? {})
+            })
           }
         }
       }
 
-      if (blocks.length === 0) {
-        blocks.push({ type: 'output_text', text: '' })
+      if (blocks.length > 0 || items.length === 0) {
+        if (blocks.length === 0) {
+          blocks.push({ type: 'output_text', text: '' })
+        }
+        items.unshift({ type: 'message', role: 'assistant', content: blocks })
       }
 
-      return { type: 'message', role, content: blocks }
+      return items
     }
 
     const blocks: ResponsesContentBlock[] = []
@@ -521,7 +551,7 @@ export class OpenAIFormatAdapter implements LLMAdapter {
       }
     }
 
-    return { type: 'message', role, content: blocks }
+    return [{ type: 'message', role: 'user', content: blocks }]
   }
   
   /**
@@ -650,7 +680,7 @@ export class OpenAIFormatAdapter implements LLMAdapter {
         logger.error(
           `OpenAI API request failed: status=${response.status}, url=${url}, ${this.summarizeRequestBody(body)}, error=${this.truncate(errorText)}`
         )
-        yield { type: 'error', message: `API error ${response.status}: ${errorText}` }
+        yield responseError(response, errorText)
         return
       }
       
@@ -673,10 +703,11 @@ export class OpenAIFormatAdapter implements LLMAdapter {
     } catch (error) {
       clearTimeout(timeoutId)
       if (error instanceof Error) {
+        // Timeouts and network errors are retryable (see ResilientAdapter)
         if (error.name === 'AbortError') {
-          yield { type: 'error', message: 'Request timeout' }
+          yield { type: 'error', message: 'Request timeout', retryable: true }
         } else {
-          yield { type: 'error', message: error.message }
+          yield { type: 'error', message: error.message, retryable: true }
         }
       } else {
         yield { type: 'error', message: String(error) }
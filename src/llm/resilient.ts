@@ -0,0 +1,157 @@
+/**
+ * Resilient LLM Adapter - retries and failover
+ *
+ * Wraps an ordered list of adapters (the configured model, then
+ * `llm.fallbacks`). A request that fails before any output was streamed is
+ * retried with exponential backoff when the failure is retryable (timeouts,
+ * network errors, 429 and 5xx responses; `Retry-After` is honoured), then
+ * sent to the next adapter. Other failures (e.g. 400, 401, context length)
+ * are passed on at once, as are failures after output was streamed: the
+ * partial reply cannot be taken back.
+ */
+
+import { createLLMAdapter, type LLMAdapter, type LLMConfig, type LLMErrorEvent, type LLMEvent } from './adapter'
+import { Logger } from '../utils/logger'
+
+const logger = new Logger('LLM')
+
+/** Retry configuration (`llm.retry`) */
+export interface RetryConfig {
+  /** Retries per model after the first attempt (default: 2, 0 = no retries) */
+  maxRetries?: number
+  /** Delay before the first retry in ms, doubled for each further retry (default: 1000) */
+  initialDelay?: number
+  /** Longest delay in ms; a longer `Retry-After` fails over at once (default: 30000) */
+  maxDelay?: number
+}
+
+const DEFAULT_RETRY: Required<RetryConfig> = {
+  maxRetries: 2,
+  initialDelay: 1000,
+  maxDelay: 30000,
+}
+
+export class ResilientAdapter implements LLMAdapter {
+  private adapters: LLMAdapter[]
+  private retry: Required<RetryConfig>
+
+  /**
+   * @param adapters - Primary adapter first, then the fallbacks in order
+   */
+  constructor(adapters: LLMAdapter[], retry: RetryConfig = {}) {
+    if (adapters.length === 0) {
+      throw new Error('ResilientAdapter needs at least one adapter')
+    }
+    this.adapters = adapters
+    this.retry = { ...DEFAULT_RETRY, ...retry }
+  }
+
+  get name(): string {
+    return this.adapters[0].name
+  }
+
+  get model(): string {
+    return this.adapters[0].model
+  }
+
+  /** The smallest window of all models, so the history fits whichever answers */
+  get maxContextTokens(): number {
+    return Math.min(...this.adapters.map(adapter => adapter.maxContextTokens))
+  }
+
+  async *chat(input: Parameters<LLMAdapter['chat']>[0]): AsyncGenerator<LLMEvent> {
+    const failures: string[] = []
+    let lastFailure: LLMErrorEvent | null = null
+
+    for (let i = 0; i < this.adapters.length; i++) {
+      const adapter = this.adapters[i]
+      // Response IDs belong to the provider that issued them
+      const request = i === 0 ? input : { ...input, previousResponseId: undefined }
+
+      for (let attempt = 0; ; attempt++) {
+        let streamed = false
+        let failure: LLMErrorEvent | null = null
+
+        try {
+          for await (const event of adapter.chat(request)) {
+            if (event.type === 'error' && !streamed) {
+              failure = event
+              break
+            }
+            if (event.type === 'text_delta' || event.type === 'tool_call' || event.type === 'tool_call_delta') {
+              streamed = true
+            }
+            yield event.type === 'done' ? { ...event, model: event.model || adapter.model } : event
+          }
+        } catch (error) {
+          if (streamed) throw error
+          failure = { type: 'error', message: error instanceof Error ? error.message : String(error), retryable: true }
+        }
+
+        if (!failure) return
+        lastFailure = failure
+
+        const delay = this.getDelay(failure, attempt)
+        if (delay === null) break
+        logger.warn(
+          `${adapter.name} (${adapter.model}) failed: ${summarize(failure)}; retry ${attempt + 1}/${this.retry.maxRetries} in ${delay}ms`
+        )
+        await sleep(delay)
+      }
+
+      // Another model would refuse the same request
+      if (!lastFailure!.retryable) {
+        yield lastFailure!
+        return
+      }
+
+      failures.push(`${adapter.model}: ${summarize(lastFailure!)}`)
+      const next = this.adapters[i + 1]
+      if (next) {
+        logger.warn(`${adapter.name} (${adapter.model}) failed: ${summarize(lastFailure!)}; failing over to ${next.name} (${next.model})`)
+      }
+    }
+
+    if (this.adapters.length > 1) {
+      logger.error(`All models failed: ${failures.join('; ')}`)
+      yield { ...lastFailure!, message: `All models failed: ${failures.join('; ')}` }
+      return
+    }
+    yield lastFailure!
+  }
+
+  /**
+   * Delay before retrying a failure, or null to give up on this adapter
+   */
+  private getDelay(failure: LLMErrorEvent, attempt: number): number | null {
+    if (!failure.retryable || attempt >= this.retry.maxRetries) return null
+    if (failure.retryAfter !== undefined) {
+      if (failure.retryAfter > this.retry.maxDelay) {
+        logger.warn(`Retry-After of ${Math.ceil(failure.retryAfter / 1000)}s exceeds llm.retry.maxDelay, not retrying`)
+        return null
+      }
+      return failure.retryAfter
+    }
+    return Math.min(this.retry.initialDelay * 2 ** attempt, this.retry.maxDelay)
+  }
+}
+
+/**
+ * Create the adapter of the configured model and its fallbacks
+ *
+ * @param configs - Primary model first, then the fallbacks in order
+ */
+export async function createResilientAdapter(configs: LLMConfig[], retry?: RetryConfig): Promise<LLMAdapter> {
+  const adapters = await Promise.all(configs.map(config => createLLMAdapter(config)))
+  return new ResilientAdapter(adapters, retry)
+}
+
+/** First line of an error message, shortened for logs */
+function summarize(failure: LLMErrorEvent): string {
+  const message = failure.message.split('\n')[0]
+  return message.length > 200 ? `${message.slice(0, 200)}...` : message
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
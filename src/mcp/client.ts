@@ -0,0 +1,354 @@
+/**
+ * MCP Client - external tool servers
+ *
+ * Connects to the Model Context Protocol servers listed in `mcpServers`
+ * (stdio servers are launched as child processes, streamable-HTTP servers are
+ * reached by URL), discovers their tools and registers them into the
+ * `ToolRegistry` as `mcp__<server>__<tool>`.
+ *
+ * Calls go through `ToolExecutor` like any other tool. Each server gets a
+ * `PolicyEngine` rule with its default decision, so MCP tools never fall
+ * through to the built-in name heuristics (e.g. "read" = allow).
+ */
+import { z } from 'zod'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import type { PolicyEngine, PolicyRule } from '../core/policy'
+import type { ToolDefinition, ToolRegistry, ToolResult } from '../core/registry'
+import { Logger } from '../utils/logger'
+import { version } from '../../package.json'
+
+const logger = new Logger('MCP')
+
+/** Default timeout for connecting and for tool calls */
+const DEFAULT_TIMEOUT = 60000
+
+/** Max length of a tool name sent to the model (OpenAI limit) */
+const MAX_TOOL_NAME_LENGTH = 64
+
+/** Decision for the tools of an MCP server */
+export type McpDecision = PolicyRule['decision']
+
+/** MCP server configuration (`mcpServers.<name>`) */
+export interface McpServerConfig {
+  enabled?: boolean
+  /** Executable of a stdio server */
+  command?: string
+  args?: string[]
+  /** Extra environment variables of a stdio server */
+  env?: Record<string, string>
+  cwd?: string
+  /** URL of a streamable-HTTP server */
+  url?: string
+  /** HTTP headers (e.g. Authorization) for a streamable-HTTP server */
+  headers?: Record<string, string>
+  /** Decision for the server's tools (default: require_approval) */
+  defaultDecision?: McpDecision
+  /** Decisions for single tools (original tool name -> decision) */
+  toolDecisions?: Record<string, McpDecision>
+  /** Connect and tool call timeout in ms (default: 60000) */
+  timeout?: number
+}
+
+/** Connection status of an MCP server */
+export interface McpServerStatus {
+  name: string
+  connected: boolean
+  tools: string[]
+  error?: string
+}
+
+/** Tool as listed by an MCP server */
+interface McpTool {
+  name: string
+  description?: string
+  inputSchema: Record<string, unknown>
+}
+
+/** Content item of a tool call result */
+interface McpContent {
+  type: string
+  text?: string
+  mimeType?: string
+  resource?: { uri: string; text?: string }
+}
+
+function sanitizeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_')
+}
+
+/**
+ * Namespaced registry name of an MCP tool
+ */
+export function mcpToolName(server: string, tool: string): string {
+  return `mcp__${sanitizeName(server)}__${sanitizeName(tool)}`.slice(0, MAX_TOOL_NAME_LENGTH)
+}
+
+/**
+ * Map an MCP tool call result to a ToolResult
+ */
+function toToolResult(result: Record<string, unknown>): ToolResult {
+  // Servers on protocol 2024-10-07 return a bare `toolResult`
+  if ('toolResult' in result) {
+    return { success: true, data: result.toolResult }
+  }
+
+  const parts = ((result.content as McpContent[] | undefined) || []).map((item) => {
+    switch (item.type) {
+      case 'text':
+        return item.text || ''
+      case 'resource':
+        return item.resource?.text ?? `[resource: ${item.resource?.uri}]`
+      case 'resource_link':
+        return `[resource: ${(item as { uri?: string }).uri}]`
+      default:
+        return `[${item.type}${item.mimeType ? `: ${item.mimeType}` : ''}]`
+    }
+  })
+  const text = parts.join('\n')
+
+  if (result.isError) {
+    return { success: false, error: text || 'MCP tool call failed' }
+  }
+  return { success: true, data: result.structuredContent ?? text }
+}
+
+// ============================================================================
+// Server Connection
+// ============================================================================
+
+class McpServerConnection {
+  private client: Client | null = null
+  private toolNames: string[] = []
+  private error: string | null = null
+
+  constructor(
+    public readonly name: string,
+    private config: McpServerConfig,
+    private registry: ToolRegistry
+  ) {}
+
+  get timeout(): number {
+    return this.config.timeout || DEFAULT_TIMEOUT
+  }
+
+  async connect(): Promise<void> {
+    const client = new Client({ name: 'openvia', version }, {
+      listChanged: {
+        tools: {
+          onChanged: (error, tools) => {
+            if (error) {
+              logger.warn(`[${this.name}] Failed to refresh tools: ${error.message}`)
+            } else if (tools) {
+              this.registerTools(tools as McpTool[])
+            }
+          },
+        },
+      },
+    })
+    client.onclose = () => {
+      if (this.client !== client) return
+      this.client = null
+      this.error = 'Connection closed'
+      logger.warn(`[${this.name}] Disconnected`)
+    }
+    client.onerror = (error) => {
+      logger.warn(`[${this.name}] ${error.message}`)
+    }
+
+    await client.connect(this.createTransport(), { timeout: this.timeout })
+    this.client = client
+    this.error = null
+
+    const tools: McpTool[] = []
+    let cursor: string | undefined
+    do {
+      const page = await client.listTools(cursor ? { cursor } : undefined, { timeout: this.timeout })
+      tools.push(...(page.tools as McpTool[]))
+      cursor = page.nextCursor
+    } while (cursor)
+
+    this.registerTools(tools)
+    logger.info(`[${this.name}] Connected, ${tools.length} tools`)
+  }
+
+  async close(): Promise<void> {
+    const client = this.client
+    this.client = null
+    this.unregisterTools()
+    if (client) {
+      await client.close()
+    }
+  }
+
+  getStatus(): McpServerStatus {
+    return {
+      name: this.name,
+      connected: this.client !== null,
+      tools: [...this.toolNames],
+      error: this.error || undefined,
+    }
+  }
+
+  setError(error: unknown): void {
+    this.error = error instanceof Error ? error.message : String(error)
+  }
+
+  private createTransport(): Transport {
+    const { command, url } = this.config
+    if (command) {
+      const transport = new StdioClientTransport({
+        command,
+        args: this.config.args || [],
+        env: { ...getDefaultEnvironment(), ...this.config.env },
+        cwd: this.config.cwd,
+        stderr: 'pipe',
+      })
+      transport.stderr?.on('data', (chunk: Buffer) => {
+        for (const line of chunk.toString().split('\n')) {
+          if (line.trim()) logger.debug(`[${this.name}] ${line}`)
+        }
+      })
+      return transport
+    }
+    if (url) {
+      return new StreamableHTTPClientTransport(new URL(url), {
+        requestInit: { headers: this.config.headers },
+      })
+    }
+    throw new Error('Either command (stdio) or url (streamable HTTP) is required')
+  }
+
+  /**
+   * (Re-)register the server's tools, replacing the previous list
+   */
+  private registerTools(tools: McpTool[]): void {
+    this.unregisterTools()
+
+    for (const tool of tools) {
+      const name = mcpToolName(this.name, tool.name)
+      if (this.registry.get(name)) {
+        logger.warn(`[${this.name}] Skipping tool ${tool.name}: ${name} is already registered`)
+        continue
+      }
+      this.registry.register(this.createToolDefinition(name, tool))
+      this.toolNames.push(name)
+    }
+  }
+
+  private unregisterTools(): void {
+    for (const name of this.toolNames) {
+      this.registry.unregister(name)
+    }
+    this.toolNames = []
+  }
+
+  private createToolDefinition(name: string, tool: McpTool): ToolDefinition {
+    return {
+      name,
+      description: `[MCP: ${this.name}] ${tool.description || tool.name}`,
+      // Arguments are validated by the MCP server against its own schema
+      inputSchema: z.unknown(),
+      jsonSchema: tool.inputSchema,
+      permissions: ['mcp'],
+      executor: async (args) => {
+        const client = this.client
+        if (!client) {
+          return { success: false, error: `MCP server "${this.name}" is not connected${this.error ? ` (${this.error})` : ''}` }
+        }
+
+        const result = await client.callTool(
+          { name: tool.name, arguments: (args ?? {}) as Record<string, unknown> },
+          undefined,
+          { timeout: this.timeout }
+        )
+        return toToolResult(result)
+      },
+    }
+  }
+}
+
+// ============================================================================
+// Server Manager
+// ============================================================================
+
+const connections = new Map<string, McpServerConnection>()
+
+/**
+ * Connect to the configured MCP servers and register their tools
+ *
+ * Servers connect concurrently; a server that fails to connect is logged and skipped.
+ */
+export async function connectMcpServers(
+  servers: Record<string, McpServerConfig> | undefined,
+  registry: ToolRegistry,
+  policy: PolicyEngine
+): Promise<void> {
+  const entries = Object.entries(servers || {}).filter(([, config]) => config && config.enabled !== false)
+  if (entries.length === 0) return
+
+  logger.info(`Connecting to ${entries.length} MCP server(s)...`)
+  await Promise.all(entries.map(async ([name, config]) => {
+    if (connections.has(name)) return
+
+    // Policy first: tools must never run without the server's decision in place
+    addServerRules(name, config, policy)
+
+    const connection = new McpServerConnection(name, config, registry)
+    connections.set(name, connection)
+    try {
+      await connection.connect()
+    } catch (error) {
+      connection.setError(error)
+      logger.error(`[${name}] Failed to connect:`, error instanceof Error ? error.message : String(error))
+    }
+  }))
+}
+
+/**
+ * Disconnect from all MCP servers (stdio servers are stopped)
+ */
+export async function disconnectMcpServers(): Promise<void> {
+  await Promise.all([...connections.values()].map(async (connection) => {
+    try {
+      await connection.close()
+    } catch (error) {
+      logger.warn(`[${connection.name}] Failed to close:`, error instanceof Error ? error.message : String(error))
+    }
+  }))
+  connections.clear()
+}
+
+/**
+ * Status of the configured MCP servers
+ */
+export function getMcpServerStatus(): McpServerStatus[] {
+  return [...connections.values()].map(connection => connection.getStatus())
+}
+
+/**
+ * Policy rules of a server: per-tool decisions, then the server default
+ */
+function addServerRules(server: string, config: McpServerConfig, policy: PolicyEngine): void {
+  const reasonFor = (decision: McpDecision) =>
+    decision === 'deny' ? `Denied by configuration of MCP server "${server}"` : undefined
+
+  for (const [tool, decision] of Object.entries(config.toolDecisions || {})) {
+    policy.addRule({
+      name: `mcp:${server}:${tool}`,
+      toolPattern: mcpToolName(server, tool),
+      decision,
+      reason: reasonFor(decision),
+    })
+  }
+
+  const decision = config.defaultDecision || 'require_approval'
+  policy.addRule({
+    name: `mcp:${server}`,
+    toolPattern: `${mcpToolName(server, '')}*`,
+    decision,
+    reason: reasonFor(decision),
+  })
+}
@@ -0,0 +1,6 @@
+/**
+ * MCP Module Exports
+ */
+
+export * from './client'
+export * from './server'
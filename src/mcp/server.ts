@@ -0,0 +1,169 @@
+/**
+ * MCP Server - OpenVia's tools for other agents
+ *
+ * `openvia mcp` publishes everything in the `ToolRegistry` over stdio.
+ * Every call is checked by `PolicyEngine.evaluate`:
+ *
+ * - `allow`: the tool runs
+ * - `deny`: an error result with the reason is returned
+ * - `require_approval`: the client is asked to confirm through MCP elicitation;
+ *   clients without elicitation support get an error result, and calls that
+ *   need designated approvers are denied (the client's user cannot approve them)
+ */
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import type { PolicyEngine, SessionContext } from '../core/policy'
+import type { ToolRegistry } from '../core/registry'
+import { ToolExecutor } from '../core/executor'
+import { getAuditLog, type AuditEntry } from '../core/audit'
+import { Logger } from '../utils/logger'
+import { version } from '../../package.json'
+
+const logger = new Logger('MCPServer')
+
+/** MCP server options */
+export interface McpToolServerOptions {
+  /** User the MCP client acts as (policy, audit; default: mcp) */
+  userId?: string
+  /** Working directory of tool calls (default: current directory) */
+  workDir?: string
+  /** Called when the client disconnects */
+  onClose?: () => void | Promise<void>
+}
+
+function errorResult(message: string): CallToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true }
+}
+
+export class McpToolServer {
+  private server: Server
+  private executor: ToolExecutor
+  private session: SessionContext
+  private workDir: string
+
+  constructor(
+    private registry: ToolRegistry,
+    private policy: PolicyEngine,
+    options: McpToolServerOptions = {}
+  ) {
+    const userId = options.userId || 'mcp'
+    this.session = { userId, chatId: 'mcp' }
+    this.workDir = options.workDir || process.cwd()
+    this.executor = new ToolExecutor(registry)
+
+    this.server = new Server({ name: 'openvia', version }, { capabilities: { tools: {} } })
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.registry.getSchemas().map(schema => ({
+        name: schema.name,
+        description: schema.description,
+        inputSchema: schema.input_schema as { type: 'object'; [key: string]: unknown },
+      })),
+    }))
+    this.server.setRequestHandler(CallToolRequestSchema, (request) =>
+      this.callTool(request.params.name, request.params.arguments ?? {})
+    )
+    this.server.onclose = () => {
+      logger.info('Client disconnected')
+      void options.onClose?.()
+    }
+    this.server.onerror = (error) => {
+      logger.error('Protocol error:', error.message)
+    }
+  }
+
+  async start(): Promise<void> {
+    await this.server.connect(new StdioServerTransport())
+    logger.info(`MCP server running on stdio (${this.registry.getNames().length} tools)`)
+  }
+
+  async stop(): Promise<void> {
+    await this.server.close()
+  }
+
+  private async callTool(name: string, args: unknown): Promise<CallToolResult> {
+    const tool = this.registry.get(name)
+    if (!tool) {
+      return errorResult(`Tool not found: ${name}`)
+    }
+
+    const decision = await this.policy.evaluate({ tool, args, session: this.session, workDir: this.workDir })
+    const audit = (entry: Partial<AuditEntry>) => getAuditLog().record({
+      kind: 'tool',
+      userId: this.session.userId,
+      chatId: this.session.chatId,
+      tool: name,
+      args,
+      decision: decision.type,
+      rule: decision.rule,
+      ...entry,
+    })
+
+    if (decision.type === 'deny') {
+      audit({ reason: decision.reason, status: 'denied' })
+      return errorResult(decision.reason)
+    }
+    let approved: boolean | undefined
+    if (decision.type === 'require_approval' && decision.approvers) {
+      const reason = `Needs approval from ${decision.approvers} designated approver${decision.approvers > 1 ? 's' : ''}, which MCP clients cannot give`
+      logger.warn(`${name}: ${reason}, denied`)
+      audit({ approved: false, reason, status: 'denied' })
+      return errorResult(reason)
+    }
+    if (decision.type === 'require_approval') {
+      approved = await this.requestApproval(decision.prompt)
+      if (!approved) {
+        audit({ approved, status: 'denied' })
+        return errorResult(decision.reason ? `User denied permission: ${decision.reason}` : 'User denied permission')
+      }
+    }
+
+    const started = Date.now()
+    const result = await this.executor.execute({
+      toolName: name,
+      args,
+      context: { userId: this.session.userId, chatId: this.session.chatId, workDir: this.workDir },
+    })
+    audit({
+      // The MCP client's user answers elicitation requests
+      ...(approved ? { approved, approver: this.session.userId } : {}),
+      status: result.success ? 'success' : 'error',
+      error: result.success ? undefined : result.error,
+      durationMs: Date.now() - started,
+    })
+    if (!result.success) {
+      return errorResult(result.error || 'Tool failed')
+    }
+
+    const text = typeof result.data === 'string' ? result.data : JSON.stringify(result.data ?? null, null, 2)
+    return { content: [{ type: 'text', text }] }
+  }
+
+  /**
+   * Ask the client to approve a tool call (MCP elicitation)
+   */
+  private async requestApproval(prompt: string): Promise<boolean> {
+    if (!this.server.getClientCapabilities()?.elicitation) {
+      logger.warn('Tool call needs approval, but the client does not support elicitation: denied')
+      return false
+    }
+
+    try {
+      const response = await this.server.elicitInput({
+        message: prompt,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            approve: { type: 'boolean', title: 'Allow', description: 'Allow this tool call', default: false },
+          },
+          required: ['approve'],
+        },
+      })
+      return response.action === 'accept' && response.content?.approve === true
+    } catch (error) {
+      logger.error('Approval request failed:', error instanceof Error ? error.message : String(error))
+      return false
+    }
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Grants Chat Command
+ *
+ * `/grants` lists the approvals a user has remembered in a chat
+ * ("Allow for this session", "Always allow this pattern") and revokes them.
+ */
+
+import { getGrantStore } from '../core/grants'
+
+const GRANTS_HELP = `Grant commands:
+/grants - List your remembered approvals
+/grants revoke <id> - Revoke one
+/grants clear - Revoke all`
+
+/**
+ * Handle `/grants [list|revoke <id>|clear]`
+ *
+ * @returns Reply text
+ */
+export async function handleGrantsCommand(userId: string, chatId: string, args: string): Promise<string> {
+  const store = getGrantStore()
+  const [action = '', id = ''] = args.trim().split(/\s+/)
+
+  try {
+    switch (action.toLowerCase()) {
+      case '':
+      case 'list': {
+        const grants = store.list(userId, chatId)
+        if (grants.length === 0) return `No remembered approvals\n\n${GRANTS_HELP}`
+        const lines = grants.map(grant =>
+          `${grant.id}  ${grant.tool} \`${grant.pattern}\` (${grant.scope === 'always' ? 'always' : 'this session'})`
+        )
+        return `Remembered approvals:\n${lines.join('\n')}\n\n${GRANTS_HELP}`
+      }
+
+      case 'revoke':
+      case 'delete': {
+        if (!id) return 'Usage: /grants revoke <id>'
+        return await store.revoke(userId, chatId, id)
+          ? `Revoked grant ${id}`
+          : `❌ Grant "${id}" not found`
+      }
+
+      case 'clear': {
+        const count = await store.clear(userId, chatId)
+        return `Revoked ${count} grant${count === 1 ? '' : 's'}`
+      }
+
+      default:
+        return GRANTS_HELP
+    }
+  } catch (error) {
+    return `❌ ${error instanceof Error ? error.message : String(error)}`
+  }
+}
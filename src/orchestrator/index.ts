@@ -4,4 +4,10 @@
 
 export * from './router'
 export * from './session'
+export * from './session-store'
 export * from './policy'
+export * from './workspace'
+export * from './grants'
+export * from './roles'
+export * from './usage'
+export * from './models'
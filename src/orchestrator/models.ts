@@ -0,0 +1,136 @@
+/**
+ * Model Profiles
+ *
+ * `models` in the config names model profiles (format, endpoint, model,
+ * temperature, system prompt, ...). `/model` lists them and `/model <name>`
+ * switches the profile a user talks to in a chat; `default` is `llm`. The
+ * choice is saved to `model-selections.json` in the config directory.
+ *
+ * Roles with `models` limit the profiles a user may pick, by profile name or
+ * model name.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { getLLMInfo, getModelProfiles } from '../ai'
+import { isModelAllowed } from './roles'
+import { Logger } from '../utils/logger'
+
+const logger = new Logger('Models')
+
+/** Name of `llm` in `/model` */
+export const DEFAULT_MODEL_PROFILE = 'default'
+
+let file: string | null = null
+
+/** Chosen profile per user (`<channel>:<user>` -> profile name) */
+let selections: Record<string, string> = {}
+
+/**
+ * Check the profiles and load the users' choices from `file`
+ *
+ * @throws Error if a profile has no model or is named `default`
+ */
+export async function initModels(options: { file: string }): Promise<void> {
+  const profiles = getModelProfiles()
+  for (const [name, profile] of Object.entries(profiles)) {
+    if (name === DEFAULT_MODEL_PROFILE) {
+      throw new Error(`Model profile name "${DEFAULT_MODEL_PROFILE}" is reserved for llm`)
+    }
+    if (!profile?.model) {
+      throw new Error(`Model profile "${name}" has no model`)
+    }
+  }
+
+  file = options.file
+  try {
+    const data = JSON.parse(await readFile(file, 'utf-8')) as { selections?: Record<string, string> }
+    selections = data.selections || {}
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.warn(`Failed to read ${file}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    selections = {}
+  }
+
+  const names = Object.keys(profiles)
+  if (names.length > 0) {
+    logger.info(`Model profiles: ${names.join(', ')}`)
+  }
+}
+
+/**
+ * Profile a user chose in a channel (undefined = `llm`)
+ *
+ * Choices of removed profiles, or of profiles the user's role no longer
+ * allows, fall back to `llm`.
+ */
+export function getUserModel(userId: string, channelId: string): string | undefined {
+  const name = selections[selectionKey(userId, channelId)]
+  if (!name || !getModelProfiles()[name] || !isProfileAllowed(userId, channelId, name)) return undefined
+  return name
+}
+
+/**
+ * Handle `/model [name]`
+ *
+ * @returns Reply text
+ */
+export async function handleModelCommand(userId: string, chatId: string, args: string): Promise<string> {
+  const profiles = getModelProfiles()
+  const name = args.trim()
+  const current = getUserModel(userId, chatId) || DEFAULT_MODEL_PROFILE
+  const defaultModel = getLLMInfo()?.model || 'unknown'
+
+  if (!name) {
+    if (Object.keys(profiles).length === 0) {
+      return `Model: ${defaultModel}\nNo model profiles configured (\`models\` in config.json)`
+    }
+    const mark = (profile: string) => profile === current ? '▶' : '•'
+    const lines = [`${mark(DEFAULT_MODEL_PROFILE)} ${DEFAULT_MODEL_PROFILE}: ${defaultModel}`]
+    for (const [profile, config] of Object.entries(profiles)) {
+      if (!isProfileAllowed(userId, chatId, profile)) continue
+      lines.push(`${mark(profile)} ${profile}: ${config.model}${config.description ? ` - ${config.description}` : ''}`)
+    }
+    return `Models:\n${lines.join('\n')}\n\nSwitch with /model <name>`
+  }
+
+  const isDefault = name === DEFAULT_MODEL_PROFILE
+  if (!isDefault && !profiles[name]) {
+    return `❌ Unknown model "${name}" (available: ${[DEFAULT_MODEL_PROFILE, ...Object.keys(profiles)].join(', ')})`
+  }
+  if (!isDefault && !isProfileAllowed(userId, chatId, name)) {
+    return `❌ Your role may not use model "${name}"`
+  }
+
+  try {
+    await select(userId, chatId, isDefault ? undefined : name)
+  } catch (error) {
+    return `❌ ${error instanceof Error ? error.message : String(error)}`
+  }
+  return `Switched to ${name} (${isDefault ? defaultModel : profiles[name].model})`
+}
+
+/** Roles list profile names or model names */
+function isProfileAllowed(userId: string, channelId: string, name: string): boolean {
+  const model = getModelProfiles()[name]?.model
+  return isModelAllowed(userId, channelId, name) || (!!model && isModelAllowed(userId, channelId, model))
+}
+
+async function select(userId: string, channelId: string, name: string | undefined): Promise<void> {
+  const key = selectionKey(userId, channelId)
+  if (name) {
+    selections[key] = name
+  } else {
+    delete selections[key]
+  }
+  logger.info(`${key} switched to model ${name || DEFAULT_MODEL_PROFILE}`)
+
+  if (!file) return
+  await mkdir(dirname(file), { recursive: true })
+  await writeFile(file, JSON.stringify({ selections }, null, 2))
+}
+
+function selectionKey(userId: string, channelId: string): string {
+  return `${channelId}:${userId}`
+}
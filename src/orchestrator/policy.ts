@@ -2,38 +2,36 @@
  * Permission Control
  */
 
+import { getAuditLog } from '../core/audit'
 import { Logger } from '../utils/logger'
+import { isRoleSkillAllowed } from './roles'
 
 const logger = new Logger('Policy')
 
-/** Audit Log Entry */
-interface AuditEntry {
-  timestamp: number
-  userId: string
-  action: string
-  skill?: string
-  args?: unknown
-  result: 'allowed' | 'denied'
-  reason?: string
-}
-
-/** Audit Log (In-memory storage, should be persisted in production) */
-const auditLog: AuditEntry[] = []
-
-/** Maximum number of audit log entries */
-const MAX_AUDIT_ENTRIES = 1000
-
 /** Allowed user IDs cache (by channel) */
 let allowedUsersByChannelInternal: Record<string, string[]> = {}
 
+/** Allowed workspace IDs cache (by channel, e.g. Discord guilds) */
+let allowedWorkspacesByChannelInternal: Record<string, string[]> = {}
+
 /** Log once per channel to avoid flooding */
 const noWhitelistWarnedChannels = new Set<string>()
 
 interface PolicyChannelConfig {
   telegram?: Array<number | string>
   feishu?: Array<number | string>
+  /** Allowed users per workspace (workspace ID -> user IDs, empty list = whole workspace) */
+  slack?: Record<string, Array<string>>
+  discord?: Array<string>
+  /** Users of the HTTP API (token users) */
+  http?: Array<string>
+  /** Guilds the Discord bot answers in (empty = all) */
+  discordGuilds?: Array<string>
 }
 
+/** Matches every user of a workspace */
+const WORKSPACE_WILDCARD = '*'
+
 function normalizeAllowedIds(ids?: Array<number | string>): string[] {
   if (!ids || ids.length === 0) return []
   return ids
@@ -41,6 +39,26 @@ function normalizeAllowedIds(ids?: Array<number | string>): string[] {
     .filter((id) => id.length > 0)
 }
 
+/**
+ * Flatten per-workspace allowlists into scoped user IDs
+ */
+function normalizeWorkspaceIds(workspaces?: Record<string, Array<number | string>>): string[] {
+  if (!workspaces) return []
+  return Object.entries(workspaces).flatMap(([workspaceId, ids]) => {
+    const userIds = normalizeAllowedIds(ids)
+    return userIds.length > 0
+      ? userIds.map((id) => scopedUserId(workspaceId, id))
+      : [scopedUserId(workspaceId, WORKSPACE_WILDCARD)]
+  })
+}
+
+/**
+ * User ID scoped to a workspace (for channels serving several workspaces, e.g. Slack)
+ */
+export function scopedUserId(workspaceId: string, userId: string): string {
+  return `${workspaceId}:${userId}`
+}
+
 /**
  * Initialize Policy Module
  */
@@ -52,12 +70,19 @@ export function initPolicy(allowedIds: PolicyChannelConfig | number[]): void {
     allowedUsersByChannelInternal = {
       telegram: normalizeAllowedIds(allowedIds)
     }
+    allowedWorkspacesByChannelInternal = {}
     return
   }
 
   allowedUsersByChannelInternal = {
     telegram: normalizeAllowedIds(allowedIds.telegram),
-    feishu: normalizeAllowedIds(allowedIds.feishu)
+    feishu: normalizeAllowedIds(allowedIds.feishu),
+    slack: normalizeWorkspaceIds(allowedIds.slack),
+    discord: normalizeAllowedIds(allowedIds.discord),
+    http: normalizeAllowedIds(allowedIds.http)
+  }
+  allowedWorkspacesByChannelInternal = {
+    discord: normalizeAllowedIds(allowedIds.discordGuilds)
   }
 }
 
@@ -83,47 +108,46 @@ export function isUserAllowed(userId: string, channelId = 'telegram'): boolean {
     return true
   }
 
-  return allowedUsers.includes(String(userId).trim())
+  const id = String(userId).trim()
+  if (allowedUsers.includes(id)) return true
+
+  // Scoped IDs: allow everyone in a whitelisted workspace
+  const separator = id.indexOf(':')
+  return separator > 0 && allowedUsers.includes(scopedUserId(id.slice(0, separator), WORKSPACE_WILDCARD))
 }
 
 /**
- * Check if skill execution is allowed
+ * Check if a workspace (e.g. Discord guild) is allowed
+ *
+ * If no workspace whitelist is configured for the channel, all workspaces are allowed.
  */
-export function isSkillAllowed(userId: string, _skillName: string): boolean {
-  // MVP: All skills are available to authorized users
-  // Can be extended to per-user skill whitelisting in the future
-  return isUserAllowed(userId)
+export function isWorkspaceAllowed(workspaceId: string, channelId: string): boolean {
+  const allowedWorkspaces = allowedWorkspacesByChannelInternal[channelId] || []
+  return allowedWorkspaces.length === 0 || allowedWorkspaces.includes(String(workspaceId).trim())
 }
 
 /**
- * Record Audit Log
+ * Check if skill execution is allowed (whitelisted user whose role includes the skill)
  */
-export function logAudit(entry: Omit<AuditEntry, 'timestamp'>): void {
-  const fullEntry: AuditEntry = {
-    ...entry,
-    timestamp: Date.now(),
-  }
-
-  auditLog.push(fullEntry)
-
-  // Truncate if too long
-  if (auditLog.length > MAX_AUDIT_ENTRIES) {
-    auditLog.splice(0, auditLog.length - MAX_AUDIT_ENTRIES)
-  }
-
-  // Console output
-  const status = entry.result === 'allowed' ? 'ALLOW' : 'DENY'
-  logger.info(
-    `[Audit] ${status} User:${entry.userId} Action:${entry.action}${entry.skill ? ` Skill:${entry.skill}` : ''}${
-      entry.reason ? ` (${entry.reason})` : ''
-    }`
-  )
+export function isSkillAllowed(userId: string, skillName: string, channelId = 'telegram'): boolean {
+  return isUserAllowed(userId, channelId) && isRoleSkillAllowed(userId, channelId, skillName)
 }
 
 /**
- * Get Audit Logs
+ * Record a message in the audit log (whitelist decision)
  */
-export function getAuditLog(limit = 100): AuditEntry[] {
-  return auditLog.slice(-limit)
+export function logAudit(entry: {
+  userId: string
+  channelId?: string
+  action: 'message'
+  result: 'allowed' | 'denied'
+  reason?: string
+}): void {
+  getAuditLog().record({
+    kind: entry.action,
+    userId: entry.userId,
+    chatId: entry.channelId,
+    decision: entry.result === 'allowed' ? 'allow' : 'deny',
+    reason: entry.reason,
+  })
 }
-
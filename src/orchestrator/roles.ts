@@ -0,0 +1,146 @@
+/**
+ * Roles - what each user may do
+ *
+ * `roles.users` maps users to roles per channel; users without an entry get
+ * `roles.default` (none: no limits). A role decides which tools the model sees
+ * and may call, which skills it can read, which models the user may switch
+ * to, and whether the user answers other users' permission requests.
+ *
+ * Built-in roles (can be redefined in `roles.definitions`):
+ * - `viewer`: reads files and skills only
+ * - `developer`: all tools
+ * - `admin`: all tools, approves requests of other users
+ */
+
+import type { SessionContext } from '../core/policy'
+import { matchToolPattern } from '../core/policy-rules'
+import { Logger } from '../utils/logger'
+
+const logger = new Logger('Roles')
+
+/** Role definition */
+export interface RoleConfig {
+  /** Tool name globs the role may use (default: all) */
+  tools?: string[]
+  /** Tool name globs the role may not use, even if listed in `tools` */
+  denyTools?: string[]
+  /** Skill IDs the role may read (default: all) */
+  skills?: string[]
+  /** Model names the role may switch to (default: all) */
+  models?: string[]
+  /** Answer permission requests of other users in the channel (default: false) */
+  approve?: boolean
+}
+
+/** Roles Configuration (`roles`) */
+export interface RolesConfig {
+  /** Role of users without an entry in `users` (default: none) */
+  default?: string
+  /** Custom roles, and overrides of the built-in ones */
+  definitions?: Record<string, RoleConfig>
+  /** Role per user, per channel (channel -> user ID -> role) */
+  users?: Record<string, Record<string, string>>
+}
+
+/** Role of a user */
+export interface Role extends RoleConfig {
+  name: string
+}
+
+/** Limits a role puts on a session */
+export type RoleAccess = Pick<SessionContext, 'allowedTools' | 'deniedTools' | 'allowedSkills'>
+
+const BUILT_IN_ROLES: Record<string, RoleConfig> = {
+  viewer: { tools: ['read_file', 'list_skills', 'read_skill'] },
+  developer: {},
+  admin: { approve: true },
+}
+
+let definitions: Record<string, RoleConfig> = { ...BUILT_IN_ROLES }
+let defaultRole: string | undefined
+let userRoles: Record<string, Record<string, string>> = {}
+
+/**
+ * Initialize roles
+ *
+ * @throws Error if the default role or a user's role is not defined
+ */
+export function initRoles(config: RolesConfig = {}): void {
+  const roles = { ...BUILT_IN_ROLES, ...config.definitions }
+  const check = (role: string, where: string) => {
+    if (!roles[role]) {
+      throw new Error(`Unknown role "${role}" for ${where} (defined: ${Object.keys(roles).join(', ')})`)
+    }
+  }
+
+  if (config.default) check(config.default, 'roles.default')
+  const users: Record<string, Record<string, string>> = {}
+  for (const [channelId, entries] of Object.entries(config.users || {})) {
+    users[channelId] = {}
+    for (const [userId, role] of Object.entries(entries)) {
+      check(role, `${channelId} user ${userId}`)
+      users[channelId][String(userId).trim()] = role
+    }
+  }
+
+  definitions = roles
+  defaultRole = config.default
+  userRoles = users
+
+  const mapped = Object.values(users).reduce((count, entries) => count + Object.keys(entries).length, 0)
+  if (mapped > 0 || defaultRole) {
+    logger.info(`Roles: ${mapped} users mapped${defaultRole ? `, default ${defaultRole}` : ''}`)
+  }
+}
+
+/**
+ * Role of a user in a channel (null = no role, no limits)
+ */
+export function getRole(userId: string, channelId: string): Role | null {
+  const name = userRoles[channelId]?.[String(userId).trim()] || defaultRole
+  if (!name) return null
+  return { name, ...definitions[name] }
+}
+
+/**
+ * Tools and skills a user may use, for the agent session
+ */
+export function getRoleAccess(userId: string, channelId: string): RoleAccess {
+  const role = getRole(userId, channelId)
+  if (!role) return {}
+  return {
+    allowedTools: role.tools,
+    deniedTools: role.denyTools,
+    allowedSkills: role.skills,
+  }
+}
+
+/**
+ * Whether a user may use a skill
+ */
+export function isRoleSkillAllowed(userId: string, channelId: string, skill: string): boolean {
+  const skills = getRole(userId, channelId)?.skills
+  return !skills || skills.includes(skill)
+}
+
+/**
+ * Whether a user may switch to a model
+ */
+export function isModelAllowed(userId: string, channelId: string, model: string): boolean {
+  const models = getRole(userId, channelId)?.models
+  return !models || models.some(pattern => matchToolPattern(model, pattern))
+}
+
+/**
+ * Users whose role approves requests, per channel (merged into `approvals.approvers`)
+ */
+export function getRoleApprovers(): Record<string, string[]> {
+  const approvers: Record<string, string[]> = {}
+  for (const [channelId, entries] of Object.entries(userRoles)) {
+    const ids = Object.entries(entries)
+      .filter(([, role]) => definitions[role]?.approve)
+      .map(([userId]) => userId)
+    if (ids.length > 0) approvers[channelId] = ids
+  }
+  return approvers
+}
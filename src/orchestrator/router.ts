@@ -2,22 +2,27 @@
  * Orchestrator Router
  */
 
-import { callAgent, ensureWorkDir } from '../ai'
-import { getSession } from './session'
+import { callAgent, compactHistory } from '../ai'
+import { getSession, saveSession, addMessage, addMessages } from './session'
 import { isUserAllowed, logAudit } from './policy'
+import { getWorkspace, handleWorkspaceCommand } from './workspace'
+import { handleGrantsCommand } from './grants'
+import { handleUsageCommand } from './usage'
+import { getUserModel, handleModelCommand } from './models'
+import { getRoleAccess } from './roles'
+import { getUsageTracker } from '../core/usage'
 import { Logger } from '../utils/logger'
 import { runWithContext } from '../utils/context'
+import { PermissionBridge, describeCancelled } from '../utils/permission-bridge'
 
 const logger = new Logger('Router')
 
 export interface RouterConfig {
-  workDir: string
   maxSteps: number // Deprecated but kept for type compatibility
   timeout: number
 }
 
 let routerConfig: RouterConfig = {
-  workDir: '.openvia',
   maxSteps: 5,
   timeout: 120000,
 }
@@ -25,8 +30,7 @@ let routerConfig: RouterConfig = {
 /** Initialize router configuration */
 export async function initRouter(config: Partial<RouterConfig>): Promise<void> {
   routerConfig = { ...routerConfig, ...config }
-  await ensureWorkDir(routerConfig.workDir)
-  logger.info(`Initialized with workDir: ${routerConfig.workDir}`)
+  logger.info('Initialized')
 }
 
 /**
@@ -42,51 +46,137 @@ export function getRouterConfig(): RouterConfig {
  * 使用新的 Agent Client 架构
  */
 import type { ContentBlock } from '../types/protocol'
+import type { StreamingReply, StreamingReplyFactory } from '../bot/types'
+import type { AgentEvent } from '../core/gateway'
 
 /**
  * Handle user message (Orchestrator core loop)
  * 
  * 使用新的 Agent Client 架构
+ * 
+ * When the channel supports it (`createStream`), the reply is streamed while the model types.
  */
 export async function handleMessage(
   input: string | ContentBlock[],
   userId: string,
   channelId: string,
-  sendReply: (text: string) => Promise<void>
+  sendReply: (text: string) => Promise<void>,
+  createStream?: StreamingReplyFactory,
+  origin?: string
 ): Promise<void> {
   const logContent = typeof input === 'string' ? input : '[Multimedia Message]'
   logger.info(`Handling message from ${userId} via ${channelId}: ${logContent.slice(0, 50)}...`)
 
-  return runWithContext({ userId, channelId, sendReply }, async () => {
+  return runWithContext({ userId, channelId, sendReply, origin }, async () => {
     // Permission check
     if (!isUserAllowed(userId, channelId)) {
-      logAudit({ userId, action: 'message', result: 'denied', reason: 'User not in whitelist' })
+      logAudit({ userId, channelId, action: 'message', result: 'denied', reason: 'User not in whitelist' })
       await sendReply("Sorry, you don't have permission to use this Bot.")
       return
     }
 
-    logAudit({ userId, action: 'message', result: 'allowed' })
+    // Workspace, grant, usage and model commands are answered directly, without the agent
+    const workspaceCommand = typeof input === 'string' && input.trim().match(/^\/workspace(?:@\S+)?(?:\s+([\s\S]*))?$/i)
+    if (workspaceCommand) {
+      await sendReply(await handleWorkspaceCommand(userId, channelId, workspaceCommand[1] || ''))
+      return
+    }
+    const grantsCommand = typeof input === 'string' && input.trim().match(/^\/grants(?:@\S+)?(?:\s+([\s\S]*))?$/i)
+    if (grantsCommand) {
+      await sendReply(await handleGrantsCommand(userId, channelId, grantsCommand[1] || ''))
+      return
+    }
+    const usageCommand = typeof input === 'string' && input.trim().match(/^\/usage(?:@\S+)?(?:\s+([\s\S]*))?$/i)
+    if (usageCommand) {
+      await sendReply(await handleUsageCommand(userId, channelId, usageCommand[1] || ''))
+      return
+    }
+    const modelCommand = typeof input === 'string' && input.trim().match(/^\/model(?:@\S+)?(?:\s+([\s\S]*))?$/i)
+    if (modelCommand) {
+      await sendReply(await handleModelCommand(userId, channelId, modelCommand[1] || ''))
+      return
+    }
+
+    // `/cancel` denies the user's pending permission requests
+    if (typeof input === 'string' && /^\/cancel(?:@\S+)?$/i.test(input.trim())) {
+      await sendReply(describeCancelled(PermissionBridge.getInstance().cancelRequests(userId, channelId)))
+      return
+    }
+
+    // Rate limits and daily token / cost budgets
+    const usage = getUsageTracker()
+    const refused = usage.checkLimits(userId, channelId)
+    if (refused) {
+      logAudit({ userId, channelId, action: 'message', result: 'denied', reason: refused })
+      await sendReply(`⏳ ${refused}`)
+      return
+    }
+    logAudit({ userId, channelId, action: 'message', result: 'allowed' })
+
+    // Add user message to history (loads the session from the store on first use)
+    await addMessage(userId, channelId, { role: 'user', content: input })
+    const session = await getSession(userId, channelId)
 
-    const session = getSession(userId, channelId)
+    // Model profile chosen with `/model`
+    const model = getUserModel(userId, channelId)
 
-    // Add user message to history
-    session.history.push({ role: 'user', content: input })
+    // Summarise older turns when the history nears the model's context budget
+    const compacted = await compactHistory(session.history, model)
+    if (compacted) {
+      session.history = compacted
+      await saveSession(session)
+    }
+
+    // Streaming reply (placeholder message edited as text arrives)
+    let stream: StreamingReply | null = null
+    if (createStream) {
+      try {
+        stream = await createStream()
+      } catch (error) {
+        logger.warn('Failed to start streaming reply, falling back to a single reply:', error instanceof Error ? error.message : String(error))
+      }
+    }
+    const reply = (text: string) => stream ? stream.finish(text) : sendReply(text)
+
+    // Tools run in the user's workspace
+    const workspace = await getWorkspace(userId, channelId)
 
     // 使用新架构的 callAgent
-    const requestContext = { userId, channelId, sendReply }
+    const requestContext = {
+      userId,
+      channelId,
+      sendReply,
+      workDir: workspace.path,
+      origin,
+      // The user's role limits the tools and skills the agent sees
+      access: getRoleAccess(userId, channelId),
+      model,
+      onPartialReply: stream ? (text: string) => stream!.update(text) : undefined,
+      onEvent: stream?.onEvent ? (event: AgentEvent) => stream!.onEvent!(event) : undefined
+    }
     const response = await callAgent(
       input,
       { history: session.history },
       requestContext
     )
+    if (response.usage) {
+      usage.record(userId, channelId, response.usage)
+    }
 
     if (response.action === 'reply' && response.message) {
-        await sendReply(response.message)
-        session.history.push({ role: 'assistant', content: response.message })
+        await reply(response.message)
+        // Store the full turn transcript (tool calls, tool results, final answer)
+        await addMessages(
+          userId,
+          channelId,
+          response.messages && response.messages.length > 0
+            ? response.messages
+            : [{ role: 'assistant', content: response.message }]
+        )
     } else if (response.action === 'error') {
-        await sendReply(`❌ Error: ${response.message}`)
+        await reply(`❌ Error: ${response.message}`)
     } else {
-        await sendReply('(No content returned)')
+        await reply('(No content returned)')
     }
   })
 }
@@ -0,0 +1,234 @@
+/**
+ * Session Store
+ *
+ * Persistence backends for conversation sessions.
+ * - `file`: one JSON-lines file per `userId:chatId` under the sessions directory (default)
+ * - `memory`: no store at all, sessions only live in the `session.ts` cache
+ *
+ * The interface is kept small so that other backends (e.g. SQLite) can be added later.
+ */
+
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { Mutex } from 'async-mutex'
+import type { Message } from '../types'
+import { Logger } from '../utils/logger'
+
+const logger = new Logger('SessionStore')
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Persisted session data */
+export interface SessionRecord {
+  userId: string
+  chatId: string
+  history: Message[]
+  lastActivity: number
+}
+
+/** Session summary (without history) */
+export type SessionMeta = Omit<SessionRecord, 'history'>
+
+/** Session store interface */
+export interface SessionStore {
+  /** Store name */
+  readonly name: string
+
+  /** Load a session, returns null if it does not exist */
+  load(userId: string, chatId: string): Promise<SessionRecord | null>
+
+  /** Persist the full session (replaces previous content) */
+  save(record: SessionRecord): Promise<void>
+
+  /** Delete a session */
+  delete(userId: string, chatId: string): Promise<void>
+
+  /** List all persisted sessions */
+  list(): Promise<SessionMeta[]>
+}
+
+/** Session store type */
+export type SessionStoreType = 'file' | 'memory'
+
+// ============================================================================
+// JSON-lines File Store
+// ============================================================================
+
+/** First line of a session file */
+interface SessionHeaderLine {
+  type: 'session'
+  userId: string
+  chatId: string
+  lastActivity: number
+}
+
+/** Following lines of a session file */
+interface SessionMessageLine {
+  type: 'message'
+  message: Message
+}
+
+type SessionLine = SessionHeaderLine | SessionMessageLine
+
+/**
+ * JSON-lines file store
+ *
+ * File layout (`<sessionsDir>/<encoded userId:chatId>.jsonl`):
+ *   {"type":"session","userId":"...","chatId":"...","lastActivity":1700000000000}
+ *   {"type":"message","message":{"role":"user","content":"..."}}
+ *   ...
+ *
+ * Writes go to a temp file first and are renamed into place, so a crash never
+ * leaves a half-written session behind.
+ */
+export class JsonlSessionStore implements SessionStore {
+  readonly name = 'file'
+  private dir: string
+  private locks = new Map<string, Mutex>()
+
+  constructor(dir: string) {
+    this.dir = dir
+  }
+
+  async load(userId: string, chatId: string): Promise<SessionRecord | null> {
+    const filePath = this.getFilePath(userId, chatId)
+
+    let content: string
+    try {
+      content = await fs.readFile(filePath, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+
+    return this.parse(content, filePath)
+  }
+
+  async save(record: SessionRecord): Promise<void> {
+    const filePath = this.getFilePath(record.userId, record.chatId)
+    const header: SessionHeaderLine = {
+      type: 'session',
+      userId: record.userId,
+      chatId: record.chatId,
+      lastActivity: record.lastActivity
+    }
+    const lines: SessionLine[] = [
+      header,
+      ...record.history.map((message): SessionMessageLine => ({ type: 'message', message }))
+    ]
+    const content = lines.map(line => JSON.stringify(line)).join('\n') + '\n'
+
+    await this.getLock(filePath).runExclusive(async () => {
+      await fs.mkdir(this.dir, { recursive: true })
+      const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+      try {
+        await fs.writeFile(tmpPath, content, 'utf8')
+        await fs.rename(tmpPath, filePath)
+      } catch (error) {
+        await fs.rm(tmpPath, { force: true })
+        throw error
+      }
+    })
+  }
+
+  async delete(userId: string, chatId: string): Promise<void> {
+    const filePath = this.getFilePath(userId, chatId)
+    await this.getLock(filePath).runExclusive(async () => {
+      await fs.rm(filePath, { force: true })
+    })
+    this.locks.delete(filePath)
+  }
+
+  async list(): Promise<SessionMeta[]> {
+    let entries: string[]
+    try {
+      entries = await fs.readdir(this.dir)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+
+    const result: SessionMeta[] = []
+    for (const entry of entries) {
+      if (!entry.endsWith('.jsonl')) continue
+      const filePath = path.join(this.dir, entry)
+      try {
+        const content = await fs.readFile(filePath, 'utf8')
+        const firstLine = content.split('\n', 1)[0]
+        const header = JSON.parse(firstLine) as SessionLine
+        if (header.type === 'session') {
+          result.push({ userId: header.userId, chatId: header.chatId, lastActivity: header.lastActivity })
+        }
+      } catch {
+        logger.warn(`Skipping unreadable session file: ${filePath}`)
+      }
+    }
+    return result
+  }
+
+  /**
+   * Parse file content, tolerating a corrupted trailing line
+   */
+  private parse(content: string, filePath: string): SessionRecord | null {
+    let record: SessionRecord | null = null
+
+    for (const raw of content.split('\n')) {
+      const line = raw.trim()
+      if (!line) continue
+
+      let parsed: SessionLine
+      try {
+        parsed = JSON.parse(line) as SessionLine
+      } catch {
+        logger.warn(`Ignoring malformed line in ${filePath}`)
+        continue
+      }
+
+      if (parsed.type === 'session') {
+        record = {
+          userId: parsed.userId,
+          chatId: parsed.chatId,
+          lastActivity: parsed.lastActivity,
+          history: []
+        }
+      } else if (parsed.type === 'message' && record) {
+        record.history.push(parsed.message)
+      }
+    }
+
+    return record
+  }
+
+  private getFilePath(userId: string, chatId: string): string {
+    return path.join(this.dir, `${encodeURIComponent(`${userId}:${chatId}`)}.jsonl`)
+  }
+
+  private getLock(filePath: string): Mutex {
+    let lock = this.locks.get(filePath)
+    if (!lock) {
+      lock = new Mutex()
+      this.locks.set(filePath, lock)
+    }
+    return lock
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create a session store from config (`memory` returns null)
+ */
+export function createSessionStore(type: SessionStoreType, dir: string): SessionStore | null {
+  switch (type) {
+    case 'memory':
+      return null
+    case 'file':
+      return new JsonlSessionStore(dir)
+    default:
+      throw new Error(`Unsupported session store: ${type}`)
+  }
+}
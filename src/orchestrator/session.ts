@@ -4,26 +4,63 @@
 
 import type { Message } from '../types'
 import { Logger } from '../utils/logger'
+import { createSessionStore, type SessionStore, type SessionStoreType } from './session-store'
+import { getGrantStore } from '../core/grants'
 
 const logger = new Logger('Session')
 
 /** Session Data */
-interface Session {
+export interface Session {
   userId: string
   chatId: string
   history: Message[]
   lastActivity: number
 }
 
-/** Session Storage (In-memory) */
+/** Session Configuration */
+export interface SessionConfig {
+  /** Persistence backend */
+  store: SessionStoreType
+  /** Directory for the file store */
+  dir: string
+  /** Days to keep inactive sessions in the store */
+  retentionDays: number
+}
+
+/** Loaded sessions (In-memory cache in front of the store) */
 const sessions: Map<string, Session> = new Map()
 
-/** Maximum number of history messages */
-const MAX_HISTORY = 20
+/** Sessions currently being loaded from the store */
+const loadingSessions: Map<string, Promise<Session>> = new Map()
+
+/** Session store (null = in-memory only) */
+let store: SessionStore | null = null
 
-/** Session timeout (30 minutes) */
+/** Session timeout (30 minutes), idle sessions are evicted from memory */
 const SESSION_TIMEOUT = 30 * 60 * 1000
 
+/** Default retention period for persisted sessions */
+const DEFAULT_RETENTION_DAYS = 30
+
+let retentionMs = DEFAULT_RETENTION_DAYS * 24 * 60 * 60 * 1000
+
+/**
+ * Initialize session storage
+ */
+export async function initSessions(config: Partial<SessionConfig> & { dir: string }): Promise<void> {
+  const type = config.store || 'file'
+  store = createSessionStore(type, config.dir)
+  retentionMs = (config.retentionDays ?? DEFAULT_RETENTION_DAYS) * 24 * 60 * 60 * 1000
+  sessions.clear()
+  loadingSessions.clear()
+
+  logger.info(
+    `Session store: ${store ? `${store.name} (${config.dir}, retention ${config.retentionDays ?? DEFAULT_RETENTION_DAYS} days)` : 'memory'}`
+  )
+
+  await cleanupExpiredSessions()
+}
+
 /**
  * Get Session Key
  */
@@ -31,59 +68,133 @@ function getSessionKey(userId: string, chatId: string): string {
   return `${userId}:${chatId}`
 }
 
+/**
+ * Load a session from the store (lazy, on first access)
+ */
+async function loadSession(userId: string, chatId: string): Promise<Session> {
+  let record = null
+  if (store) {
+    try {
+      record = await store.load(userId, chatId)
+    } catch (error) {
+      logger.error(`[Session] Failed to load session ${getSessionKey(userId, chatId)}:`, error)
+    }
+  }
+
+  if (record) {
+    logger.debug(`[Session] Loaded ${record.history.length} messages for ${getSessionKey(userId, chatId)}`)
+    return record
+  }
+
+  return {
+    userId,
+    chatId,
+    history: [],
+    lastActivity: Date.now(),
+  }
+}
+
 /**
  * Get or Create Session
  */
-export function getSession(userId: string, chatId: string): Session {
+export async function getSession(userId: string, chatId: string): Promise<Session> {
   const key = getSessionKey(userId, chatId)
   let session = sessions.get(key)
 
   if (!session) {
-    session = {
-      userId,
-      chatId,
-      history: [],
-      lastActivity: Date.now(),
+    let pending = loadingSessions.get(key)
+    if (!pending) {
+      pending = loadSession(userId, chatId)
+      loadingSessions.set(key, pending)
+    }
+
+    try {
+      session = await pending
+    } finally {
+      loadingSessions.delete(key)
+    }
+
+    // Another caller may have stored it while we were waiting
+    const existing = sessions.get(key)
+    if (existing) {
+      session = existing
+    } else {
+      sessions.set(key, session)
     }
-    sessions.set(key, session)
   }
 
   session.lastActivity = Date.now()
   return session
 }
 
+/**
+ * Persist session to the store
+ */
+export async function saveSession(session: Session): Promise<void> {
+  if (!store) return
+
+  try {
+    await store.save({
+      userId: session.userId,
+      chatId: session.chatId,
+      history: session.history,
+      lastActivity: session.lastActivity,
+    })
+  } catch (error) {
+    logger.error(`[Session] Failed to save session ${getSessionKey(session.userId, session.chatId)}:`, error)
+  }
+}
+
 /**
  * Add message to history
  */
-export function addMessage(userId: string, chatId: string, message: Message): void {
-  const session = getSession(userId, chatId)
-  session.history.push(message)
+export async function addMessage(userId: string, chatId: string, message: Message): Promise<void> {
+  await addMessages(userId, chatId, [message])
+}
 
-  // Truncate history if too long
-  if (session.history.length > MAX_HISTORY) {
-    session.history = session.history.slice(-MAX_HISTORY)
-  }
+/**
+ * Add several messages to history (saved once)
+ */
+export async function addMessages(userId: string, chatId: string, messages: Message[]): Promise<void> {
+  const session = await getSession(userId, chatId)
+  session.history.push(...messages)
+
+  // History size is bounded by token-based compaction (see core/context-manager.ts)
+  await saveSession(session)
 }
 
 /**
  * Get conversation history
  */
-export function getHistory(userId: string, chatId: string): Message[] {
-  return getSession(userId, chatId).history
+export async function getHistory(userId: string, chatId: string): Promise<Message[]> {
+  return (await getSession(userId, chatId)).history
 }
 
 /**
  * Clear session
  */
-export function clearSession(userId: string, chatId: string): void {
+export async function clearSession(userId: string, chatId: string): Promise<void> {
   const key = getSessionKey(userId, chatId)
   sessions.delete(key)
+  // "Allow for this session" grants end with the conversation
+  await getGrantStore().clear(userId, chatId, 'session')
+
+  if (store) {
+    try {
+      await store.delete(userId, chatId)
+    } catch (error) {
+      logger.error(`[Session] Failed to delete session ${key}:`, error)
+    }
+  }
 }
 
 /**
  * Clean up expired sessions
+ *
+ * - Idle sessions are evicted from memory (they stay in the store)
+ * - Persisted sessions older than the retention period are deleted
  */
-export function cleanupExpiredSessions(): void {
+export async function cleanupExpiredSessions(): Promise<void> {
   const now = Date.now()
   for (const [key, session] of sessions.entries()) {
     if (now - session.lastActivity > SESSION_TIMEOUT) {
@@ -91,8 +202,23 @@ export function cleanupExpiredSessions(): void {
       logger.info(`[Session] Cleaned up expired session: ${key}`)
     }
   }
-}
 
-// Periodically clean up expired sessions (every 5 minutes)
-setInterval(cleanupExpiredSessions, 5 * 60 * 1000)
+  if (!store) return
+
+  try {
+    for (const meta of await store.list()) {
+      const key = getSessionKey(meta.userId, meta.chatId)
+      if (now - meta.lastActivity > retentionMs && !sessions.has(key)) {
+        await store.delete(meta.userId, meta.chatId)
+        logger.info(`[Session] Deleted session past retention: ${key}`)
+      }
+    }
+  } catch (error) {
+    logger.error('[Session] Failed to clean up persisted sessions:', error)
+  }
+}
 
+// Periodically clean up expired sessions (every 5 minutes; does not keep one-shot commands alive)
+setInterval(() => {
+  void cleanupExpiredSessions()
+}, 5 * 60 * 1000).unref()
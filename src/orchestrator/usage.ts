@@ -0,0 +1,68 @@
+/**
+ * Usage Chat Command
+ *
+ * `/usage` shows a user's token usage and cost today and over the last days,
+ * per model, with the limits that apply to them.
+ */
+
+import { formatCost, getUsageTracker, utcDay, type UsageLimits, type UsageTotals } from '../core/usage'
+
+const DEFAULT_DAYS = 7
+
+const MAX_DAYS = 365
+
+/**
+ * Handle `/usage [days]`
+ *
+ * @returns Reply text
+ */
+export async function handleUsageCommand(userId: string, chatId: string, args: string): Promise<string> {
+  const value = args.trim()
+  const days = value ? Number(value) : DEFAULT_DAYS
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    return `Usage: /usage [days] (1-${MAX_DAYS}, default ${DEFAULT_DAYS})`
+  }
+
+  const tracker = getUsageTracker()
+  const now = new Date()
+  const today = utcDay(now)
+  const since = utcDay(new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000))
+  const records = tracker.query({ userId, channelId: chatId, since })
+
+  const lines = [`Today: ${describeTotals(tracker.summarize(records.filter(record => record.day === today)))}`]
+  if (days > 1) {
+    lines.push(`Last ${days} days: ${describeTotals(tracker.summarize(records))}`)
+  }
+  for (const model of [...new Set(records.map(record => record.model))].sort()) {
+    lines.push(`  ${model}: ${describeTotals(tracker.summarize(records.filter(record => record.model === model)))}`)
+  }
+
+  const limits = describeLimits(tracker.getLimits(userId, chatId).user)
+  if (limits) lines.push(`Limits: ${limits}`)
+  return lines.join('\n')
+}
+
+/** e.g. "3 requests, 12,345 tokens (10,000 in / 2,345 out), $0.0042" */
+function describeTotals(totals: UsageTotals): string {
+  const tokens = totals.promptTokens + totals.completionTokens
+  const parts = [
+    `${totals.requests} request${totals.requests === 1 ? '' : 's'}`,
+    `${formatNumber(tokens)} tokens (${formatNumber(totals.promptTokens)} in / ${formatNumber(totals.completionTokens)} out)`,
+  ]
+  if (totals.cost > 0) parts.push(formatCost(totals.cost))
+  return parts.join(', ')
+}
+
+/** e.g. "10 messages/minute, 100,000 tokens/day" (empty without limits) */
+function describeLimits(limits: UsageLimits): string {
+  return [
+    limits.messagesPerMinute && `${limits.messagesPerMinute} messages/minute`,
+    limits.messagesPerHour && `${limits.messagesPerHour} messages/hour`,
+    limits.dailyTokens && `${formatNumber(limits.dailyTokens)} tokens/day`,
+    limits.dailyCost && `${formatCost(limits.dailyCost)}/day`,
+  ].filter(Boolean).join(', ')
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-US')
+}
@@ -0,0 +1,338 @@
+/**
+ * Workspace Management
+ *
+ * Each user in each channel gets their own directories under
+ * `<config dir>/workspaces/<channel>-<user>/`, one per named workspace
+ * (`default` unless the user switches). Tools run with the active workspace as
+ * their working directory; the file sandbox and shell backends resolve paths
+ * against it.
+ *
+ * Channels listed in `shared` (default: the terminal) keep using the current
+ * directory.
+ */
+
+import { createHash } from 'node:crypto'
+import { lstat, mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { isWithin } from '../core/sandbox'
+import { Logger } from '../utils/logger'
+import { formatSize, parseSize } from '../utils/size'
+
+const logger = new Logger('Workspace')
+
+/** Workspace Configuration */
+export interface WorkspaceConfig {
+  /** Default: true */
+  enabled?: boolean
+  /** Directory holding all workspaces (default: `<config dir>/workspaces`) */
+  dir?: string
+  /** Disk quota per workspace, e.g. "1g" (default: none) */
+  quota?: string | number
+  /** Channels that use the current directory instead of workspaces (default: ["terminal"]) */
+  shared?: string[]
+}
+
+/** Workspace of a user */
+export interface Workspace {
+  name: string
+  path: string
+}
+
+const DEFAULT_WORKSPACE = 'default'
+
+/** State file in each user directory (active workspace) */
+const STATE_FILE = '.workspace.json'
+
+/** Disk usage is cached briefly, it is checked before every writing tool call */
+const USAGE_CACHE_TTL = 10 * 1000
+
+const NAME_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]{0,63}$/
+
+let config: Required<Omit<WorkspaceConfig, 'quota'>> & { quota?: number } = {
+  enabled: true,
+  dir: '',
+  shared: ['terminal'],
+}
+
+/** Active workspace per user directory */
+const activeWorkspaces: Map<string, string> = new Map()
+
+const usageCache: Map<string, { bytes: number; time: number }> = new Map()
+
+/**
+ * Initialize workspaces
+ */
+export async function initWorkspaces(options: WorkspaceConfig & { dir: string }): Promise<void> {
+  const quota = options.quota !== undefined ? parseSize(options.quota) : undefined
+  if (options.quota !== undefined && quota === undefined) {
+    throw new Error(`Invalid workspace quota: ${options.quota}`)
+  }
+
+  config = {
+    enabled: options.enabled !== false,
+    dir: options.dir,
+    shared: options.shared || ['terminal'],
+    quota,
+  }
+  activeWorkspaces.clear()
+  usageCache.clear()
+
+  if (config.enabled) {
+    await mkdir(config.dir, { recursive: true })
+    logger.info(`Workspaces: ${config.dir}${quota ? ` (quota ${formatSize(quota)})` : ''}`)
+  }
+}
+
+/**
+ * Whether a channel uses per-user workspaces
+ */
+export function usesWorkspaces(channelId: string): boolean {
+  return config.enabled && !!config.dir && !config.shared.includes(channelId)
+}
+
+/**
+ * Directory holding the workspaces of a user in a channel
+ */
+function getUserDir(userId: string, chatId: string): string {
+  const key = `${chatId}-${userId}`
+  const safe = key.replace(/[^A-Za-z0-9_.-]/g, '_')
+  // Keep distinct IDs apart after replacing characters
+  const suffix = safe !== key ? `-${createHash('sha256').update(key).digest('hex').slice(0, 8)}` : ''
+  return join(config.dir, `${safe}${suffix}`)
+}
+
+async function getActiveName(userDir: string): Promise<string> {
+  const cached = activeWorkspaces.get(userDir)
+  if (cached) return cached
+
+  let name = DEFAULT_WORKSPACE
+  try {
+    const state = JSON.parse(await readFile(join(userDir, STATE_FILE), 'utf-8')) as { active?: string }
+    if (state.active && NAME_PATTERN.test(state.active)) name = state.active
+  } catch {
+    // No state yet
+  }
+  activeWorkspaces.set(userDir, name)
+  return name
+}
+
+async function setActiveName(userDir: string, name: string): Promise<void> {
+  await mkdir(userDir, { recursive: true })
+  await writeFile(join(userDir, STATE_FILE), JSON.stringify({ active: name }, null, 2))
+  activeWorkspaces.set(userDir, name)
+}
+
+function validateName(name: string): void {
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error('Workspace names may contain letters, digits, "_", "-" and "." (max 64 characters)')
+  }
+}
+
+// ============================================================================
+// Workspaces
+// ============================================================================
+
+/**
+ * Get the active workspace of a user (created on first use)
+ */
+export async function getWorkspace(userId: string, chatId: string): Promise<Workspace> {
+  if (!usesWorkspaces(chatId)) {
+    return { name: '(current directory)', path: process.cwd() }
+  }
+
+  const userDir = getUserDir(userId, chatId)
+  const name = await getActiveName(userDir)
+  const path = join(userDir, name)
+  await mkdir(path, { recursive: true })
+  return { name, path }
+}
+
+/**
+ * List the workspaces of a user
+ */
+export async function listWorkspaces(userId: string, chatId: string): Promise<string[]> {
+  const userDir = getUserDir(userId, chatId)
+  try {
+    const entries = await readdir(userDir, { withFileTypes: true })
+    return entries
+      .filter(entry => entry.isDirectory() && NAME_PATTERN.test(entry.name))
+      .map(entry => entry.name)
+      .sort()
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Create a workspace and switch to it
+ *
+ * @throws Error if the name is invalid or the workspace exists
+ */
+export async function createWorkspace(userId: string, chatId: string, name: string): Promise<Workspace> {
+  validateName(name)
+  const userDir = getUserDir(userId, chatId)
+  if ((await listWorkspaces(userId, chatId)).includes(name)) {
+    throw new Error(`Workspace "${name}" already exists`)
+  }
+
+  const path = join(userDir, name)
+  await mkdir(path, { recursive: true })
+  await setActiveName(userDir, name)
+  logger.info(`Created workspace ${path}`)
+  return { name, path }
+}
+
+/**
+ * Switch to an existing workspace
+ *
+ * @throws Error if the workspace does not exist
+ */
+export async function switchWorkspace(userId: string, chatId: string, name: string): Promise<Workspace> {
+  validateName(name)
+  if (!(await listWorkspaces(userId, chatId)).includes(name)) {
+    throw new Error(`Workspace "${name}" does not exist`)
+  }
+
+  const userDir = getUserDir(userId, chatId)
+  await setActiveName(userDir, name)
+  return { name, path: join(userDir, name) }
+}
+
+/**
+ * Delete a workspace and its files; deleting the active workspace switches to `default`
+ *
+ * @throws Error if the workspace does not exist
+ */
+export async function deleteWorkspace(userId: string, chatId: string, name: string): Promise<void> {
+  validateName(name)
+  if (!(await listWorkspaces(userId, chatId)).includes(name)) {
+    throw new Error(`Workspace "${name}" does not exist`)
+  }
+
+  const userDir = getUserDir(userId, chatId)
+  const path = join(userDir, name)
+  await rm(path, { recursive: true, force: true })
+  usageCache.delete(path)
+  if (await getActiveName(userDir) === name) {
+    await setActiveName(userDir, DEFAULT_WORKSPACE)
+  }
+  logger.info(`Deleted workspace ${path}`)
+}
+
+// ============================================================================
+// Disk Quota
+// ============================================================================
+
+/**
+ * Disk usage of a directory in bytes (symlinks are not followed)
+ */
+export async function getDiskUsage(path: string): Promise<number> {
+  const cached = usageCache.get(path)
+  if (cached && Date.now() - cached.time < USAGE_CACHE_TTL) return cached.bytes
+
+  const bytes = await measure(path)
+  usageCache.set(path, { bytes, time: Date.now() })
+  return bytes
+}
+
+async function measure(path: string): Promise<number> {
+  let stats
+  try {
+    stats = await lstat(path)
+  } catch {
+    return 0
+  }
+  if (!stats.isDirectory()) return stats.size
+
+  let total = 0
+  let entries: string[] = []
+  try {
+    entries = await readdir(path)
+  } catch {
+    return 0
+  }
+  for (const entry of entries) {
+    total += await measure(join(path, entry))
+  }
+  return total
+}
+
+/**
+ * Check the disk quota of the workspace containing `workDir`
+ *
+ * @returns Why writing is denied, or null when under quota (or outside the workspaces)
+ */
+export async function checkWorkspaceQuota(workDir: string): Promise<string | null> {
+  if (!config.enabled || !config.quota || !config.dir || !isWithin(config.dir, workDir)) return null
+
+  const used = await getDiskUsage(workDir)
+  if (used < config.quota) return null
+  return `Workspace disk quota exceeded (${formatSize(used)} used of ${formatSize(config.quota)}). ` +
+    'Delete files or switch to another workspace with /workspace.'
+}
+
+// ============================================================================
+// Chat Command
+// ============================================================================
+
+const WORKSPACE_HELP = `Workspace commands:
+/workspace - Show the current workspace
+/workspace list - List your workspaces
+/workspace new <name> - Create a workspace and switch to it
+/workspace use <name> - Switch to a workspace
+/workspace delete <name> - Delete a workspace and its files`
+
+/**
+ * Handle `/workspace [list|new|use|delete] [name]`
+ *
+ * @returns Reply text
+ */
+export async function handleWorkspaceCommand(userId: string, chatId: string, args: string): Promise<string> {
+  if (!usesWorkspaces(chatId)) {
+    return `Workspaces are not used in this channel; tools run in ${process.cwd()}`
+  }
+
+  const [action = '', name = ''] = args.trim().split(/\s+/)
+  try {
+    switch (action.toLowerCase()) {
+      case '': {
+        const workspace = await getWorkspace(userId, chatId)
+        const used = await getDiskUsage(workspace.path)
+        const quota = config.quota ? ` of ${formatSize(config.quota)}` : ''
+        return `Workspace: ${workspace.name}\nDisk usage: ${formatSize(used)}${quota}\n\n${WORKSPACE_HELP}`
+      }
+
+      case 'list': {
+        const current = await getWorkspace(userId, chatId)
+        const names = await listWorkspaces(userId, chatId)
+        return `Workspaces:\n${names.map(n => `${n === current.name ? '* ' : '- '}${n}`).join('\n')}`
+      }
+
+      case 'new':
+      case 'create': {
+        if (!name) return 'Usage: /workspace new <name>'
+        const workspace = await createWorkspace(userId, chatId, name)
+        return `Created and switched to workspace "${workspace.name}"`
+      }
+
+      case 'use':
+      case 'switch': {
+        if (!name) return 'Usage: /workspace use <name>'
+        const workspace = await switchWorkspace(userId, chatId, name)
+        return `Switched to workspace "${workspace.name}"`
+      }
+
+      case 'delete': {
+        if (!name) return 'Usage: /workspace delete <name>'
+        await deleteWorkspace(userId, chatId, name)
+        const current = await getWorkspace(userId, chatId)
+        return `Deleted workspace "${name}" (current: ${current.name})`
+      }
+
+      default:
+        return WORKSPACE_HELP
+    }
+  } catch (error) {
+    return `❌ ${error instanceof Error ? error.message : String(error)}`
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Server Module Exports
+ */
+
+export * from './openai'
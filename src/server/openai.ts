@@ -0,0 +1,423 @@
+/**
+ * OpenAI-compatible Server
+ *
+ * Exposes the agent as a model, so existing OpenAI SDK clients can use OpenVia:
+ *
+ * - `POST /v1/chat/completions`  Chat completion (JSON, or SSE chunks with `"stream": true`)
+ * - `GET  /v1/models`            List the model (a single entry, `serve.model`)
+ * - `GET  /v1/models/:id`        Retrieve the model
+ *
+ * Requests are stateless: the conversation is taken from `messages` on every call.
+ * Usage limits apply per API user (channel `openai`); refused requests get 429.
+ * Tools run on the server with the usual `PolicyEngine` checks; tool calls that need
+ * approval are denied, allowed, or sent to a chat channel (see `ApprovalMode`).
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http'
+import { v4 as uuidv4 } from 'uuid'
+import { callAgent } from '../ai'
+import { estimateMessagesTokens, estimateTextTokens, getUsageTracker, type ApprovalAnswer, type TurnUsage } from '../core'
+import { logAudit } from '../orchestrator/policy'
+import { getRoleAccess } from '../orchestrator/roles'
+import { getWorkspace } from '../orchestrator/workspace'
+import { Logger } from '../utils/logger'
+import { getBearerToken, HttpApiToken, HttpError, readJsonBody, sendJson, TokenStore } from '../utils/http'
+import { PermissionBridge } from '../utils/permission-bridge'
+import type { ContentBlock, Message } from '../types/protocol'
+
+const logger = new Logger('OpenAIServer')
+
+/** Max request body size (images are sent inline as data URLs) */
+const MAX_BODY_BYTES = 20 * 1024 * 1024
+
+/** User of requests when no tokens are configured */
+const LOCAL_USER_ID = 'local'
+
+/**
+ * How tool calls that require approval are answered
+ *
+ * - `deny`: always denied (default)
+ * - `allow`: always approved (tools denied by the policy stay denied)
+ * - `channel`: asked in a chat channel (`approvalChannel` / `approvalUserId`)
+ */
+export type ApprovalMode = 'deny' | 'allow' | 'channel'
+
+/** OpenAI-compatible server options */
+export interface OpenAIServerOptions {
+  host?: string
+  port?: number
+  /** Model ID reported to clients (default: openvia) */
+  model?: string
+  /** Bearer tokens, each acting as a user (none = no authentication, loopback only) */
+  tokens?: HttpApiToken[]
+  approvals?: ApprovalMode
+  /** Channel asked for approval (`approvals: channel`) */
+  approvalChannel?: string
+  /** User of the approval channel asked for approval */
+  approvalUserId?: string
+}
+
+/** Chat message in OpenAI format (the parts used here) */
+interface ChatMessage {
+  role: string
+  content?: string | ChatContentPart[] | null
+}
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: string | { url: string } }
+
+/** Parsed chat completion request */
+interface ChatRequest {
+  input: string | ContentBlock[]
+  history: Message[]
+  systemPrompt?: string
+  stream: boolean
+}
+
+/** Error body in OpenAI format */
+function errorBody(status: number, message: string): unknown {
+  const type = status === 401 ? 'authentication_error'
+    : status >= 500 ? 'server_error'
+    : status === 404 ? 'not_found_error'
+    : status === 429 ? 'rate_limit_error'
+    : 'invalid_request_error'
+  return { error: { message, type, param: null, code: null } }
+}
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.')
+}
+
+export class OpenAIServer {
+  private host: string
+  private port: number
+  private model: string
+  private tokens: TokenStore
+  private approvals: ApprovalMode
+  private approvalChannel?: string
+  private approvalUserId?: string
+  private created = Math.floor(Date.now() / 1000)
+
+  private server: Server | null = null
+
+  constructor(options: OpenAIServerOptions = {}) {
+    this.host = options.host || '127.0.0.1'
+    this.port = options.port ?? 8788
+    this.model = options.model || 'openvia'
+    this.tokens = new TokenStore(options.tokens)
+    this.approvals = options.approvals || 'deny'
+    this.approvalChannel = options.approvalChannel
+    this.approvalUserId = options.approvalUserId
+  }
+
+  async start(): Promise<void> {
+    if (this.tokens.size === 0 && !isLoopback(this.host)) {
+      throw new Error(`Refusing to listen on ${this.host} without API tokens (serve.tokens)`)
+    }
+    if (this.approvals === 'channel' && (!this.approvalChannel || !this.approvalUserId)) {
+      throw new Error('serve.approvals is "channel" but serve.approvalChannel / serve.approvalUserId is not set')
+    }
+    if (this.tokens.size === 0) {
+      logger.warn('No API tokens configured, accepting unauthenticated requests on loopback')
+    }
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500
+        if (status === 500) logger.error('Error handling request:', error)
+        if (!res.headersSent) {
+          sendJson(res, status, errorBody(status, error instanceof Error ? error.message : String(error)))
+        } else {
+          res.end()
+        }
+      })
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+    this.server = server
+    logger.info(`OpenAI-compatible API listening on http://${this.host}:${this.port}/v1 (model: ${this.model}, approvals: ${this.approvals})`)
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return
+    logger.info('Stopping OpenAI-compatible API...')
+    const server = this.server
+    this.server = null
+    server.closeAllConnections()
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+  }
+
+  // ============================================================================
+  // HTTP
+  // ============================================================================
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url || '/', 'http://localhost').pathname.replace(/\/+$/, '')
+
+    const userId = this.authenticate(req)
+    if (!userId) {
+      throw new HttpError(401, 'Invalid or missing bearer token')
+    }
+
+    if (req.method === 'GET' && path === '/v1/models') {
+      sendJson(res, 200, { object: 'list', data: [this.modelInfo()] })
+      return
+    }
+
+    const modelMatch = path.match(/^\/v1\/models\/([^/]+)$/)
+    if (req.method === 'GET' && modelMatch) {
+      if (decodeURIComponent(modelMatch[1]) !== this.model) {
+        throw new HttpError(404, `The model '${decodeURIComponent(modelMatch[1])}' does not exist`)
+      }
+      sendJson(res, 200, this.modelInfo())
+      return
+    }
+
+    if (req.method === 'POST' && path === '/v1/chat/completions') {
+      const request = this.parseChatRequest(await readJsonBody(req, MAX_BODY_BYTES))
+      const refused = getUsageTracker().checkLimits(userId, 'openai')
+      if (refused) {
+        logAudit({ userId, channelId: 'openai', action: 'message', result: 'denied', reason: refused })
+        throw new HttpError(429, refused)
+      }
+      await (request.stream
+        ? this.streamCompletion(res, userId, request)
+        : this.completion(res, userId, request))
+      return
+    }
+
+    throw new HttpError(404, 'Not found')
+  }
+
+  /**
+   * Non-streaming completion
+   */
+  private async completion(res: ServerResponse, userId: string, request: ChatRequest): Promise<void> {
+    const response = await this.runAgent(userId, request)
+    if (response.action === 'error') {
+      throw new HttpError(500, response.message || 'Agent error')
+    }
+
+    const content = response.message || ''
+    sendJson(res, 200, {
+      id: `chatcmpl-${uuidv4()}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: this.model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: 'stop',
+      }],
+      usage: this.getUsage(request, content, response.usage),
+    })
+  }
+
+  /**
+   * Streaming completion (`chat.completion.chunk` events, ends with `[DONE]`)
+   */
+  private async streamCompletion(res: ServerResponse, userId: string, request: ChatRequest): Promise<void> {
+    const id = `chatcmpl-${uuidv4()}`
+    const created = Math.floor(Date.now() / 1000)
+    const send = (data: unknown) => {
+      if (!res.writableEnded) res.write(`data: ${JSON.stringify(data)}\n\n`)
+    }
+    const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) => send({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model: this.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    })
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    })
+    chunk({ role: 'assistant', content: '' })
+
+    const response = await this.runAgent(userId, request, (event) => {
+      if (event.type === 'text_delta') chunk({ content: event.content })
+    })
+
+    if (response.action === 'error') {
+      send(errorBody(500, response.message || 'Agent error'))
+    } else {
+      chunk({}, 'stop')
+    }
+    if (!res.writableEnded) {
+      res.write('data: [DONE]\n\n')
+      res.end()
+    }
+  }
+
+  // ============================================================================
+  // Agent
+  // ============================================================================
+
+  private async runAgent(
+    userId: string,
+    request: ChatRequest,
+    onEvent?: Parameters<typeof callAgent>[2]['onEvent']
+  ): ReturnType<typeof callAgent> {
+    logAudit({ userId, channelId: 'openai', action: 'message', result: 'allowed' })
+    logger.info(`Completion for ${userId} (${request.history.length} messages${request.stream ? ', streaming' : ''})`)
+
+    const workspace = await getWorkspace(userId, 'openai')
+    const response = await callAgent(request.input, { history: request.history, systemPrompt: request.systemPrompt }, {
+      userId,
+      channelId: 'openai',
+      workDir: workspace.path,
+      access: getRoleAccess(userId, 'openai'),
+      sendReply: async () => undefined,
+      onEvent,
+      requestPermission: (prompt) => this.requestPermission(userId, prompt),
+    })
+    if (response.usage) {
+      getUsageTracker().record(userId, 'openai', response.usage)
+    }
+    return response
+  }
+
+  /**
+   * Answer a tool approval according to the approval mode
+   */
+  private async requestPermission(userId: string, prompt: string): Promise<ApprovalAnswer> {
+    switch (this.approvals) {
+      case 'allow':
+        logger.info(`Auto-approved tool call for ${userId}`)
+        return { approved: true, approver: 'auto' }
+
+      case 'channel': {
+        const answer = await PermissionBridge.getInstance().request(`API request from ${userId}:\n\n${prompt}`, {
+          userId: this.approvalUserId!,
+          channelId: this.approvalChannel!,
+          sendReply: async () => undefined,
+        })
+        return { approved: answer.decision === 'allow', approver: answer.approver }
+      }
+
+      default:
+        logger.info(`Auto-denied tool call for ${userId}`)
+        return { approved: false, approver: 'auto' }
+    }
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  private authenticate(req: IncomingMessage): string | null {
+    if (this.tokens.size === 0) return LOCAL_USER_ID
+    return this.tokens.resolve(getBearerToken(req))
+  }
+
+  private modelInfo() {
+    return { id: this.model, object: 'model', created: this.created, owned_by: 'openvia' }
+  }
+
+  /**
+   * Map OpenAI `messages` to the agent input and history
+   *
+   * System (and developer) messages are added to the system prompt. Assistant tool calls
+   * and tool messages are skipped: tools run on the server, not in the client.
+   */
+  private parseChatRequest(body: any): ChatRequest {
+    if (!Array.isArray(body?.messages) || body.messages.length === 0) {
+      throw new HttpError(400, 'messages must be a non-empty array')
+    }
+
+    const systemParts: string[] = []
+    const history: Message[] = []
+    for (const message of body.messages as ChatMessage[]) {
+      switch (message?.role) {
+        case 'system':
+        case 'developer':
+          systemParts.push(this.parseText(message.content))
+          break
+        case 'user':
+          history.push({ role: 'user', content: this.parseContent(message.content) })
+          break
+        case 'assistant': {
+          const text = this.parseText(message.content)
+          if (text) history.push({ role: 'assistant', content: text })
+          break
+        }
+        case 'tool':
+        case 'function':
+          break
+        default:
+          throw new HttpError(400, `Unsupported message role: ${message?.role}`)
+      }
+    }
+
+    const last = history[history.length - 1]
+    if (!last || last.role !== 'user') {
+      throw new HttpError(400, 'The last message must be a user message')
+    }
+
+    return {
+      input: last.content,
+      history,
+      systemPrompt: systemParts.filter(Boolean).join('\n\n') || undefined,
+      stream: body.stream === true,
+    }
+  }
+
+  private parseContent(content: ChatMessage['content']): string | ContentBlock[] {
+    if (typeof content === 'string') return content
+    if (!Array.isArray(content)) {
+      throw new HttpError(400, 'message content must be a string or an array of content parts')
+    }
+
+    const blocks = content.map((part): ContentBlock => {
+      if (part?.type === 'text') return { type: 'text', text: String(part.text ?? '') }
+      if (part?.type === 'image_url') return this.parseImage(part.image_url)
+      throw new HttpError(400, `Unsupported content part: ${(part as { type?: string })?.type}`)
+    })
+    return blocks.length === 1 && blocks[0].type === 'text' ? blocks[0].text : blocks
+  }
+
+  private parseText(content: ChatMessage['content']): string {
+    if (typeof content === 'string') return content
+    if (!Array.isArray(content)) return ''
+    return content
+      .filter((part): part is { type: 'text'; text: string } => part?.type === 'text')
+      .map(part => part.text)
+      .join('\n')
+  }
+
+  /**
+   * Images must be inline data URLs (remote URLs are not fetched by the server)
+   */
+  private parseImage(imageUrl: string | { url: string }): ContentBlock {
+    const url = typeof imageUrl === 'string' ? imageUrl : imageUrl?.url
+    const match = String(url || '').match(/^data:(image\/[\w.+-]+);base64,(.+)$/)
+    if (!match) {
+      throw new HttpError(400, 'image_url must be a base64 data URL (data:image/...;base64,...)')
+    }
+    return { type: 'image', mimeType: match[1], data: match[2] }
+  }
+
+  /**
+   * Token usage reported by the provider (summed over the model calls of the
+   * turn), estimated when the provider reports none
+   */
+  private getUsage(request: ChatRequest, content: string, usage?: TurnUsage) {
+    const promptTokens = usage?.promptTokens
+      ?? estimateMessagesTokens(request.history) + estimateTextTokens(request.systemPrompt || '')
+    const completionTokens = usage?.completionTokens ?? estimateTextTokens(content)
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    }
+  }
+}
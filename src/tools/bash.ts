@@ -3,12 +3,10 @@
  */
 
 import { z } from 'zod'
-import { exec } from 'node:child_process'
-import { promisify } from 'node:util'
 import type { ToolDefinition, ToolResult, ExecutionContext } from '../core/registry'
+import { capShellTimeout, getShellBackend } from '../exec'
 import { Logger } from '../utils/logger'
 
-const execAsync = promisify(exec)
 const logger = new Logger('Tool:Bash')
 
 /** Input schema */
@@ -32,15 +30,40 @@ export const bashTool: ToolDefinition = {
     
     const { command, timeout = 30000 } = parsed.data
     
+    const backend = getShellBackend()
+    const limit = capShellTimeout(timeout)
+    
     try {
-      logger.info(`[Bash] Executing: ${command.slice(0, 100)}...`)
+      logger.info(`[Bash] Executing (${backend.name}): ${command.slice(0, 100)}...`)
       
-      const { stdout, stderr } = await execAsync(command, {
+      const { stdout, stderr, exitCode, timedOut } = await backend.run({
+        command,
         cwd: ctx.workDir,
-        timeout,
-        maxBuffer: 10 * 1024 * 1024 // 10MB
+        timeout: limit,
+        userId: ctx.userId,
+        chatId: ctx.chatId
       })
       
+      if (timedOut) {
+        return {
+          success: false,
+          error: `Command timed out after ${limit}ms`,
+          data: stdout || stderr ? { stdout, stderr } : undefined
+        }
+      }
+      
+      if (exitCode !== 0) {
+        // Command failed but returned output.
+        if (stdout || stderr) {
+          return {
+            success: false,
+            error: `Command failed with exit code ${exitCode ?? 'unknown'}`,
+            data: { stdout, stderr }
+          }
+        }
+        return { success: false, error: `Command failed with exit code ${exitCode ?? 'unknown'}` }
+      }
+      
       const output = stdout + (stderr ? `\n[stderr]: ${stderr}` : '')
       
       return {
@@ -48,23 +71,9 @@ export const bashTool: ToolDefinition = {
         data: output.trim()
       }
     } catch (error) {
-      const err = error as { message: string; code?: number; signal?: string; stdout?: string; stderr?: string }
-      
-      // Command failed but returned output.
-      if (err.stdout || err.stderr) {
-        return {
-          success: false,
-          error: `Command failed with exit code ${err.code || 'unknown'}`,
-          data: {
-            stdout: err.stdout,
-            stderr: err.stderr
-          }
-        }
-      }
-      
       return {
         success: false,
-        error: err.message
+        error: error instanceof Error ? error.message : String(error)
       }
     }
   }
@@ -24,6 +24,7 @@ export const editTool: ToolDefinition = {
   description: 'Edit a file by replacing specific content. Searches for oldContent and replaces it with newContent.',
   inputSchema,
   permissions: ['write'],
+  pathArgs: ['path'],
   
   async executor(args: unknown, ctx: ExecutionContext): Promise<ToolResult> {
     const parsed = inputSchema.safeParse(args)
@@ -22,6 +22,7 @@ export const readTool: ToolDefinition = {
   description: 'Read the contents of a file. Returns the file content as a string.',
   inputSchema,
   permissions: ['read'],
+  pathArgs: ['path'],
   
   async executor(args: unknown, ctx: ExecutionContext): Promise<ToolResult> {
     const parsed = inputSchema.safeParse(args)
@@ -25,7 +25,7 @@ export const readSkillTool: ToolDefinition = {
   inputSchema,
   permissions: ['skill'],
   
-  async executor(args: unknown, _ctx: ExecutionContext): Promise<ToolResult> {
+  async executor(args: unknown, ctx: ExecutionContext): Promise<ToolResult> {
     const parsed = inputSchema.safeParse(args)
     if (!parsed.success) {
       return { success: false, error: `Invalid arguments: ${parsed.error.message}` }
@@ -41,11 +41,12 @@ export const readSkillTool: ToolDefinition = {
         cachedSkills = result.skills
       }
       
-      // Find the requested skill.
-      const skill = cachedSkills.find(s => s.id === name || s.metadata.name === name)
+      // Find the requested skill (among those the user's role may read).
+      const skills = filterSkills(cachedSkills, ctx)
+      const skill = skills.find(s => s.id === name || s.metadata.name === name)
       
       if (!skill) {
-        const availableSkills = cachedSkills.map(s => s.id).join(', ')
+        const availableSkills = skills.map(s => s.id).join(', ')
         return { 
           success: false, 
           error: `Skill "${name}" not found. Available skills: ${availableSkills || 'none'}` 
@@ -86,7 +87,7 @@ export const listSkillsTool: ToolDefinition = {
   inputSchema: listInputSchema,
   permissions: ['skill'],
   
-  async executor(_args: unknown, _ctx: ExecutionContext): Promise<ToolResult> {
+  async executor(_args: unknown, ctx: ExecutionContext): Promise<ToolResult> {
     try {
       // Load or use cached skills.
       if (!cachedSkills) {
@@ -95,16 +96,17 @@ export const listSkillsTool: ToolDefinition = {
         cachedSkills = result.skills
       }
       
-      if (cachedSkills.length === 0) {
+      const skills = filterSkills(cachedSkills, ctx)
+      if (skills.length === 0) {
         return { 
           success: true, 
           data: 'No skills available. Skills can be added to ~/.openvia/skills/' 
         }
       }
       
-      logger.info(`Listing ${cachedSkills.length} available skills`)
+      logger.info(`Listing ${skills.length} available skills`)
       
-      const skillList = cachedSkills.map(s => 
+      const skillList = skills.map(s => 
         `- ${s.id}: ${s.metadata.name}${s.metadata.description ? ` - ${s.metadata.description}` : ''}`
       ).join('\n')
       
@@ -122,6 +124,12 @@ export const listSkillsTool: ToolDefinition = {
   }
 }
 
+/** Skills the user's role may read */
+function filterSkills(skills: LoadedSkill[], ctx: ExecutionContext): LoadedSkill[] {
+  const allowed = ctx.allowedSkills
+  return allowed ? skills.filter(s => allowed.includes(s.id)) : skills
+}
+
 /** Clear the skills cache */
 export function refreshSkillsCache(): void {
   cachedSkills = null
@@ -23,6 +23,7 @@ export const writeTool: ToolDefinition = {
   description: 'Write content to a file. Creates the file if it does not exist, or overwrites it if it does.',
   inputSchema,
   permissions: ['write'],
+  pathArgs: ['path'],
   
   async executor(args: unknown, ctx: ExecutionContext): Promise<ToolResult> {
     const parsed = inputSchema.safeParse(args)
@@ -2,15 +2,39 @@
  * Communication protocol definition between Orchestrator and Claude CLI
  */
 
-/** Conversation Message */
-/** Content Block (Text or Image) */
+/** Content Block (Text, Image, Tool Call or Tool Result) */
 export type ContentBlock = 
   | { type: 'text'; text: string }
   | { type: 'image'; data: string; mimeType: string } // data is base64
+  | ToolCallBlock
+  | ToolResultBlock
 
-/** Conversation Message */
+/** Tool call requested by the assistant */
+export interface ToolCallBlock {
+  type: 'tool_call'
+  id: string
+  name: string
+  args: unknown
+  /** Provider specific data that must be sent back (e.g. Gemini thoughtSignature) */
+  meta?: Record<string, unknown>
+}
+
+/** Tool execution result sent back to the model */
+export interface ToolResultBlock {
+  type: 'tool_result'
+  toolCallId: string
+  toolName: string
+  content: string
+  isError?: boolean
+}
+
+/** Conversation Message
+ *
+ * Tool transcripts are stored as an `assistant` message with `tool_call` blocks,
+ * followed by a `tool` message with the matching `tool_result` blocks.
+ */
 export interface Message {
-  role: 'user' | 'assistant' | 'system'
+  role: 'user' | 'assistant' | 'system' | 'tool'
   content: string | ContentBlock[]
 }
 
@@ -4,6 +4,8 @@ export interface RequestContext {
   userId: string
   channelId: string
   sendReply: (text: string) => Promise<void>
+  /** Chat the message came from (e.g. a group title), shown to approvers */
+  origin?: string
 }
 
 const contextStorage = new AsyncLocalStorage<RequestContext>()
@@ -0,0 +1,75 @@
+/**
+ * Glob Matching
+ *
+ * - `*`      any characters except `/`
+ * - `**`     any characters, including `/` (`dir/**` also matches `dir` itself)
+ * - `?`      one character except `/`
+ * - `{a,b}`  alternatives
+ */
+import { homedir } from 'node:os'
+
+const cache = new Map<string, RegExp>()
+
+/**
+ * Convert a glob to an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  const cached = cache.get(glob)
+  if (cached) return cached
+
+  let source = ''
+  let braceDepth = 0
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `/**` at the end also matches the directory itself
+        if (glob[i + 2] === undefined && source.endsWith('\\/')) {
+          source = `${source.slice(0, -2)}(?:\\/.*)?`
+        } else {
+          source += '.*'
+        }
+        i++
+        // `**/` matches zero or more directories
+        if (glob[i + 1] === '/') {
+          source = source.slice(0, -2) + '(?:.*\\/)?'
+          i++
+        }
+      } else {
+        source += '[^/]*'
+      }
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '{') {
+      braceDepth++
+      source += '(?:'
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--
+      source += ')'
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|'
+    } else {
+      source += char.replace(/[.+^$()|[\]\\/]/g, '\\$&')
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`)
+  cache.set(glob, regex)
+  return regex
+}
+
+/**
+ * Match a value against a glob
+ */
+export function matchGlob(value: string, glob: string): boolean {
+  return globToRegExp(glob).test(value)
+}
+
+/**
+ * Expand a leading `~` to the home directory
+ */
+export function expandHome(path: string): string {
+  if (path === '~') return homedir()
+  if (path.startsWith('~/')) return homedir() + path.slice(1)
+  return path
+}
@@ -0,0 +1,83 @@
+/**
+ * HTTP Server Helpers
+ *
+ * Shared by the HTTP API channel and the OpenAI-compatible server.
+ */
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { createHash, timingSafeEqual } from 'node:crypto'
+
+/** Error with an HTTP status */
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+  }
+}
+
+/** API token */
+export interface HttpApiToken {
+  token: string
+  /** User the token acts as (sessions, permissions, audit) */
+  userId: string
+}
+
+/**
+ * Bearer token lookup (tokens are compared as hashes, in constant time)
+ */
+export class TokenStore {
+  private tokens: { hash: Buffer; userId: string }[]
+
+  constructor(tokens: HttpApiToken[] = []) {
+    this.tokens = tokens
+      .filter(t => t.token && t.userId)
+      .map(t => ({ hash: hashToken(t.token), userId: String(t.userId) }))
+  }
+
+  get size(): number {
+    return this.tokens.length
+  }
+
+  /**
+   * Resolve the user ID of a token
+   */
+  resolve(token: string | null | undefined): string | null {
+    if (!token) return null
+    const hash = hashToken(token)
+    return this.tokens.find(t => timingSafeEqual(t.hash, hash))?.userId || null
+  }
+}
+
+function hashToken(token: string): Buffer {
+  return createHash('sha256').update(token).digest()
+}
+
+/**
+ * Token from the `Authorization: Bearer` header
+ */
+export function getBearerToken(req: IncomingMessage): string | null {
+  const header = String(req.headers.authorization || '')
+  return header.startsWith('Bearer ') ? header.slice(7).trim() : null
+}
+
+/**
+ * Read and parse a JSON request body (empty body = `{}`)
+ */
+export async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<any> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > maxBytes) throw new HttpError(413, 'Request body too large')
+    chunks.push(chunk)
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}')
+  } catch {
+    throw new HttpError(400, 'Invalid JSON')
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(body))
+}
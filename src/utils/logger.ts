@@ -13,6 +13,8 @@ const LEVELS: Record<LogLevel, number> = {
 export class Logger {
   private static logDir: string | null = null
   private static currentLevel: number = LEVELS.info
+  private static consoleEnabled = true
+  private static consoleToStderr = false
 
   constructor(private module: string) {}
 
@@ -26,6 +28,21 @@ export class Logger {
     }
   }
 
+  /**
+   * Enable or disable console output (e.g. while an interactive REPL owns the terminal).
+   * File logging is not affected.
+   */
+  public static setConsoleEnabled(enabled: boolean): void {
+    this.consoleEnabled = enabled
+  }
+
+  /**
+   * Write all console output to stderr (when stdout carries a protocol, e.g. MCP over stdio).
+   */
+  public static setConsoleToStderr(enabled: boolean): void {
+    this.consoleToStderr = enabled
+  }
+
   /**
    * Set the directory for log files.
    * If set, logs will be written to daily files (e.g., app-2024-03-21.log)
@@ -48,14 +65,16 @@ export class Logger {
       const output = args.length > 0 ? `${formatted} ${JSON.stringify(args)}` : formatted
       
       // Output to console
-      if (level === 'error') {
-        console.error(output)
-      } else if (level === 'warn') {
-        console.warn(output)
-      } else if (level === 'debug') {
-        console.debug(output)
-      } else {
-        console.info(output)
+      if (Logger.consoleEnabled) {
+        if (level === 'error' || Logger.consoleToStderr) {
+          console.error(output)
+        } else if (level === 'warn') {
+          console.warn(output)
+        } else if (level === 'debug') {
+          console.debug(output)
+        } else {
+          console.info(output)
+        }
       }
 
       // Output to file if logDir is configured
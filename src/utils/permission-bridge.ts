@@ -1,21 +1,65 @@
 import { Logger } from './logger'
 import { v4 as uuidv4 } from 'uuid'
 import { getRequestContext, RequestContext } from '../utils/context'
+import type { GrantProposal, GrantScope } from '../core/grants'
 
 export type PermissionDecision = 'allow' | 'deny'
 
+/** Decision and the user who made it (none when denied automatically) */
+export interface PermissionAnswer {
+  decision: PermissionDecision
+  approver?: string
+  /** How long an approval holds (default: once) */
+  scope?: GrantScope
+  /** Everyone who approved, for requests that needed approvers */
+  approvers?: string[]
+}
+
+/** Why a request was denied without an answer */
+export type PermissionCloseReason = 'expired' | 'cancelled'
+
+/** Outcome of `resolveRequest` (`pending`: approval recorded, more approvers needed) */
+export type ResolveResult = 'resolved' | 'pending' | 'not_found' | 'forbidden'
+
+/** Approval configuration (`approvals`) */
+export interface ApprovalConfig {
+  /** Deny requests not answered within this many ms (default: 5 minutes, 0 = wait forever) */
+  timeout?: number
+  /** Users who may answer requests of other users, per channel (channel -> user IDs) */
+  approvers?: Record<string, Array<number | string>>
+  /** Chat where requests needing approvers are posted, per channel (channel -> chat ID) */
+  chats?: Record<string, number | string>
+  /** Offer "Allow for this session" and "Always allow this pattern" (default: true) */
+  grants?: boolean
+}
+
 export interface PendingRequest {
   id: string
   message: string
   context: RequestContext
-  resolve: (decision: PermissionDecision) => void
+  createdAt: number
+  /** Denied automatically at this time (none = waits until answered) */
+  expiresAt?: number
+  /** Grant the user may choose instead of allowing once */
+  grant?: GrantProposal
+  /** Approvals needed from designated approvers (none = the requesting user answers) */
+  approvers?: number
+  /** Approvers who approved so far */
+  approvals: string[]
+  resolve: (decision: PermissionDecision, approver?: string, scope?: GrantScope) => void
 }
 
+const DEFAULT_TIMEOUT = 5 * 60 * 1000
+
 export class PermissionBridge {
   private static instance: PermissionBridge
   private logger = new Logger('PermissionBridge')
   private handler: ((req: PendingRequest) => Promise<void>) | null = null
+  private closeHandler: ((req: PendingRequest, reason: PermissionCloseReason) => Promise<void>) | null = null
   private pendingRequests = new Map<string, PendingRequest>()
+  private timeout = DEFAULT_TIMEOUT
+  private approvers: Record<string, string[]> = {}
+  private chats: Record<string, string> = {}
 
   private constructor() {}
 
@@ -26,45 +70,95 @@ export class PermissionBridge {
     return PermissionBridge.instance
   }
 
+  /**
+   * Apply the approval configuration (affects new requests)
+   */
+  configure(config: ApprovalConfig) {
+    this.timeout = config.timeout ?? DEFAULT_TIMEOUT
+    this.approvers = Object.fromEntries(
+      Object.entries(config.approvers || {}).map(([channelId, ids]) => [channelId, ids.map(id => String(id).trim())])
+    )
+    this.chats = Object.fromEntries(
+      Object.entries(config.chats || {}).map(([channelId, chatId]) => [channelId, String(chatId).trim()])
+    )
+  }
+
   /**
    * Register the UI handler (e.g., BotManager)
+   *
+   * @param onClose - Called when a request expires or is cancelled, to update its prompt
    */
-  registerHandler(handler: (req: PendingRequest) => Promise<void>) {
+  registerHandler(
+    handler: (req: PendingRequest) => Promise<void>,
+    onClose?: (req: PendingRequest, reason: PermissionCloseReason) => Promise<void>
+  ) {
     this.handler = handler
+    this.closeHandler = onClose || null
     this.logger.info('Handler registered')
   }
 
   /**
    * Request permission from the user
-   * Returns a promise that resolves to 'allow' or 'deny'
+   * Returns a promise that resolves to 'allow' or 'deny' and who answered;
+   * requests not answered within the timeout are denied
+   *
+   * With `approvers`, the request needs that many approvals from designated
+   * approvers of the channel; it is denied at once when fewer are configured.
    */
-  async request(message: string, explicitContext?: RequestContext): Promise<PermissionDecision> {
+  async request(
+    message: string,
+    explicitContext?: RequestContext,
+    options: { grant?: GrantProposal; approvers?: number } = {}
+  ): Promise<PermissionAnswer> {
     const context = explicitContext || getRequestContext()
 
     if (!context) {
       this.logger.error('No request context found. Cannot request permission.')
-      return 'deny'
+      return { decision: 'deny' }
     }
 
     if (!this.handler) {
       this.logger.warn('No handler registered, defaulting to DENY')
-      return 'deny'
+      return { decision: 'deny' }
+    }
+
+    const available = this.getApprovers(context.channelId).length
+    if (options.approvers && available < options.approvers) {
+      this.logger.warn(`Request needs ${options.approvers} approvers but ${context.channelId} has ${available}, denying`)
+      return { decision: 'deny' }
     }
 
-    return new Promise<PermissionDecision>((resolve) => {
+    return new Promise<PermissionAnswer>((resolve) => {
       const id = uuidv4()
+      const createdAt = Date.now()
+      let timer: ReturnType<typeof setTimeout> | null = null
       const request: PendingRequest = {
         id,
         message,
         context,
-        resolve: (decision) => {
-          this.pendingRequests.delete(id)
-          resolve(decision)
+        createdAt,
+        expiresAt: this.timeout > 0 ? createdAt + this.timeout : undefined,
+        grant: options.grant,
+        approvers: options.approvers,
+        approvals: [],
+        resolve: (decision, approver, scope) => {
+          if (!this.pendingRequests.delete(id)) return
+          if (timer) clearTimeout(timer)
+          resolve({
+            decision,
+            approver,
+            scope: decision === 'allow' && request.grant ? scope : undefined,
+            approvers: decision === 'allow' && request.approvals.length > 0 ? [...request.approvals] : undefined,
+          })
         }
       }
 
       this.pendingRequests.set(id, request)
-      
+      if (this.timeout > 0) {
+        timer = setTimeout(() => this.close(request, 'expired'), this.timeout)
+        timer.unref()
+      }
+
       // Notify the handler
       this.handler!(request).catch(err => {
         this.logger.error('Error in permission handler:', err)
@@ -75,27 +169,148 @@ export class PermissionBridge {
   }
 
   /**
-   * Find a pending request by User ID
+   * Pending requests of a user in a channel, oldest first
    */
-  findRequestByUser(userId: string): PendingRequest | undefined {
-    for (const request of this.pendingRequests.values()) {
-      if (request.context && request.context.userId === userId) {
-        return request
-      }
-    }
-    return undefined
+  getUserRequests(userId: string, channelId?: string): PendingRequest[] {
+    return this.getPendingRequests(channelId).filter(request => request.context.userId === userId)
+  }
+
+  /**
+   * Get a pending request by ID
+   */
+  getRequest(id: string): PendingRequest | undefined {
+    return this.pendingRequests.get(id)
+  }
+
+  /**
+   * List pending requests (optionally of one channel), oldest first
+   */
+  getPendingRequests(channelId?: string): PendingRequest[] {
+    return [...this.pendingRequests.values()].filter(
+      (request) => !channelId || request.context.channelId === channelId
+    )
+  }
+
+  /**
+   * Whether a user may answer a request: the requester or a designated approver of its channel.
+   * Requests that need approvers can only be denied by the requester.
+   */
+  canAnswer(request: PendingRequest, userId: string, decision: PermissionDecision = 'allow'): boolean {
+    const id = String(userId).trim()
+    if (this.isApprover(request.context.channelId, id)) return true
+    return id === request.context.userId && (!request.approvers || decision === 'deny')
+  }
+
+  /**
+   * Designated approvers of a channel (`approvals.approvers`)
+   */
+  getApprovers(channelId: string): string[] {
+    return this.approvers[channelId] || []
+  }
+
+  isApprover(channelId: string, userId: string): boolean {
+    return this.getApprovers(channelId).includes(String(userId).trim())
+  }
+
+  /**
+   * Chat where requests needing approvers are posted (`approvals.chats`)
+   */
+  getApprovalChat(channelId: string): string | undefined {
+    return this.chats[channelId]
   }
 
   /**
    * Resolve a pending request
+   *
+   * @param approver - User who answered (recorded in the audit log); must be allowed
+   *   to answer (see `canAnswer`). Omitted for automatic decisions.
+   * @param scope - How long an approval holds (requests offering a grant only)
+   * @returns `pending` when the request needs approvals from more approvers
    */
-  resolveRequest(id: string, decision: PermissionDecision) {
+  resolveRequest(id: string, decision: PermissionDecision, approver?: string, scope?: GrantScope): ResolveResult {
     const request = this.pendingRequests.get(id)
-    if (request) {
-      this.logger.info(`Resolving request ${id} with ${decision}`)
-      request.resolve(decision)
-    } else {
+    if (!request) {
       this.logger.warn(`Request ${id} not found or already resolved`)
+      return 'not_found'
+    }
+    if (approver !== undefined && !this.canAnswer(request, approver, decision)) {
+      this.logger.warn(`User ${approver} may not answer request ${id} of ${request.context.userId}`)
+      return 'forbidden'
+    }
+
+    // Several approvers: every distinct approval counts, one denial is final
+    if (request.approvers && approver !== undefined && decision === 'allow') {
+      const userId = String(approver).trim()
+      if (!request.approvals.includes(userId)) request.approvals.push(userId)
+      if (request.approvals.length < request.approvers) {
+        this.logger.info(`Request ${id} approved by ${userId} (${request.approvals.length} of ${request.approvers})`)
+        return 'pending'
+      }
+    }
+
+    this.logger.info(`Resolving request ${id} with ${decision}${scope && scope !== 'once' ? ` (${scope})` : ''}${approver ? ` by ${approver}` : ''}`)
+    request.resolve(decision, approver, scope)
+    return 'resolved'
+  }
+
+  /**
+   * Deny all pending requests of a user in a channel (`/cancel`)
+   *
+   * @returns Number of cancelled requests
+   */
+  cancelRequests(userId: string, channelId: string): number {
+    const requests = this.getUserRequests(userId, channelId)
+    for (const request of requests) {
+      this.close(request, 'cancelled')
     }
+    return requests.length
+  }
+
+  /**
+   * Deny a request without an answer and let the UI update its prompt
+   */
+  private close(request: PendingRequest, reason: PermissionCloseReason) {
+    if (!this.pendingRequests.has(request.id)) return
+    this.logger.info(`Denying request ${request.id} of ${request.context.userId}: ${reason}`)
+    request.resolve('deny')
+    this.closeHandler?.(request, reason).catch(err => {
+      this.logger.warn(`Failed to update ${reason} request ${request.id}:`, err)
+    })
   }
 }
+
+/** Text shown in place of the buttons of a closed request */
+export function describeClosedRequest(reason: PermissionCloseReason): string {
+  return reason === 'expired' ? 'Expired: no answer in time, denied' : 'Cancelled, denied'
+}
+
+/** Reply to `/cancel` */
+export function describeCancelled(count: number): string {
+  return count > 0
+    ? `Cancelled ${count} pending permission request${count > 1 ? 's' : ''}`
+    : 'No pending permission requests'
+}
+
+/** Header of a request posted to approvers: who asked, where, and how many approvals are needed */
+export function describeApprovalRequest(request: PendingRequest): string {
+  const count = request.approvers || 1
+  const lines = [
+    `Approval needed from ${count} approver${count > 1 ? 's' : ''}`,
+    `User: ${request.context.userId} (${request.context.channelId})`,
+  ]
+  if (request.context.origin) lines.push(`Chat: ${request.context.origin}`)
+  return `${lines.join('\n')}\n\n${request.message}`
+}
+
+/** Progress of a request needing several approvers, e.g. "Approved by 1 of 2 approvers" */
+export function describeApprovals(request: PendingRequest): string {
+  return `Approved by ${request.approvals.length} of ${request.approvers} approvers`
+}
+
+/** Text of a decision, e.g. "Always allowed `git push *`" */
+export function describeDecision(decision: PermissionDecision, scope?: GrantScope, grant?: GrantProposal): string {
+  if (decision === 'deny') return 'Denied'
+  if (scope === 'session') return 'Allowed for this session'
+  if (scope === 'always' && grant) return `Always allowed \`${grant.pattern}\``
+  return 'Allowed'
+}
@@ -0,0 +1,193 @@
+/**
+ * Slack channel against a local fake Socket Mode server and Web API
+ */
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { WebSocketServer, type WebSocket } from 'ws'
+import { SlackChannel } from '../../src/bot/slack'
+import { PermissionBridge, type PendingRequest } from '../../src/utils/permission-bridge'
+
+interface ApiCall {
+  method: string
+  body: Record<string, any>
+  result?: Record<string, any>
+}
+
+let api: Server
+let sockets: WebSocketServer
+let client: WebSocket | null = null
+let slack: SlackChannel
+const calls: ApiCall[] = []
+const acks: string[] = []
+const messages: Array<{ input: unknown; userId: string; channelId: string }> = []
+
+/** Poll until `check` holds (the channel handles envelopes asynchronously) */
+async function waitFor(check: () => boolean, timeout = 2000): Promise<void> {
+  const start = Date.now()
+  while (!check()) {
+    if (Date.now() - start > timeout) throw new Error('Timed out')
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+}
+
+function send(envelope: Record<string, unknown>): void {
+  client!.send(JSON.stringify(envelope))
+}
+
+beforeAll(async () => {
+  sockets = new WebSocketServer({ port: 0, host: '127.0.0.1' })
+  await new Promise(resolve => sockets.once('listening', resolve))
+  sockets.on('connection', (socket) => {
+    client = socket
+    socket.on('message', (data) => acks.push(JSON.parse(data.toString()).envelope_id))
+    socket.send(JSON.stringify({ type: 'hello' }))
+  })
+
+  api = createServer((req, res) => {
+    let data = ''
+    req.on('data', chunk => { data += chunk })
+    req.on('end', () => {
+      const method = req.url!.slice(1)
+      const call: ApiCall = { method, body: JSON.parse(data || '{}') }
+      calls.push(call)
+      call.result = method === 'apps.connections.open'
+        ? { url: `ws://127.0.0.1:${(sockets.address() as AddressInfo).port}` }
+        : { channel: call.body.channel || 'C1', ts: `${calls.length}.0` }
+      res.setHeader('Content-Type', 'application/json')
+      res.end(JSON.stringify({ ok: true, ...call.result }))
+    })
+  })
+  await new Promise<void>(resolve => api.listen(0, '127.0.0.1', resolve))
+
+  slack = new SlackChannel('xapp-test', 'xoxb-test', `http://127.0.0.1:${(api.address() as AddressInfo).port}`)
+  await slack.start(async (input, userId, channelId, sendReply) => {
+    messages.push({ input, userId, channelId })
+    await sendReply('pong')
+  })
+})
+
+afterAll(async () => {
+  await slack.stop()
+  sockets.close()
+  api.close()
+})
+
+describe('SlackChannel', () => {
+  test('acks an events_api envelope and replies in the thread of the mention', async () => {
+    send({
+      type: 'events_api',
+      envelope_id: 'env-1',
+      payload: {
+        team_id: 'T1',
+        event: { type: 'app_mention', channel: 'C1', user: 'U1', text: '<@UBOT> ping', ts: '100.1' },
+      },
+    })
+
+    await waitFor(() => calls.some(call => call.method === 'chat.postMessage'))
+    expect(acks).toContain('env-1')
+    expect(messages).toEqual([{ input: 'ping', userId: 'T1:U1', channelId: 'slack' }])
+
+    const reply = calls.find(call => call.method === 'chat.postMessage')!
+    expect(reply.body).toMatchObject({ channel: 'C1', thread_ts: '100.1', text: 'pong' })
+  })
+
+  test('resolves permission requests from Allow and Deny buttons', async () => {
+    const bridge = PermissionBridge.getInstance()
+    const requests: PendingRequest[] = []
+    bridge.registerHandler(async (request) => {
+      requests.push(request)
+      await slack.handlePermissionRequest(request)
+    })
+
+    const context = { userId: 'T1:U1', channelId: 'slack', sendReply: async () => {} }
+    const allowed = bridge.request('Run tool A?', context)
+    const denied = bridge.request('Run tool B?', context)
+    await waitFor(() => requests.length === 2)
+
+    const interaction = (envelopeId: string, actionId: string, requestId: string) => send({
+      type: 'interactive',
+      envelope_id: envelopeId,
+      payload: {
+        type: 'block_actions',
+        user: { id: 'U1' },
+        team: { id: 'T1' },
+        channel: { id: 'C1' },
+        message: { ts: '200.1', text: 'Permission Request', blocks: [{ type: 'section' }, { type: 'actions' }] },
+        actions: [{ action_id: actionId, value: requestId }],
+      },
+    })
+    interaction('env-2', 'perm_allow', requests[0].id)
+    interaction('env-3', 'perm_deny', requests[1].id)
+
+    expect(await allowed).toMatchObject({ decision: 'allow', approver: 'T1:U1' })
+    expect(await denied).toMatchObject({ decision: 'deny', approver: 'T1:U1' })
+    await waitFor(() => acks.includes('env-2') && acks.includes('env-3'))
+    expect(bridge.getRequest(requests[0].id)).toBeUndefined()
+
+    // The buttons are replaced with the decision
+    await waitFor(() => calls.filter(call => call.method === 'chat.update').length === 2)
+    const updates = calls.filter(call => call.method === 'chat.update')
+    expect(updates.map(update => update.body.blocks.map((block: { type: string }) => block.type)))
+      .toEqual([['section', 'context'], ['section', 'context']])
+    expect(updates.map(update => update.body.blocks[1].elements[0].text).sort())
+      .toEqual(['*Allowed by <@U1>*', '*Denied by <@U1>*'])
+  })
+
+  test('DMs each approver when no approval channel is set', async () => {
+    const bridge = PermissionBridge.getInstance()
+    bridge.configure({ approvers: { slack: ['T1:U2', 'T1:U3'] } })
+    const requests: PendingRequest[] = []
+    bridge.registerHandler(async (request) => {
+      requests.push(request)
+      await slack.handlePermissionRequest(request)
+    })
+
+    const replies: string[] = []
+    const context = { userId: 'T1:U1', channelId: 'slack', sendReply: async (text: string) => { replies.push(text) } }
+    const posted = calls.length
+    const answer = bridge.request('Run tool C?', context, { approvers: 1 })
+    await waitFor(() => replies.length === 1)
+
+    const prompts = calls.slice(posted).filter(call => call.method === 'chat.postMessage')
+    expect(prompts.map(prompt => prompt.body.channel)).toEqual(['U2', 'U3'])
+    expect(replies[0]).toContain('Waiting for approval from 1 approver')
+
+    send({
+      type: 'interactive',
+      envelope_id: 'env-4',
+      payload: {
+        type: 'block_actions',
+        user: { id: 'U2' },
+        team: { id: 'T1' },
+        channel: { id: prompts[0].result!.channel },
+        message: { ts: prompts[0].result!.ts, text: 'Permission Request', blocks: [{ type: 'section' }, { type: 'actions' }] },
+        actions: [{ action_id: 'perm_allow', value: requests[0].id }],
+      },
+    })
+    expect(await answer).toMatchObject({ decision: 'allow', approver: 'T1:U2' })
+    bridge.configure({})
+
+    // Both copies lose their buttons
+    await waitFor(() => calls.slice(posted).filter(call => call.method === 'chat.update').length === 2)
+    const updates = calls.slice(posted).filter(call => call.method === 'chat.update')
+    expect(updates.map(update => `${update.body.channel}/${update.body.ts}`).sort())
+      .toEqual(prompts.map(prompt => `${prompt.result!.channel}/${prompt.result!.ts}`).sort())
+  })
+
+  test('passes slash commands on as command text', async () => {
+    messages.length = 0
+    const posted = calls.filter(call => call.method === 'chat.postMessage').length
+    send({
+      type: 'slash_commands',
+      envelope_id: 'env-5',
+      payload: { command: '/usage', text: ' week ', user_id: 'U1', team_id: 'T1', channel_id: 'D1' },
+    })
+
+    await waitFor(() => calls.filter(call => call.method === 'chat.postMessage').length > posted)
+    expect(acks).toContain('env-5')
+    expect(messages).toEqual([{ input: '/usage week', userId: 'T1:U1', channelId: 'slack' }])
+    expect(calls.filter(call => call.method === 'chat.postMessage').at(-1)!.body)
+      .toMatchObject({ channel: 'D1', text: 'pong' })
+  })
+})
@@ -0,0 +1,35 @@
+/**
+ * Message splitting
+ */
+import { describe, expect, test } from 'bun:test'
+import { splitMessage } from '../../src/bot/text'
+
+describe('splitMessage', () => {
+  test('returns short messages as they are', () => {
+    expect(splitMessage('hello', 10)).toEqual(['hello'])
+  })
+
+  test('splits at line breaks', () => {
+    expect(splitMessage('aaaa\nbbbb\ncccc', 12)).toEqual(['aaaa', 'bbbb\ncccc'])
+  })
+
+  test('closes and reopens code blocks that span a split', () => {
+    const chunks = splitMessage('```ts\nline 1\nline 2\nline 3\n```', 24)
+    expect(chunks[0]).toBe('```ts\nline 1\nline 2\n```')
+    expect(chunks[1]).toBe('```ts\nline 3\n```')
+  })
+
+  test('hard-splits a code block whose first line is longer than the limit', () => {
+    const text = '```js\n' + 'x'.repeat(5000)
+    const chunks = splitMessage(text, 4000)
+
+    expect(chunks).toHaveLength(2)
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(4000)
+    }
+    expect(chunks[0]).toStartWith('```js\nxxx')
+    expect(chunks[0]).toEndWith('\n```')
+    expect(chunks[1]).toStartWith('```js\nxxx')
+    expect(chunks.join('').split('x').length - 1).toBe(5000)
+  })
+})
@@ -0,0 +1,54 @@
+/**
+ * Grant proposals and matching
+ */
+import { describe, expect, test } from 'bun:test'
+import { z } from 'zod'
+import { GrantStore } from '../../src/core/grants'
+import type { ToolDefinition } from '../../src/core/registry'
+
+const tool = (name: string, permissions: string[], pathArgs?: string[]): ToolDefinition => ({
+  name,
+  description: name,
+  inputSchema: z.unknown(),
+  pathArgs,
+  permissions,
+  executor: async () => ({ success: true }),
+})
+
+const bash = tool('bash', ['shell'])
+const writeFile = tool('write_file', ['write'], ['path'])
+const session = { userId: 'u1', chatId: 'c1' }
+
+describe('GrantStore', () => {
+  test.each([
+    ['git push origin main', 'git push *'],
+    ['npm run build', 'npm run *'],
+    ['rm -rf build', 'rm -rf build'],
+    ['git push --force origin main', 'git push --force origin main'],
+    ['chmod u+s tool', 'chmod u+s tool'],
+    ['ls | grep foo', 'ls | grep foo'],
+  ])('proposes %s as %s', (command, pattern) => {
+    expect(new GrantStore().propose(bash, { command }, '/work')).toEqual({ tool: 'bash', pattern })
+  })
+
+  test('proposes the file itself for path tools', () => {
+    expect(new GrantStore().propose(writeFile, { path: 'src/a.ts' }, '/work'))
+      .toEqual({ tool: 'write_file', pattern: '/work/src/a.ts' })
+  })
+
+  test('matches a file grant only for that file', async () => {
+    const store = new GrantStore()
+    await store.add(session, { tool: 'write_file', pattern: '/work/src/a.ts' }, 'session')
+
+    expect(store.match(session, writeFile, { path: 'src/a.ts' }, '/work')).toBeDefined()
+    expect(store.match(session, writeFile, { path: 'src/b.ts' }, '/work')).toBeUndefined()
+  })
+
+  test('wildcard command grants do not cover destructive commands', async () => {
+    const store = new GrantStore()
+    await store.add(session, { tool: 'bash', pattern: 'git push *' }, 'session')
+
+    expect(store.match(session, bash, { command: 'git push origin main' }, '/work')).toBeDefined()
+    expect(store.match(session, bash, { command: 'git push --force origin main' }, '/work')).toBeUndefined()
+  })
+})
@@ -0,0 +1,43 @@
+/**
+ * Shell command classification
+ */
+import { describe, expect, test } from 'bun:test'
+import { analyzeShellCommand, isReadOnlyShell, type ShellRisk } from '../../src/core/shell-risk'
+
+describe('analyzeShellCommand', () => {
+  test.each<[string, ShellRisk[]]>([
+    ['ls -la', ['read_only']],
+    ['git log --oneline -5', ['read_only']],
+    ['git -C repo status', ['read_only']],
+    ['git grep -o TODO', ['read_only']],
+    ['LANG=C sort file', ['read_only']],
+    ['LC_ALL=C TZ=UTC ls', ['read_only']],
+    ['rg -n pattern src', ['read_only']],
+    ['man ls', ['read_only']],
+    ['sort -u file', ['read_only']],
+    ['export NO_COLOR=1', ['read_only']],
+    ['rm -rf build', ['destructive']],
+    ['sudo ls', ['privilege']],
+    ['curl https://example.com', ['network']],
+    ['echo hi > out.txt', ['writes']],
+    ['git log --output=x', ['writes']],
+    ['git diff -o x', ['writes']],
+    ["git -c core.pager='rm -rf x' log", ['unknown']],
+    ['git --config-env=core.pager=EVIL log', ['unknown']],
+    ['GIT_EXTERNAL_DIFF=/tmp/evil git diff', ['unknown']],
+    ['LD_PRELOAD=/tmp/e.so ls', ['unknown']],
+    ['PATH=/tmp ls', ['unknown']],
+    ['PATH=/tmp', ['unknown']],
+    ['env LD_PRELOAD=/tmp/e.so ls', ['unknown']],
+    ['export PATH=/tmp', ['unknown']],
+    ['rg --pre=/tmp/e x', ['unknown']],
+    ['rg --pre /tmp/e x', ['unknown']],
+    ['sort --compress-program=/tmp/evil f', ['unknown']],
+    ['man -P "rm x" ls', ['unknown']],
+    ['man --pager=/tmp/evil ls', ['unknown']],
+  ])('%s', (command, risks) => {
+    const analysis = analyzeShellCommand(command)
+    expect(analysis.risks).toEqual(risks)
+    expect(isReadOnlyShell(analysis)).toBe(risks.length === 1 && risks[0] === 'read_only')
+  })
+})
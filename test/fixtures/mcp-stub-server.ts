@@ -0,0 +1,44 @@
+/**
+ * Stub MCP server on stdio for the MCP client tests
+ *
+ * Tools:
+ * - `echo`: returns its `text` argument
+ * - `fail`: returns an `isError` result
+ * - `read.notes`: a name that needs sanitizing and would pass the built-in
+ *   "read" heuristic of the policy engine
+ */
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import { CallToolRequestSchema, ListToolsRequestSchema, type CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+
+const textSchema = {
+  type: 'object' as const,
+  properties: { text: { type: 'string' } },
+  required: ['text'],
+}
+
+const server = new Server({ name: 'stub', version: '1.0.0' }, { capabilities: { tools: {} } })
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: [
+    { name: 'echo', description: 'Echo the text', inputSchema: textSchema },
+    { name: 'fail', description: 'Always fails', inputSchema: { type: 'object' as const } },
+    { name: 'read.notes', description: 'Read notes', inputSchema: { type: 'object' as const } },
+  ],
+}))
+
+server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToolResult> => {
+  const args = request.params.arguments ?? {}
+  switch (request.params.name) {
+    case 'echo':
+      return { content: [{ type: 'text', text: String(args.text) }] }
+    case 'fail':
+      return { content: [{ type: 'text', text: 'stub failure' }], isError: true }
+    case 'read.notes':
+      return { content: [{ type: 'text', text: 'no notes' }] }
+    default:
+      return { content: [{ type: 'text', text: `Unknown tool: ${request.params.name}` }], isError: true }
+  }
+})
+
+await server.connect(new StdioServerTransport())
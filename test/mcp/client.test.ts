@@ -0,0 +1,62 @@
+/**
+ * MCP client against a local stub MCP server (stdio)
+ */
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import { ToolExecutor } from '../../src/core/executor'
+import { PolicyEngine } from '../../src/core/policy'
+import { ToolRegistry } from '../../src/core/registry'
+import { connectMcpServers, disconnectMcpServers, getMcpServerStatus, mcpToolName } from '../../src/mcp/client'
+
+const registry = new ToolRegistry()
+const policy = new PolicyEngine()
+const executor = new ToolExecutor(registry)
+const context = { userId: 'test', chatId: 'test', workDir: process.cwd() }
+const session = { userId: 'test', chatId: 'test' }
+
+beforeAll(async () => {
+  await connectMcpServers({
+    stub: {
+      // Runs under the same runtime as the tests
+      command: process.execPath,
+      args: [join(import.meta.dir, '../fixtures/mcp-stub-server.ts')],
+      defaultDecision: 'require_approval',
+      toolDecisions: { echo: 'allow', fail: 'deny' },
+      timeout: 10000,
+    },
+  }, registry, policy)
+})
+
+afterAll(async () => {
+  await disconnectMcpServers()
+})
+
+describe('MCP client', () => {
+  test('registers the discovered tools as mcp__<server>__<tool>', () => {
+    expect(mcpToolName('stub', 'read.notes')).toBe('mcp__stub__read_notes')
+
+    const [status] = getMcpServerStatus()
+    expect(status).toMatchObject({ name: 'stub', connected: true })
+    expect(status.tools.sort()).toEqual(['mcp__stub__echo', 'mcp__stub__fail', 'mcp__stub__read_notes'])
+    expect(registry.get('mcp__stub__echo')?.description).toBe('[MCP: stub] Echo the text')
+  })
+
+  test('calls tools through ToolExecutor', async () => {
+    const result = await executor.execute({ toolName: 'mcp__stub__echo', args: { text: 'hello' }, context })
+    expect(result).toEqual({ success: true, data: 'hello' })
+  })
+
+  test('maps isError results to failures', async () => {
+    const result = await executor.execute({ toolName: 'mcp__stub__fail', args: {}, context })
+    expect(result).toEqual({ success: false, error: 'stub failure' })
+  })
+
+  test('applies toolDecisions and defaultDecision in PolicyEngine.evaluate', async () => {
+    const evaluate = (name: string) => policy.evaluate({ tool: registry.get(name)!, args: {}, session })
+
+    expect(await evaluate('mcp__stub__echo')).toMatchObject({ type: 'allow', rule: 'mcp:stub:echo' })
+    expect(await evaluate('mcp__stub__fail')).toMatchObject({ type: 'deny', rule: 'mcp:stub:fail' })
+    // The server default applies, not the built-in "read" heuristic
+    expect(await evaluate('mcp__stub__read_notes')).toMatchObject({ type: 'require_approval', rule: 'mcp:stub' })
+  })
+})